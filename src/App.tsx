@@ -1,33 +1,144 @@
-import { useState, useRef, useMemo, useEffect } from 'react';
-import * as d3 from 'd3'; // Needed for loading data for neighbor calculation
+import { useState, useRef, useMemo, useEffect, useEffectEvent, useCallback, type KeyboardEvent } from 'react';
 import './App.css';
-import WorldMap from './WorldMap';
-import { buildAdjacencyList } from './mapHelpers';
+import { buildAdjacencyList, buildCentroids, buildCountryShapes, type CountryFeature } from './mapHelpers';
+import { loadMapData, type MapDataBundle } from './mapData';
+import { QUIZ_COUNTRIES, getCapital, type CapitalRecord } from './countryRegistry';
+import { createSeededRandom, type RandomSource } from './random';
+import { toDateKey, dailySeed, loadDailyRecord, saveDailyRecord, DAILY_REGIONS, DAILY_VARIANT, type DailyRecord } from './daily';
+import DailyCountdown from './DailyCountdown';
+import { recordGame, loadHistory, type GameRecord } from './gameHistory';
+import StatsPanel from './StatsPanel';
+import { countriesInRegions } from './regions';
+import { isClassicVariant, countdownSeconds, classicGoal, type ClassicVariant } from './classicVariants';
+import { useClassicGame, type GuessedCountries } from './useClassicGame';
+import type { GameModeId } from './gameModes';
+import { decodeChallenge, buildShareText, shareText, type ChallengeConfig } from './share';
+import type { GuessFeedback as Feedback } from './guessFeedback';
+import GuessFeedback from './GuessFeedback';
 import { useNeighborGame } from './useNeighborGame';
+import { useLocateGame } from './useLocateGame';
+import { useRouteGame } from './useRouteGame';
+import { usePracticeGame } from './usePracticeGame';
+import { useSilhouetteGame } from './useSilhouetteGame';
+import { useMysteryGame } from './useMysteryGame';
+import { useChainGame } from './useChainGame';
+import { loadDeck, saveDeck, addMissedCountries } from './practiceDeck';
+import { loadProjection, saveProjection, type MapProjectionId } from './projections';
+import { loadRenderer, saveRenderer, type MapRenderer } from './mapRender';
+import { THEMES, THEME_IDS, applyTheme, isThemeId, loadTheme, saveTheme, type ThemeId } from './themes';
+import {
+  GAME_MODES, GAME_MODE_LIST, checkGuessFor, startRoundFor, startChallengeFor, finishedGameFor, shareSummaryFor, type ModeGames,
+} from './modes/registry';
+import { ModeMap, ModeSidebar, ModeControls, ModeAnnouncer, ModeStage } from './modes/ModePanels';
+import type { ClassicModeGame } from './modes/classicMode';
+import type { PanelContext } from './modes/types';
 
-interface GuessedCountries {
-  [countryName: string]: boolean;
+type ClassicLoopMode = 'classic' | 'capitals';
+
+// What a Classic/Capitals game is played on
+interface ClassicSetup {
+  regions: string[];
+  variant: ClassicVariant;
+  countries: string[];
+  goal: number;
+  timeLimitMs: number | null;
 }
 
+const classicSetupFor = (regions: string[], variant: ClassicVariant): ClassicSetup => {
+  const countries = countriesInRegions(regions) ?? QUIZ_COUNTRIES;
+  return {
+    regions,
+    variant,
+    countries,
+    goal: classicGoal(variant, countries.length),
+    timeLimitMs: variant === 'countdown' ? countdownSeconds(countries.length) * 1000 : null,
+  };
+};
+
+const DAILY_CLASSIC_SETUP = classicSetupFor(DAILY_REGIONS, DAILY_VARIANT);
+
+// Random country whose capital hasn't been named yet (Reverse Capitals)
+const pickCapitalPrompt = (
+  pool: string[],
+  guessed: GuessedCountries,
+  exclude: string | null = null,
+  random: RandomSource = Math.random
+): string | null => {
+  const remaining = pool.filter(country => !guessed[country]);
+  const candidates = remaining.length > 1 ? remaining.filter(country => country !== exclude) : remaining;
+  return candidates.length ? candidates[Math.floor(random() * candidates.length)] : null;
+};
+
 function App() {
   // --- GLOBAL STATE ---
-  const [mode, setMode] = useState<'classic' | 'neighbors'>('classic');
-  const [mapData, setMapData] = useState<any>(null); // Shared map data
+  // Challenge links (?mode=...) boot straight into their puzzle
+  const [bootChallenge] = useState(() => decodeChallenge(window.location.search));
+  const [mode, setMode] = useState<GameModeId>(bootChallenge?.mode ?? 'classic');
+  const [mapData, setMapData] = useState<MapDataBundle | null>(null); // Shared map data
+  const [mapStatus, setMapStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [loadAttempt, setLoadAttempt] = useState(0); // Bumped by the Retry button
   const [neighborMap, setNeighborMap] = useState<Map<string, string[]>>(new Map());
+  const [centroids, setCentroids] = useState<Map<string, [number, number]>>(new Map());
+  const [countryShapes, setCountryShapes] = useState<Map<string, CountryFeature>>(new Map());
 
-  // --- CLASSIC GAME STATE ---
-  const [guessedCountries, setGuessedCountries] = useState<GuessedCountries>({});
-  const [guessedOrder, setGuessedOrder] = useState<string[]>([]);
-  const [revealedCountries, setRevealedCountries] = useState<string[]>([]);
+  // --- CLASSIC GAME STATE (via Hook) ---
   const [input, setInput] = useState('');
-  const [seconds, setSeconds] = useState(0);
-  const [gameStarted, setGameStarted] = useState(false);
-  const [gameEnded, setGameEnded] = useState(false);
+  const [inputMode, setInputMode] = useState<'live' | 'enter'>('live'); // Auto-accept vs submit on Enter
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  // Classic and Capitals share the classic game loop; this records which one the game belongs to
+  const [classicLoopMode, setClassicLoopMode] = useState<ClassicLoopMode>(bootChallenge?.mode === 'capitals' ? 'capitals' : 'classic');
+  const isClassicLoop = mode === 'classic' || mode === 'capitals';
+  const classicGame = useClassicGame(isClassicLoop);
+  const { guessedCountries, guessedOrder, paused } = classicGame;
+  const gameStarted = classicGame.status !== 'idle';
+  const gameEnded = classicGame.status === 'gaveUp' || classicGame.status === 'timeUp';
+  // Region ids the classic loop is limited to (empty = the whole world)
+  const [regionFilter, setRegionFilter] = useState<string[]>(bootChallenge?.regions ?? []);
+  const [classicVariant, setClassicVariant] = useState<ClassicVariant>(bootChallenge?.variant ?? 'open');
+  const playerSetup = useMemo(() => classicSetupFor(regionFilter, classicVariant), [regionFilter, classicVariant]);
+
+  // --- CAPITALS STATE ---
+  const [capitalsReverse, setCapitalsReverse] = useState(false); // Highlight a country, ask for its capital
+  const [capitalPrompt, setCapitalPrompt] = useState<string | null>(null);
+  const [capitalRandom, setCapitalRandom] = useState<RandomSource>(() => Math.random); // Seeded during a Daily
   
   // --- NEIGHBORS GAME STATE (via Hook) ---
   const neighborGame = useNeighborGame(neighborMap);
-  const [revealedByGiveUp, setRevealedByGiveUp] = useState<string[]>([]);
-  const [gaveUpThisRound, setGaveUpThisRound] = useState(false);
+
+  // --- LOCATE GAME STATE (via Hook) ---
+  const locateGame = useLocateGame(centroids, QUIZ_COUNTRIES);
+
+  // --- ROUTE GAME STATE (via Hook) ---
+  const routeGame = useRouteGame(neighborMap);
+
+  // --- CHAIN GAME STATE (via Hook) ---
+  const chainGame = useChainGame(neighborMap, centroids);
+
+  // --- SILHOUETTE GAME STATE (via Hook) ---
+  const silhouetteGame = useSilhouetteGame(countryShapes);
+
+  // --- MYSTERY GAME STATE (via Hook) ---
+  const mysteryGame = useMysteryGame(centroids, QUIZ_COUNTRIES);
+
+  // --- PRACTICE STATE (via Hook) ---
+  const practiceGame = usePracticeGame();
+
+  // --- DAILY CHALLENGE STATE ---
+  const [dateKey, setDateKey] = useState(() => toDateKey(new Date()));
+  const [daily, setDaily] = useState<{ mode: GameModeId; record: DailyRecord } | null>(null); // The daily being played
+  // A classic Daily is played on its own setup; the player's region and variant stay for their next game
+  const classicSetup = isClassicLoop && daily?.mode === mode ? DAILY_CLASSIC_SETUP : playerSetup;
+  const { countries: classicCountries, goal: classicTarget, timeLimitMs } = classicSetup; // Sprints end early
+
+  // --- HISTORY STATE ---
+  // Bumped whenever a round starts; `mode` is the mode it was started in
+  const [round, setRound] = useState<{ id: number; mode: GameModeId }>({ id: 0, mode: 'classic' });
+  const roundStartRef = useRef(0);            // Date.now() when the current round started
+  const recordedRoundRef = useRef(0);         // Last round id saved to the history
+  const [statsGames, setStatsGames] = useState<GameRecord[] | null>(null); // Non-null while the Stats panel is open
+
+  // --- SHARE STATE ---
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
 
   // --- UI STATE ---
   const [showMapDataTooltip, setShowMapDataTooltip] = useState(false);
@@ -36,301 +147,393 @@ function App() {
   const [hoveredCountry, setHoveredCountry] = useState<string | null>(null);
   const mapDataTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [showCredits, setShowCredits] = useState(false);
+  const [projection, setProjection] = useState<MapProjectionId>(loadProjection);
+  const [renderer, setRenderer] = useState<MapRenderer>(loadRenderer);
+  const [themeId, setThemeId] = useState<ThemeId>(loadTheme);
   const creditsTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   
-  // List of all valid countries (197 countries)
-  const allCountries = [
-    'Afghanistan', 'Albania', 'Algeria', 'Andorra', 'Angola', 'Antigua and Barbuda',
-    'Argentina', 'Armenia', 'Australia', 'Austria', 'Azerbaijan', 'Bahamas',
-    'Bahrain', 'Bangladesh', 'Barbados', 'Belarus', 'Belgium', 'Belize',
-    'Benin', 'Bhutan', 'Bolivia', 'Bosnia and Herzegovina', 'Botswana', 'Brazil',
-    'Brunei', 'Bulgaria', 'Burkina Faso', 'Burundi', 'Cameroon', 'Cambodia', 'Canada',
-    'Cabo Verde', 'Central African Republic', 'Chad', 'Chile', 'China', 'Colombia',
-    'Comoros', 'Republic of the Congo', 'Costa Rica', 'Croatia', 'Cuba', 'Cyprus', 'Czech Republic',
-    'Democratic Republic of the Congo', 'Denmark', 'Djibouti', 'Dominica', 'Dominican Republic', 'Ecuador', 'Egypt',
-    'El Salvador', 'Equatorial Guinea', 'Eritrea', 'Estonia', 'Eswatini', 'Ethiopia',
-    'Fiji', 'Finland', 'France', 'Gabon', 'Gambia', 'Georgia', 'Germany', 'Ghana',
-    'Greece', 'Grenada', 'Guatemala', 'Guinea', 'Guinea-Bissau', 'Guyana', 'Haiti',
-    'Honduras', 'Hungary', 'Iceland', 'India', 'Indonesia', 'Iran', 'Iraq', 'Ireland',
-    'Israel', 'Italy', 'Côte d\'Ivoire', 'Jamaica', 'Japan', 'Jordan', 'Kazakhstan', 'Kenya', 'Kiribati',
-    'Kosovo', 'Kuwait', 'Kyrgyzstan', 'Laos', 'Latvia', 'Lebanon', 'Lesotho', 'Liberia',
-    'Libya', 'Liechtenstein', 'Lithuania', 'Luxembourg', 'Madagascar', 'Malawi',
-    'Malaysia', 'Maldives', 'Mali', 'Malta', 'Marshall Islands', 'Mauritania',
-    'Mauritius', 'Mexico', 'Micronesia', 'Moldova', 'Monaco', 'Mongolia', 'Montenegro',
-    'Morocco', 'Mozambique', 'Myanmar', 'Namibia', 'Nauru', 'Nepal', 'Netherlands',
-    'New Zealand', 'Nicaragua', 'Niger', 'Nigeria', 'North Korea', 'North Macedonia',
-    'Norway', 'Oman', 'Pakistan', 'Palau', 'Palestine', 'Panama', 'Papua New Guinea',
-    'Paraguay', 'Peru', 'Philippines', 'Poland', 'Portugal', 'Qatar', 'Romania',
-    'Russia', 'Rwanda', 'Saint Kitts and Nevis', 'Saint Lucia', 'Saint Vincent and the Grenadines',
-    'Samoa', 'San Marino', 'Sao Tome and Principe', 'Saudi Arabia', 'Senegal', 'Serbia',    'Seychelles', 'Sierra Leone', 'Singapore', 'Slovakia', 'Slovenia', 'Solomon Islands',
-    'Somalia', 'South Africa', 'South Korea', 'South Sudan', 'Spain', 'Sri Lanka',
-    'Sudan', 'Suriname', 'Sweden', 'Switzerland', 'Syria', 'Taiwan', 'Tajikistan',
-    'Tanzania', 'Thailand', 'Timor-Leste', 'Togo', 'Tonga', 'Trinidad and Tobago',
-    'Tunisia', 'Turkey', 'Turkmenistan', 'Tuvalu', 'Uganda', 'Ukraine', 'United Arab Emirates',
-    'United Kingdom', 'United States of America', 'Uruguay', 'Uzbekistan', 'Vanuatu', 'Vatican City',
-    'Venezuela', 'Vietnam', 'Yemen', 'Zambia', 'Zimbabwe'
-  ];
-
-  // 1. DATA LOADING EFFECT (Runs Once)
+  // 1. DATA LOADING EFFECT (Runs once, and again on every retry)
   useEffect(() => {
-    // We load the 50m data here to calculate neighbors
-    d3.json('https://unpkg.com/world-atlas@2.0.2/countries-50m.json').then((data: any) => {
-      setMapData(data); // Store it so we can pass to WorldMap (optional optimization)
+    let cancelled = false;
+    // We load the bundled 50m data here to calculate neighbors
+    loadMapData().then(data => {
+      if (cancelled) return;
+      setMapData(data); // Store it so we can pass to WorldMap
       
       // Calculate Neighbors
-      const adjacency = buildAdjacencyList(data);
+      const adjacency = buildAdjacencyList(data.topology);
       setNeighborMap(adjacency);
-    }).catch(err => console.error("Failed to load map data", err));
-  }, []);
+      setCentroids(buildCentroids(data.topology, [data.tuvalu]));
+      setCountryShapes(buildCountryShapes(data.topology, [data.tuvalu]));
+      setMapStatus('ready');
+    }).catch(err => {
+      if (cancelled) return;
+      console.error("Failed to load map data", err);
+      setMapStatus('error');
+    });
+    return () => { cancelled = true; };
+  }, [loadAttempt]);
 
+  const handleRetryLoad = () => {
+    setMapStatus('loading');
+    setLoadAttempt(prev => prev + 1);
+  };
 
-  // Normalize input: remove spaces and dashes, lowercase
-  const normalizeInput = (str: string): string => {
-    return str.trim().toLowerCase().replace(/[\s-]/g, '');
+  const handleProjectionChange = (id: MapProjectionId) => {
+    setProjection(id);
+    saveProjection(id);
   };
 
-  // Create normalized lookup map
-  const countryAliases: { [key: string]: string } = useMemo(() => {
-    const aliases: { [key: string]: string } = {};
-    
-    allCountries.forEach(country => {
-      // Add normalized version
-      aliases[normalizeInput(country)] = country;
-      
-      // Add common abbreviations (kept your existing list)
-      if (country === 'United States of America') { aliases['usa'] = country; aliases['america'] = country; }
-      if (country === 'United Arab Emirates') { aliases['uae'] = country; aliases['emirates'] = country; }
-      if (country === 'Czech Republic') { aliases['czechia'] = country; }
-      if (country === 'North Macedonia') { aliases['macedonia'] = country; }
-      if (country === 'Saint Kitts and Nevis') { aliases['stkittsandnevis'] = country; }
-      if (country === 'Saint Lucia') { aliases['stlucia'] = country; }
-      if (country === 'Saint Vincent and the Grenadines') { aliases['stvincentandthegrenadines'] = country; }
-      if (country === 'Central African Republic') { aliases['car'] = country; }
-      if (country === 'Republic of the Congo') { aliases['republicofcongo'] = country; aliases['congo'] = country; }
-      if (country === 'Democratic Republic of the Congo') { aliases['drc'] = country; aliases['congkinshasa'] = country; }
-      if (country === 'United Kingdom') { aliases['uk'] = country; aliases['britain'] = country; aliases['greatbritain'] = country; }
-      if (country === 'South Korea') { aliases['korea'] = country; }
-      if (country === 'Ivory Coast') { aliases['cotedivoire'] = country; aliases['ivorycoast'] = country; }
-      if (country === 'Côte d\'Ivoire') { aliases['cotedivoire'] = country; aliases['ivorycoast'] = country; }
-      if (country === 'Vatican City') { aliases['vatican'] = country; aliases['holysee'] = country; }
-    });
-    
-    return aliases;
-  }, []);
+  const handleRendererChange = (next: MapRenderer) => {
+    setRenderer(next);
+    saveRenderer(next);
+  };
 
-  const resolveCountry = (input: string): string | null => {
-    const normalized = normalizeInput(input);
-    return countryAliases[normalized] || null;
+  // The stylesheets pick the theme up through CSS variables
+  useEffect(() => {
+    applyTheme(THEMES[themeId]);
+  }, [themeId]);
+
+  const handleThemeChange = (id: ThemeId) => {
+    setThemeId(id);
+    saveTheme(id);
   };
 
-  // --- UNIFIED INPUT HANDLER ---
-  const handleInputChange = (value: string) => {
-    setInput(value);
-    
-    const resolved = resolveCountry(value);
-    if (!resolved) return;
-
-    if (mode === 'classic') {
-      // CLASSIC LOGIC
-      if (!guessedCountries[resolved]) {
-        setGuessedCountries(prev => ({ ...prev, [resolved]: true }));
-        setGuessedOrder(prev => [...prev, resolved]);
-        setInput('');
-        inputRef.current?.focus();
-      }
-    } else {
-      // NEIGHBORS LOGIC
-      neighborGame.checkGuess(resolved);
-      // We clear input if it's a valid country, regardless if it's the correct neighbor
+  // Memoized so WorldMap's update effect only re-runs when these actually change
+  const capitalMarkers = useMemo(() => (
+    mode === 'capitals'
+      ? guessedOrder.map(country => getCapital(country)).filter((c): c is CapitalRecord => !!c)
+      : []
+  ), [mode, guessedOrder]);
+
+  const resetClassicGame = () => {
+    classicGame.reset();
+    setInput('');
+    setFeedback(null);
+    setCapitalPrompt(null);
+  };
+
+  // Classic/Capitals on the given region and variant
+  const startClassicGame = (random: RandomSource, setup: ClassicSetup) => {
+    resetClassicGame();
+    classicGame.start(setup.countries, setup.goal, setup.timeLimitMs);
+    setCapitalRandom(() => random);
+    if (mode === 'capitals' && capitalsReverse) setCapitalPrompt(pickCapitalPrompt(setup.countries, {}, null, random));
+  };
+
+  // Changing the region starts the classic game over
+  const handleRegionChange = (regions: string[]) => {
+    setRegionFilter(regions);
+    setDaily(null);
+    resetClassicGame();
+  };
+
+  const handleVariantChange = (variant: string) => {
+    if (!isClassicVariant(variant)) return;
+    setClassicVariant(variant);
+    setDaily(null);
+    resetClassicGame();
+  };
+
+  const handleTogglePause = () => {
+    if (paused) classicGame.resume();
+    else classicGame.pause();
+  };
+
+  const handleToggleReverse = () => {
+    const reverse = !capitalsReverse;
+    setCapitalsReverse(reverse);
+    setCapitalPrompt(reverse && gameStarted && !gameEnded ? pickCapitalPrompt(classicCountries, guessedCountries, null, capitalRandom) : null);
+  };
+
+  const handleGiveUp = () => {
+    classicGame.giveUp();
+    setCapitalPrompt(null);
+  };
+
+  // --- MODE WIRING ---
+  const classicModeGame: ClassicModeGame = {
+    mode: classicLoopMode,
+    game: classicGame,
+    countries: classicCountries,
+    target: classicTarget,
+    timeLimitMs,
+    regionFilter: classicSetup.regions,
+    variant: classicSetup.variant,
+    capitalsReverse,
+    capitalPrompt: classicGame.status === 'playing' ? capitalPrompt : null,
+    capitalMarkers,
+    start: random => startClassicGame(random, playerSetup),
+    startDaily: random => startClassicGame(random, DAILY_CLASSIC_SETUP),
+    onCapitalNamed: country => setCapitalPrompt(
+      pickCapitalPrompt(classicCountries, { ...guessedCountries, [country]: true }, null, capitalRandom)
+    ),
+    onRegionChange: handleRegionChange,
+    onVariantChange: handleVariantChange,
+    onTogglePause: handleTogglePause,
+    onGiveUp: handleGiveUp,
+    onSkipPrompt: () => setCapitalPrompt(pickCapitalPrompt(classicCountries, guessedCountries, capitalPrompt, capitalRandom)),
+    onToggleReverse: handleToggleReverse,
+  };
+  const games: ModeGames = {
+    classic: classicModeGame,
+    capitals: classicModeGame,
+    neighbors: neighborGame,
+    locate: locateGame,
+    route: routeGame,
+    chain: chainGame,
+    silhouette: silhouetteGame,
+    mystery: mysteryGame,
+    practice: practiceGame,
+  };
+
+  // --- UNIFIED GUESS HANDLER ---
+  const handleGuess = (value: string, submitted: boolean) => {
+    const outcome = checkGuessFor(mode, games, value, submitted);
+    if (!outcome) return;
+
+    setFeedback(outcome);
+
+    // Keep unrecognised text so it can be fixed. While typing live, also keep duplicates:
+    // "Niger" may just be the start of "Nigeria".
+    if (outcome.result === 'correct' || outcome.result === 'wrong' || (submitted && outcome.result === 'duplicate')) {
       setInput('');
       inputRef.current?.focus();
     }
   };
 
-  const guessCount = Object.values(guessedCountries).filter(Boolean).length;
-  const isGameComplete = guessCount === allCountries.length;
+  const handleModeChange = (newMode: GameModeId) => {
+    // Classic and Capitals share state, so switching between them starts fresh
+    if ((newMode === 'classic' || newMode === 'capitals') && newMode !== classicLoopMode) {
+      resetClassicGame();
+      setClassicLoopMode(newMode);
+    }
+    if (newMode === 'practice') practiceGame.refreshDeck(); // Pick up misses from games just played
+    setMode(newMode);
+    setInput('');
+    setFeedback(null);
+    setShareStatus(null);
+    setDaily(null);
+  };
 
-  // Timer effect - only runs when CLASSIC game started and not complete
-  useEffect(() => {
-    if (mode !== 'classic' || !gameStarted || isGameComplete || revealedCountries.length > 0) return;
-    
-    const interval = setInterval(() => {
-      setSeconds(prev => prev + 1);
-    }, 1000);
-    return () => clearInterval(interval);
-  }, [gameStarted, isGameComplete, revealedCountries.length, mode]);
+  const handleInputChange = (value: string) => {
+    setInput(value);
+    if (inputMode === 'live') handleGuess(value, false);
+  };
 
-  const handleStartGame = () => {
-    setGuessedCountries({});
-    setGuessedOrder([]);
-    setRevealedCountries([]);
+  const handleInputKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter' || !input.trim()) return;
+    if (inputMode === 'enter' || GAME_MODES[mode].enterSubmitsLive) handleGuess(input, true);
+  };
+
+  // Every round starts with a clean input and a new history round
+  const beginRound = () => {
+    setRound(prev => ({ id: prev.id + 1, mode }));
     setInput('');
-    setSeconds(0);
-    setGameStarted(true);
-    setGameEnded(false);
+    setFeedback(null);
+    setShareStatus(null);
+  };
+
+  // Starts a fresh round of the current mode. A seeded random source makes it reproducible.
+  const startRound = (random: RandomSource = Math.random, daily = false) => {
+    beginRound();
+    startRoundFor(mode, games, random, daily);
     inputRef.current?.focus();
   };
 
-  const formatTime = (totalSeconds: number): string => {
-    const minutes = Math.floor(totalSeconds / 60);
-    const secs = totalSeconds % 60;
-    return `${minutes}:${secs.toString().padStart(2, '0')}`;
+  const handleStartGame = () => {
+    setDaily(null);
+    startRound();
   };
 
-  const handleGiveUp = () => {
-    const remaining = allCountries.filter(country => !guessedCountries[country]);
-    setRevealedCountries(remaining);
-    setGuessedOrder(prev => [...prev, ...remaining]);
-    const newGuessed = { ...guessedCountries };
-    remaining.forEach(country => {
-      newGuessed[country] = true;
-    });
-    setGuessedCountries(newGuessed);
-    setGameEnded(true);
+  // Today's puzzle for the current mode, playable once (the attempt is recorded up front)
+  const handleStartDaily = () => {
+    const record: DailyRecord = {
+      dateKey, seed: dailySeed(mode, dateKey), status: 'started', score: null,
+      ...(isClassicLoop && { regions: DAILY_REGIONS, variant: DAILY_VARIANT }),
+    };
+    saveDailyRecord(mode, record);
+    setDaily({ mode, record });
+    startRound(createSeededRandom(record.seed), true);
+  };
+
+  // Replays a shared challenge link in its mode
+  const startChallenge = (config: ChallengeConfig) => {
+    beginRound();
+    startChallengeFor(mode, games, config);
+    inputRef.current?.focus();
+  };
+
+  // The neighbor graph and centroids are only there once the map has loaded
+  const onMapReady = useEffectEvent(() => {
+    if (!bootChallenge) return;
+    startChallenge(bootChallenge);
+    // Drop the query so a reload doesn't restart the challenge
+    window.history.replaceState(null, '', window.location.pathname);
+  });
+  const bootedRef = useRef(false);
+  useEffect(() => {
+    if (mapStatus !== 'ready' || bootedRef.current) return;
+    bootedRef.current = true;
+    onMapReady();
+  }, [mapStatus]);
+
+  const handleNewDay = useCallback(() => setDateKey(toDateKey(new Date())), []);
+
+  // The current game once it has finished (won or given up), or null while it's still going
+  const finishedGame = finishedGameFor(mode, games);
+  const shareSummary = shareSummaryFor(mode, games);
+
+  // Final score of the daily being played, or null while it's still going
+  const dailyScore = daily ? finishedGame?.score ?? null : null;
+  // Today's attempt in this mode. The one being played is only written when it finishes,
+  // so storage is read again once it's left rather than on every render.
+  const todaysDaily = useMemo(
+    () => (daily?.mode === mode ? daily.record : loadDailyRecord(mode, dateKey)),
+    [daily, mode, dateKey]
+  );
+
+  useEffect(() => {
+    roundStartRef.current = Date.now();
+  }, [round.id]);
+
+  // Save each finished game to the history, once per round. A finished game left over
+  // from before a mode switch belongs to an earlier round and isn't saved again.
+  useEffect(() => {
+    if (!finishedGame || finishedGame.mode !== round.mode || recordedRoundRef.current === round.id) return;
+    recordedRoundRef.current = round.id;
+    const durationSeconds = finishedGame.durationSeconds ?? Math.round((Date.now() - roundStartRef.current) / 1000);
+    recordGame({ ...finishedGame, durationSeconds });
+    // A daily's result is written once, when it first finishes
+    if (daily && daily.mode === finishedGame.mode) {
+      saveDailyRecord(daily.mode, { ...daily.record, status: 'finished', score: finishedGame.score });
+    }
+    // Everything missed becomes a Practice card
+    if (finishedGame.revealedCountries.length > 0) {
+      saveDeck(addMissedCountries(loadDeck(), finishedGame.revealedCountries, Date.now()));
+    }
+  });
+
+  const handleShare = async () => {
+    if (!shareSummary) return;
+    const result = await shareText(buildShareText(shareSummary));
+    setShareStatus(result === 'copied' ? 'Copied to clipboard' : result === 'shared' ? 'Shared!' : "Couldn't share");
+  };
+
+  const panelContext: PanelContext = {
+    renderInput: ({ placeholder, disabled }) => (
+      <>
+        <input
+          ref={inputRef}
+          type="text"
+          placeholder={placeholder}
+          aria-label={placeholder}
+          value={input}
+          disabled={disabled}
+          onChange={(e) => handleInputChange(e.target.value)}
+          onKeyDown={handleInputKeyDown}
+          autoFocus
+        />
+        <GuessFeedback feedback={feedback} />
+      </>
+    ),
+    clearInput: () => {
+      setInput('');
+      inputRef.current?.focus();
+    },
+    focusInput: () => inputRef.current?.focus(),
+    submitOnEnter: inputMode === 'enter',
+    onStart: handleStartGame,
+    onFocusCountry: setFocusedCountry,
+    onHoverCountry: setHoveredCountry,
   };
 
   return (
     <div className="App">
       <div className="app-header">
-        <h1>Guess the <span>{mode === 'classic' ? 'Countries' : 'Neighbors'}</span></h1>
-        <button 
-          className="mode-toggle-btn" 
-          onClick={() => { setMode(mode === 'classic' ? 'neighbors' : 'classic'); setInput(''); }}
+        {(() => {
+          const [prefix, highlight] = GAME_MODES[mode].heading;
+          return <h1>{prefix} <span>{highlight}</span></h1>;
+        })()}
+        <div className="mode-picker">
+          {GAME_MODE_LIST.map(option => (
+            <button
+              key={option.id}
+              className={`mode-toggle-btn ${mode === option.id ? 'active' : ''}`}
+              aria-pressed={mode === option.id}
+              onClick={() => handleModeChange(option.id)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <select
+          className="theme-select"
+          aria-label="Theme"
+          value={themeId}
+          onChange={(e) => { if (isThemeId(e.target.value)) handleThemeChange(e.target.value); }}
         >
-          {mode === 'classic' ? 'Neighbors Mode' : 'Classic Mode'}
-        </button>
+          {THEME_IDS.map(id => (
+            <option key={id} value={id}>{THEMES[id].label}</option>
+          ))}
+        </select>
+        <button className="stats-btn" onClick={() => setStatsGames(loadHistory())}>Stats</button>
       </div>
+      {statsGames && (
+        <StatsPanel games={statsGames} onHistoryChange={setStatsGames} onClose={() => setStatsGames(null)} />
+      )}
       
       <div className="main-content">
-        <div className="map-container" onClick={() => inputRef.current?.focus()}>
-          <WorldMap 
-            // Shared Props
-            rawMapData={mapData}
+        <div className={`map-container ${paused && isClassicLoop ? 'paused' : ''}`} onClick={() => inputRef.current?.focus()}>
+          <ModeMap
             mode={mode}
-            focusedCountry={focusedCountry} 
+            games={games}
+            rawMapData={mapData}
+            regionCountries={isClassicLoop && classicSetup.regions.length ? classicCountries : null}
+            focusedCountry={focusedCountry}
             hoveredCountry={hoveredCountry}
-            validCountries={allCountries}
-            
-            // Classic Props
-            guessedCountries={guessedCountries} 
-            revealedCountries={revealedCountries} 
-            
-            // Neighbor Props
-            targetCountry={neighborGame.targetCountry}
-            foundNeighbors={neighborGame.foundNeighbors}
-            isHardMode={neighborGame.isHardMode}
-            gameStatus={neighborGame.gameStatus}
-            revealedByGiveUp={revealedByGiveUp}
+            neighborMap={neighborMap}
+            projection={projection}
+            onProjectionChange={handleProjectionChange}
+            renderer={renderer}
+            onRendererChange={handleRendererChange}
+            theme={THEMES[themeId]}
           />
-        </div>
-        
-        <div className="debug-panel">
-          {mode === 'classic' ? (
-            // --- CLASSIC SIDEBAR ---
-            <>
-              <h3>Guessed ({guessCount}/{allCountries.length})</h3>
-              <p className="timer">Time: {formatTime(seconds)}</p>
-              <div className="countries-list">
-                {guessedOrder.map((country, index) => (
-                  <div 
-                    key={country} 
-                    className="country-item learning-item"
-                    onClick={() => setFocusedCountry(country)}
-                    onMouseEnter={() => setHoveredCountry(country)}
-                    onMouseLeave={() => setHoveredCountry(null)}
-                    style={{
-                      color: revealedCountries.includes(country) ? '#ef4444' : 'inherit',
-                      fontWeight: revealedCountries.includes(country) ? 'bold' : 'normal'
-                    }}
-                  >
-                    {index + 1}. {country}
-                  </div>
-                ))}
-              </div>
-            </>
-          ) : (
-            // --- NEIGHBORS SIDEBAR ---
-            <>
-              <h3>Neighbors Mode</h3>
-              {neighborGame.targetCountry ? (
-                <div className="neighbor-stats">
-                   <div className="target-card">
-                      <span className="label">Target Country:</span>
-                      <h2 className="target-name">
-                        {neighborGame.isHardMode ? "???" : neighborGame.targetCountry}
-                      </h2>
-                   </div>
-
-                   <div className="progress-card">
-                      <span className="label">Progress:</span>
-                      <div className="score-big">
-                        {neighborGame.foundNeighbors.length} 
-                        <span className="total"> / {neighborMap.get(neighborGame.targetCountry)?.length || '?'}</span>
-                      </div>
-                   </div>
-
-                   {neighborGame.gameStatus === 'won' && (
-                     <div className="win-message">
-                       🎉 All Neighbors Found!
-                     </div>
-                   )}
-                </div>
+          <ModeStage mode={mode} games={games} {...panelContext} />
+          {mapStatus !== 'ready' && (
+            <div className="map-status" role="status">
+              {mapStatus === 'loading' ? (
+                <p>Loading map…</p>
               ) : (
-                <p className="empty-state">Start a round to play.</p>
-              )}
-
-              {/* Found Neighbors List */}
-              {neighborGame.foundNeighbors.length > 0 && (
-                <div className="found-section">
-                   <h4>Found Neighbors</h4>
-                   <div className="found-list">
-                     {neighborGame.foundNeighbors.map((c: string) => (
-                       <span key={c} className="found-item">{c}</span>
-                     ))}
-                   </div>
-                </div>
-              )}
-
-              {/* Remaining Neighbors List */}
-              {gaveUpThisRound && neighborGame.targetCountry && neighborGame.gameStatus !== 'won' && (
-                (() => {
-                  const allNeighbors = neighborMap.get(neighborGame.targetCountry) || [];
-                  const unrevealed = allNeighbors.filter(n => !neighborGame.foundNeighbors.includes(n) && !revealedByGiveUp.includes(n));
-                  const allRemaining = [...unrevealed, ...revealedByGiveUp];
-                  return allRemaining.length > 0 ? (
-                    <div className="remaining-section">
-                       <h4>Remaining Neighbors</h4>
-                       <div className="remaining-list">
-                         {unrevealed.map((c: string) => (
-                           <span key={c} className="remaining-item">{c}</span>
-                         ))}
-                         {revealedByGiveUp.map((c: string) => (
-                           <span key={c} className="revealed-item">{c}</span>
-                         ))}
-                       </div>
-                    </div>
-                  ) : null;
-                })()
-              )}
-
-              {/* Incorrect Guesses List */}
-              {neighborGame.missedGuesses.length > 0 && (
-                <div className="missed-section">
-                   <h4>Missed Guesses</h4>
-                   <div className="missed-list">
-                     {neighborGame.missedGuesses.map((c: string) => (
-                       <span key={c} className="missed-item">{c}</span>
-                     ))}
-                   </div>
-                </div>
+                <>
+                  <p>Couldn't load the map data.</p>
+                  <button className="start-btn" onClick={handleRetryLoad}>Retry</button>
+                </>
               )}
-            </>
+            </div>
           )}
-
-          {guessCount === 0 && mode === 'classic' && (
-            <p className="empty-state">Start guessing countries...</p>
+          {paused && isClassicLoop && (
+            <div className="pause-overlay" role="status">
+              <p>Paused</p>
+              <button className="start-btn" onClick={() => { handleTogglePause(); inputRef.current?.focus(); }}>Resume</button>
+            </div>
           )}
         </div>
+        
+        <div className="debug-panel">
+          {(daily || todaysDaily) && (() => {
+            const shownScore = daily ? dailyScore : todaysDaily?.score ?? null;
+            return (
+              <p className="daily-status">
+                {daily ? `Daily ${daily.record.dateKey}` : "Today's daily"} · {
+                  shownScore !== null ? `${shownScore} points` : daily ? 'in progress' : 'unfinished'
+                }
+              </p>
+            );
+          })()}
+          <ModeSidebar mode={mode} games={games} {...panelContext} />
+          <ModeAnnouncer mode={mode} games={games} />
+        </div>
       </div>
 
       <div className="game-controls">
@@ -355,72 +558,36 @@ function App() {
         </div>
 
         <div className="controls-main">
-          {mode === 'classic' ? (
-            // --- CLASSIC CONTROLS ---
-            <>
-              {!gameStarted ? (
-                <button className="start-btn" onClick={handleStartGame}>Start Game</button>
-              ) : gameEnded ? (
-                <button className="start-btn" onClick={handleStartGame}>Start New Game</button>
-              ) : (
-                <>
-                  <input 
-                    ref={inputRef}
-                    type="text" 
-                    placeholder="Enter a country..." 
-                    value={input}
-                    onChange={(e) => handleInputChange(e.target.value)}
-                    autoFocus
-                  />
-                  <button className="give-up-btn" onClick={handleGiveUp}>Give Up</button>
-                </>
-              )}
-              <div className="guess-counter">({guessCount}/{allCountries.length})</div>
-            </>
-          ) : (
-            // --- NEIGHBORS CONTROLS ---
-            <>
-              <button className="start-btn" onClick={() => {
-                 neighborGame.startNewRound();
-                 setRevealedByGiveUp([]);
-                 setGaveUpThisRound(false);
-                 setInput('');
-                 inputRef.current?.focus();
-              }}>
-                {neighborGame.gameStatus === 'idle' ? 'Start Game' : 'Skip / Next'}
-              </button>
+          <ModeControls mode={mode} games={games} {...panelContext} />
 
-              <input 
-                 ref={inputRef}
-                 type="text" 
-                 placeholder="Name a neighbor..." 
-                 value={input}
-                 disabled={neighborGame.gameStatus === 'idle'}
-                 onChange={(e) => handleInputChange(e.target.value)}
-                 autoFocus
-              />
-
-              <button 
-                className={`hard-mode-btn ${neighborGame.isHardMode ? 'active' : ''}`}
-                onClick={neighborGame.toggleHardMode}
+          {GAME_MODES[mode].hasDaily && (
+            <>
+              <button
+                className="daily-btn"
+                disabled={!!todaysDaily || mapStatus !== 'ready'}
+                title={todaysDaily ? "You've played today's daily" : "Today's puzzle, the same for everyone"}
+                onClick={handleStartDaily}
               >
-                Hard Mode
+                Daily
               </button>
-
-              {neighborGame.gameStatus !== 'idle' && (
-                <button className="give-up-btn" onClick={() => {
-                  const allNeighbors = Array.from(neighborMap.get(neighborGame.targetCountry || '') || []);
-                  const unrevealed = allNeighbors.filter(n => !neighborGame.foundNeighbors.includes(n));
-                  setRevealedByGiveUp(unrevealed);
-                  setGaveUpThisRound(true);
-                  setInput('');
-                  inputRef.current?.focus();
-                }}>
-                  Give Up
-                </button>
-              )}
+              {todaysDaily && <DailyCountdown onNewDay={handleNewDay} />}
             </>
           )}
+
+          {shareSummary && (
+            <button className="share-btn" onClick={handleShare}>Share</button>
+          )}
+          {shareSummary && shareStatus && <span className="share-status" role="status">{shareStatus}</span>}
+
+          {GAME_MODES[mode].typedAnswers && (
+            <button
+              className={`input-mode-btn ${inputMode === 'enter' ? 'active' : ''}`}
+              aria-pressed={inputMode === 'enter'}
+              onClick={() => { setInputMode(inputMode === 'live' ? 'enter' : 'live'); setFeedback(null); inputRef.current?.focus(); }}
+            >
+              Submit on Enter
+            </button>
+          )}
         </div>
 
         <div 
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { msUntilNextDaily } from './daily';
+
+const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
+
+// Ticks down to local midnight, then calls onNewDay so the next daily unlocks
+const DailyCountdown = ({ onNewDay }: { onNewDay: () => void }) => {
+  const [remaining, setRemaining] = useState(() => msUntilNextDaily(new Date()));
+
+  useEffect(() => {
+    let previous = msUntilNextDaily(new Date());
+    const interval = setInterval(() => {
+      const ms = msUntilNextDaily(new Date());
+      // Wrapping back to ~24h means midnight has passed
+      if (ms > previous) onNewDay();
+      previous = ms;
+      setRemaining(ms);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [onNewDay]);
+
+  return <span className="daily-countdown">Next daily in {formatCountdown(remaining)}</span>;
+};
+
+export default DailyCountdown;
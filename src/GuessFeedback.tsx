@@ -0,0 +1,22 @@
+import { describeFeedback, type GuessFeedback as Feedback } from './guessFeedback';
+
+const ICONS = {
+  unknown: '?',
+  duplicate: '↺',
+  correct: '✓',
+  wrong: '✗',
+};
+
+// The live region stays mounted so screen readers announce every change
+const GuessFeedback = ({ feedback }: { feedback: Feedback | null }) => (
+  <div className="guess-feedback" role="status" aria-live="polite">
+    {feedback && (
+      <span className={`feedback-${feedback.result}`}>
+        <span aria-hidden="true">{ICONS[feedback.result]} </span>
+        {describeFeedback(feedback)}
+      </span>
+    )}
+  </div>
+);
+
+export default GuessFeedback;
@@ -0,0 +1,140 @@
+import { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { toDisplayName } from './countryRegistry';
+import type { CountryFeature } from './mapHelpers';
+import { geoAnchor } from './labelPlacement';
+import type { MapView } from './mapView';
+import type { Theme } from './themes';
+import { drawFillPatterns } from './mapRender';
+import { MAP_INSETS, type MapInset } from './insets';
+
+const INSET_WIDTH = 180;
+const INSET_HEIGHT = 110;
+const INSET_PADDING = 10;
+const HIT_RADIUS = 9;
+const DOT_RADIUS = 3;
+
+interface InsetMapProps {
+  inset: MapInset;
+  features: CountryFeature[];
+  view: MapView;
+  theme: Theme;
+  onHoverCountry: (country: string | null) => void;
+}
+
+// One inset: its own Mercator fitted to the inset's countries, styled by the current view
+const InsetMap = ({ inset, features, view, theme, onHoverCountry }: InsetMapProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  // Latest click handler, read by the D3 listeners
+  const { onCountryClick } = view;
+  const onCountryClickRef = useRef(onCountryClick);
+  useEffect(() => {
+    onCountryClickRef.current = onCountryClick;
+  }, [onCountryClick]);
+
+  // Draw once per map data
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+    svg.append('defs'); // Fill patterns, drawn per theme
+
+    const members = new Set(inset.countries);
+    const countries = features.filter(f => members.has(toDisplayName(f.properties.name)));
+    if (countries.length === 0) return;
+
+    // Centred on the inset so the Pacific doesn't split at the antimeridian
+    const collection: d3.ExtendedFeatureCollection = { type: 'FeatureCollection', features: countries };
+    const [lon] = d3.geoCentroid(collection);
+    const projection = d3.geoMercator()
+      .rotate([-lon, 0])
+      .fitExtent([[INSET_PADDING, INSET_PADDING], [INSET_WIDTH - INSET_PADDING, INSET_HEIGHT - INSET_PADDING]], collection);
+    const pathGenerator = d3.geoPath(projection);
+
+    // Neighbouring land drawn for orientation only
+    svg.selectAll('path.inset-context')
+      .data(features.filter(f => !members.has(toDisplayName(f.properties.name))))
+      .enter().append('path')
+      .attr('class', 'inset-context')
+      .attr('d', pathGenerator)
+      .attr('pointer-events', 'none');
+
+    svg.selectAll('path.country')
+      .data(countries)
+      .enter().append('path')
+      .attr('class', 'country')
+      .attr('d', pathGenerator)
+      .attr('stroke-width', 0.3);
+
+    const anchors = svg.selectAll<SVGGElement, CountryFeature>('g.inset-anchor')
+      .data(countries)
+      .enter().append('g')
+      .attr('class', 'inset-anchor')
+      .attr('transform', d => `translate(${projection(geoAnchor(d))})`);
+
+    anchors.append('circle')
+      .attr('class', 'country-dot')
+      .attr('r', DOT_RADIUS)
+      .attr('pointer-events', 'none');
+
+    // The islands are still tiny here, so each gets a generous invisible target
+    anchors.append('circle')
+      .attr('class', 'hit-area')
+      .attr('r', HIT_RADIUS)
+      .attr('fill', 'transparent')
+      .on('click', (_event, d) => onCountryClickRef.current?.(toDisplayName(d.properties.name)))
+      .on('mouseenter', (_event, d) => onHoverCountry(toDisplayName(d.properties.name)))
+      .on('mouseleave', () => onHoverCountry(null));
+  }, [inset, features, onHoverCountry]);
+
+  // Colour-synced with the main map
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const { map } = theme;
+    const paint = drawFillPatterns(svg.select<SVGDefsElement>('defs'), map, `inset-${inset.id}`);
+    svg.selectAll('path.inset-context').attr('fill', map.insetContext);
+    svg.selectAll('circle.country-dot').attr('fill', map.dot);
+    svg.selectAll<SVGPathElement, CountryFeature>('path.country').each(function (d) {
+      const style = view.styleCountry(toDisplayName(d.properties.name));
+      d3.select(this)
+        .attr('fill', paint(style))
+        .attr('stroke', map.border)
+        .style('display', style.hidden ? 'none' : '')
+        .classed('locate-flash', !!style.flash);
+    });
+    svg.selectAll<SVGGElement, CountryFeature>('g.inset-anchor').each(function (d) {
+      const style = view.styleCountry(toDisplayName(d.properties.name));
+      const anchor = d3.select(this).style('display', style.hidden ? 'none' : '');
+      anchor.select('circle.country-dot').style('display', style.dot ? '' : 'none');
+      anchor.select('circle.hit-area').style('cursor', view.onCountryClick ? 'pointer' : 'default');
+    });
+  }, [view, theme, inset, features]);
+
+  return (
+    <div className="map-inset">
+      <span className="map-inset-label">{inset.label}</span>
+      <svg ref={svgRef} width={INSET_WIDTH} height={INSET_HEIGHT} />
+    </div>
+  );
+};
+
+interface MapInsetsProps {
+  features: CountryFeature[];
+  view: MapView;
+  theme: Theme;
+  onHoverCountry: (country: string | null) => void;
+}
+
+// Inset boxes for the Lesser Antilles, Pacific islands and European microstates
+const MapInsets = ({ features, view, theme, onHoverCountry }: MapInsetsProps) => {
+  return (
+    <div className="map-insets">
+      {MAP_INSETS.map(inset => (
+        <InsetMap key={inset.id} inset={inset} features={features} view={view} theme={theme} onHoverCountry={onHoverCountry} />
+      ))}
+    </div>
+  );
+};
+
+export default MapInsets;
@@ -0,0 +1,38 @@
+import { CONTINENT_REGIONS, SUBREGION_REGIONS, describeRegions, type RegionOption } from './regions';
+
+interface RegionPickerProps {
+  selected: string[];               // Region ids; empty = whole world
+  onChange: (selected: string[]) => void;
+}
+
+// Drop-down of continent and subregion checkboxes; any combination can be ticked
+const RegionPicker = ({ selected, onChange }: RegionPickerProps) => {
+  const toggle = (id: string) => {
+    onChange(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id]);
+  };
+
+  const renderGroup = (title: string, regions: RegionOption[]) => (
+    <fieldset className="region-group">
+      <legend>{title}</legend>
+      {regions.map(region => (
+        <label key={region.id} className="region-option">
+          <input type="checkbox" checked={selected.includes(region.id)} onChange={() => toggle(region.id)} />
+          {region.label} <span className="region-count">({region.countries.length})</span>
+        </label>
+      ))}
+    </fieldset>
+  );
+
+  return (
+    <details className="region-picker">
+      <summary>Region: {describeRegions(selected)}</summary>
+      <div className="region-menu">
+        <button className="region-reset" disabled={selected.length === 0} onClick={() => onChange([])}>Whole world</button>
+        {renderGroup('Continents', CONTINENT_REGIONS)}
+        {renderGroup('Subregions', SUBREGION_REGIONS)}
+      </div>
+    </details>
+  );
+};
+
+export default RegionPicker;
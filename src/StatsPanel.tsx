@@ -0,0 +1,102 @@
+import { useMemo, useRef, useState, type ChangeEvent } from 'react';
+import { computeStats, exportHistory, importHistory, type GameRecord } from './gameHistory';
+import { formatTime } from './formatting';
+import { GAME_MODE_LIST } from './modes/registry';
+
+interface StatsPanelProps {
+  games: GameRecord[];
+  onHistoryChange: (games: GameRecord[]) => void;
+  onClose: () => void;
+}
+
+const StatsPanel = ({ games, onHistoryChange, onClose }: StatsPanelProps) => {
+  const stats = useMemo(() => computeStats(games), [games]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  const handleExport = () => {
+    const blob = new Blob([exportHistory(games)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'world-map-quiz-history.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    try {
+      const { games: merged, imported, rejected } = importHistory(await file.text());
+      setImportMessage(`Imported ${imported} new games${rejected ? `, skipped ${rejected} invalid` : ''}`);
+      onHistoryChange(merged);
+    } catch (err) {
+      setImportMessage(err instanceof Error ? err.message : 'Import failed');
+    }
+  };
+
+  return (
+    <div className="stats-overlay" onClick={onClose}>
+      <div className="stats-panel" role="dialog" aria-label="Statistics" onClick={e => e.stopPropagation()}>
+        <div className="stats-header">
+          <h2>Statistics</h2>
+          <button className="stats-close" onClick={onClose} aria-label="Close">×</button>
+        </div>
+
+        <div className="stats-grid">
+          <div><span className="stats-value">{stats.gamesPlayed}</span><span className="label">Played</span></div>
+          <div>
+            <span className="stats-value">{stats.bestClassicSeconds !== null ? formatTime(stats.bestClassicSeconds) : '—'}</span>
+            <span className="label">Best Classic</span>
+          </div>
+          <div><span className="stats-value">{stats.currentStreak}</span><span className="label">Win Streak</span></div>
+          <div><span className="stats-value">{stats.bestStreak}</span><span className="label">Best Streak</span></div>
+        </div>
+
+        {Object.keys(stats.totalScoreByMode).length > 0 && (
+          <p className="stats-line">
+            Total score: {GAME_MODE_LIST
+              .filter(({ id }) => stats.totalScoreByMode[id] !== undefined)
+              .map(({ id, label }) => `${label} ${stats.totalScoreByMode[id]}`)
+              .join(' · ')}
+          </p>
+        )}
+
+        <h4>Most Forgotten</h4>
+        {stats.mostForgotten.length > 0 ? (
+          <div className="remaining-list">
+            {stats.mostForgotten.map(({ country, count }) => (
+              <span key={country} className="revealed-item">{country} ×{count}</span>
+            ))}
+          </div>
+        ) : (
+          <p className="empty-state">Nothing given up yet.</p>
+        )}
+
+        <h4>Toughest Neighbor Rounds</h4>
+        {stats.hardestNeighborRounds.length > 0 ? (
+          <div className="countries-list">
+            {stats.hardestNeighborRounds.map(game => (
+              <div key={game.id} className="country-item">
+                {game.target}: {game.wrongGuesses} missed{game.hints ? `, hints: ${game.hints}` : ''}{game.won ? '' : ' (gave up)'}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="empty-state">No missed neighbors yet.</p>
+        )}
+
+        <div className="stats-actions">
+          <button className="share-btn" onClick={handleExport} disabled={games.length === 0}>Export JSON</button>
+          <button className="share-btn" onClick={() => fileInputRef.current?.click()}>Import JSON</button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" hidden onChange={handleImport} />
+          {importMessage && <span className="share-status" role="status">{importMessage}</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsPanel;
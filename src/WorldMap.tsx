@@ -1,326 +1,457 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
 import * as topojson from 'topojson-client';
-import type { FeatureCollection, GeometryObject } from 'geojson';
+import type { FeatureCollection, Geometry } from 'geojson';
+import type { MapDataBundle } from './mapData';
+import { toDisplayName, type CapitalRecord } from './countryRegistry';
+import type { CountryFeature } from './mapHelpers';
+import { createLabelLayout, geoAnchor, type LabelLayout } from './labelPlacement';
+import { MAP_PROJECTIONS, PROJECTION_LABELS, isGlobe, isMapProjection, isPointVisible, type MapProjectionId } from './projections';
+import type { MapView, CountryStyle, LineKind } from './mapView';
+import type { Theme } from './themes';
+import {
+  HIT_RADIUS, OUT_OF_REGION_OPACITY, SMALL_COUNTRY_AREA, TERRITORIES,
+  drawFillPatterns, fitProjection, focusScale, moveTo, turnTween, type MapData, type MapRenderer,
+} from './mapRender';
+import { createCanvasMap, type CanvasMap } from './canvasMap';
+import MapInsets from './MapInsets';
 import './WorldMap.css';
 
-interface MapData {
-  countries: FeatureCollection<GeometryObject, { name: string }>;
-  land: FeatureCollection<GeometryObject, any>;
-}
-
 // 1. UPDATE INTERFACE
-interface WorldMapProps {
-  // Shared
-  rawMapData?: any; // New prop from App
-  mode: 'classic' | 'neighbors'; // New prop
-  validCountries: string[];
+export interface WorldMapProps {
+  rawMapData?: MapDataBundle | null; // Loaded once by App via loadMapData()
+  view: MapView;                      // What the current game mode wants shown
+  regionCountries?: string[] | null;  // Frame the map on these; everything else is dimmed (null = world)
   focusedCountry: string | null; 
   hoveredCountry: string | null; 
-  
-  // Classic Mode Props
-  guessedCountries?: { [countryName: string]: boolean };
-  revealedCountries?: string[];
-  
-  // Neighbors Mode Props
-  targetCountry?: string | null;
-  foundNeighbors?: string[];
-  isHardMode?: boolean;
-  gameStatus?: string;
-  revealedByGiveUp?: string[];
+  neighborMap?: Map<string, string[]>; // Arrow keys move between neighbouring countries
+  projection: MapProjectionId;
+  onProjectionChange: (projection: MapProjectionId) => void;
+  renderer: MapRenderer;
+  onRendererChange: (renderer: MapRenderer) => void;
+  theme: Theme;
 }
 
-const TERRITORIES = new Set(['Greenland', 'Antarctica', 'French Guiana', 'Puerto Rico', 'Guam', 'Réunion', 'Martinique', 'Guadeloupe', 'Aruba', 'Curaçao', 'Saint Martin', 'Sint Maarten']);
-
-const TERRITORY_NAME_MAP: { [key: string]: string } = {
-  'St. Martin': 'Saint Martin',
-  'Sint Maarten': 'Sint Maarten',
-  'Czechia': 'Czech Republic',
-  'Bosnia and Herz.': 'Bosnia and Herzegovina',
-  'North Macedonia': 'North Macedonia',
-  'Macedonia': 'North Macedonia',
-  'Solomon Is.': 'Solomon Islands',
-  'Marshall Is.': 'Marshall Islands',
-  'Kiribati': 'Kiribati',
-  'Tuvalu': 'Tuvalu',
-  'Dominican Rep.': 'Dominican Republic',
-  'Antigua and Barb.': 'Antigua and Barbuda',
-  'St. Kitts and Nevis': 'Saint Kitts and Nevis',
-  'St. Vin. and Gren.': 'Saint Vincent and the Grenadines',
-  'St Vincent and Grenadines': 'Saint Vincent and the Grenadines',
-  'St Vincent and the Grenadines': 'Saint Vincent and the Grenadines',
-  'W. Sahara': 'Western Sahara',
-  'Côte d\'Ivoire': 'Côte d\'Ivoire',
-  'Ivory Coast': 'Côte d\'Ivoire',
-  'C.A.R.': 'Central African Republic',
-  'Central African Rep.': 'Central African Republic',
-  'S. Sudan': 'South Sudan',
-  'Dem. Rep. Congo': 'Democratic Republic of the Congo',
-  'Congo': 'Republic of the Congo',
-  'Eq. Guin.': 'Equatorial Guinea',
-  'Eq. Guinea': 'Equatorial Guinea',
-  'Vatican': 'Vatican City',
-  'São Tomé and Principe': 'Sao Tome and Principe',
-  'São Tomé and Príncipe': 'Sao Tome and Principe',
-  'Eswatini': 'Eswatini',
-  'eSwatini': 'Eswatini',
-  'Fr. Guiana': 'French Guiana',
-  'Réunion': 'Réunion',
-  'Martinique': 'Martinique',
-  'Guadeloupe': 'Guadeloupe',
+type Layer = d3.Selection<SVGGElement, unknown, null, undefined>;
+// Drawn by the same path generator as the countries, so they follow the globe as it turns
+type LineDatum = GeoJSON.LineString & { kind: LineKind };
+
+// Positions labels for zoom `k` and draws leader lines to the ones called out
+const placeLabels = (gFixed: Layer, labelLayout: LabelLayout, k: number) => {
+  const labels = gFixed.selectAll<SVGTextElement, CountryFeature>('text.country-label');
+  const placements = labelLayout.layout(labels.data(), k);
+  const placementOf = (d: CountryFeature) => placements.get(d.properties.name)!;
+
+  labels.each(function (d) {
+    const { point } = labelLayout.siteOf(d);
+    const { dx, dy, hidden } = placementOf(d);
+    d3.select(this)
+      .attr('x', (point?.[0] ?? 0) + dx / k)
+      .attr('y', (point?.[1] ?? 0) + dy / k)
+      .style('display', point && !hidden ? '' : 'none');
+  });
+
+  const leaders = gFixed.select('g.label-leaders').selectAll<SVGLineElement, CountryFeature>('line')
+    .data(labels.data().filter(d => placementOf(d).leader && labelLayout.siteOf(d).point), d => d.properties.name);
+
+  leaders.exit().remove();
+  leaders.enter().append('line') // Coloured by their group
+    .attr('stroke-opacity', 0.7)
+    .attr('pointer-events', 'none')
+    .merge(leaders)
+    .attr('stroke-width', 1 / k)
+    .attr('x1', d => labelLayout.siteOf(d).point![0])
+    .attr('y1', d => labelLayout.siteOf(d).point![1])
+    .attr('x2', d => labelLayout.siteOf(d).point![0] + placementOf(d).dx / k)
+    .attr('y2', d => labelLayout.siteOf(d).point![1] + placementOf(d).dy / k);
+};
+
+// Resizes dots, targets, markers and labels to stay the same on screen at zoom `k`
+const rescaleOverlay = (gFixed: Layer, labelLayout: LabelLayout, k: number) => {
+  gFixed.selectAll('circle.country-dot').attr('r', 4 / k);
+  gFixed.selectAll('circle.hit-area').attr('r', HIT_RADIUS / k);
+  gFixed.selectAll('circle.capital-marker')
+    .attr('r', 3 / k)
+    .attr('stroke-width', 1 / k);
+  // Labels inherit these from their group
+  gFixed.select('g.country-labels')
+    .attr('font-size', `${0.7 / k}rem`)
+    .attr('stroke-width', `${0.25 / k}rem`);
+  placeLabels(gFixed, labelLayout, k);
+};
+
+// What a country currently looks like on the SVG map; only countries whose key changes are restyled
+const styleKey = (style: CountryStyle, dimmed: boolean, clickable: boolean) => [
+  style.fill, style.proximity, style.hidden, style.flash, style.dot, style.label, dimmed, clickable,
+].join('|');
+
+// --- Keyboard ---
+
+// What a screen reader says for a country: only names the map is showing, so it can't give answers away
+const describeCountry = (country: string, style: CountryStyle) => {
+  return `${style.label ? country : 'Unnamed country'}${style.dot ? ', still to find' : ''}`;
+};
+
+const ARROW_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+};
+const PAN_STEP = 80;          // Screen px per Shift+arrow on a flat map
+const GLOBE_PAN_STEP = 15;    // Degrees per Shift+arrow on the globe
+
+// The candidate nearest `from` in screen direction `direction` (within 60° of it), or null
+const countryInDirection = (
+  from: [number, number],
+  direction: [number, number],
+  candidates: { country: string; point: [number, number] }[],
+): string | null => {
+  let best: string | null = null;
+  let bestScore = Infinity;
+  candidates.forEach(({ country, point }) => {
+    const dx = point[0] - from[0];
+    const dy = point[1] - from[1];
+    const distance = Math.hypot(dx, dy);
+    if (distance === 0) return;
+    const alignment = (dx * direction[0] + dy * direction[1]) / distance;
+    if (alignment < 0.5) return;
+    // Straight ahead beats slightly closer but off to the side
+    const score = distance / alignment;
+    if (score < bestScore) {
+      bestScore = score;
+      best = country;
+    }
+  });
+  return best;
 };
 
-const POSITION_ADJUSTMENTS: { [key: string]: [number, number] } = {
-  'France': [15, -15],
-  'United Kingdom': [5, 0],
-  'Norway': [-25, 25],
-  'Sweden': [-7, 5],
-  'Croatia': [-3, 3],
-  'Greece': [-4, -3],
-  'Israel': [-1, 1],
-  'Japan': [5, 3],
-  'Chile': [-3, -3],
-  'Cuba': [5, 0],
-  'Haiti': [2, -2],
-  'Dominican Republic': [0, 2],
-  'Guyana': [0, -5],
-  'Kiribati': [-533, -5],
-  'Fiji': [67, 0],
+// Moves dots, labels, click targets and capital markers to where the projection puts them,
+// hiding the ones on the far side of the globe
+const placeOverlay = (gFixed: Layer, projection: d3.GeoProjection, labelLayout: LabelLayout, k: number) => {
+  const place = <Datum,>(selector: string, pointOf: (d: Datum) => [number, number]) => {
+    gFixed.selectAll<SVGElement, Datum>(selector).each(function (d) {
+      const point = pointOf(d);
+      const position = isPointVisible(projection, point) ? projection(point) : null;
+      d3.select(this)
+        .attr('cx', position?.[0] ?? 0)
+        .attr('cy', position?.[1] ?? 0)
+        .style('display', position ? '' : 'none');
+    });
+  };
+  place<CountryFeature>('circle.country-dot, circle.hit-area', geoAnchor);
+  place<CapitalRecord>('circle.capital-marker', d => d.coordinates);
+  placeLabels(gFixed, labelLayout, k);
 };
 
 const WorldMap: React.FC<WorldMapProps> = ({ 
   rawMapData,
-  mode,
-  guessedCountries = {}, 
-  validCountries, 
-  revealedCountries = [],
+  view,
+  regionCountries = null,
   focusedCountry,
   hoveredCountry,
-  // Neighbors props
-  targetCountry,
-  foundNeighbors = [],
-  isHardMode = false,
-  gameStatus,
-  revealedByGiveUp = []
+  neighborMap,
+  projection: projectionId,
+  onProjectionChange,
+  renderer,
+  onRendererChange,
+  theme,
 }) => {
 
   const svgRef = useRef<SVGSVGElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
   const [mapData, setMapData] = useState<MapData | null>(null);
-  const [dimensions, setDimensions] = useState({ width: window.innerWidth, height: window.innerHeight });
+  const [canvasSize, setCanvasSize] = useState(''); // The canvas is refitted when it resizes
+  const [showInsets, setShowInsets] = useState(false);
+  const [pointerHover, setPointerHover] = useState<string | null>(null); // Over a hit target or inset
+  const [keyboardCountry, setKeyboardCountry] = useState<string | null>(null); // Last country reached by keyboard
+  const [mapFocused, setMapFocused] = useState(false);
+  const keyboardHelpId = useId();
+  const regionSet = useMemo(() => (regionCountries ? new Set(regionCountries) : null), [regionCountries]);
+  // Countries too small to hit easily, which get enlarged targets (measured once per map)
+  const smallCountries = useMemo(
+    () => (mapData ? (mapData.countries.features as CountryFeature[]).filter(f => d3.geoArea(f) < SMALL_COUNTRY_AREA) : []),
+    [mapData]
+  );
 
   const countryPathsRef = useRef<Map<string, SVGPathElement>>(new Map());
+  const appliedStylesRef = useRef<Map<string, string>>(new Map()); // styleKey() last applied per country
   const gRef = useRef<d3.Selection<SVGGElement, unknown, null, undefined> | null>(null);
   const gFixedRef = useRef<d3.Selection<SVGGElement, unknown, null, undefined> | null>(null);
-  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  const canvasMapRef = useRef<CanvasMap | null>(null);
+  const zoomRef = useRef<d3.ZoomBehavior<Element, unknown> | null>(null);
   const projectionRef = useRef<d3.GeoProjection | null>(null);
+  const viewSizeRef = useRef({ width: 0, height: 0 }); // Surface size the projection was fitted to
   const currentScaleRef = useRef<number>(0.8);
-  const pathGeneratorRef = useRef<d3.GeoPath | null>(null);
-
-  // Hardcoded Tuvalu (10m geometry) - KEPT AS IS
-  const TUVALU_10M_GEOMETRY = {
-    type: "Feature",
-    id: "798",
-    properties: { name: "Tuvalu" },
-    geometry: {
-      type: "MultiPolygon",
-      coordinates: [
-        [[[179.189991899919, -8.541955355356691], [179.20079200792009, -8.5301353144675], [179.20439204392045, -8.518315273578324], [179.20079200792009, -8.50987238722891], [179.19719197191972, -8.498052346339733], [179.19719197191972, -8.481166573640905], [179.20079200792009, -8.460903646402315], [179.2079920799208, -8.47441226456138], [179.2079920799208, -8.498052346339733], [179.21519215192154, -8.511560964498798], [179.2187921879219, -8.520003850848212], [179.2079920799208, -8.5301353144675], [179.189991899919, -8.541955355356691]]],
-        [[[178.379983799838, -8.070842297059414], [178.37278372783732, -8.069153719789526], [178.37638376383762, -8.055645101630475], [178.38358383583835, -8.038759328931647], [178.39078390783908, -8.026939288042456], [178.379983799838, -8.070842297059414]]],
-        [[[177.15237152371526, -7.19784784853006], [177.15237152371526, -7.194470693990297], [177.1487714877149, -7.19109353945052], [177.1487714877149, -7.1877163849107575], [177.15237152371526, -7.194470693990297], [177.15237152371526, -7.199536425799934], [177.15237152371526, -7.19784784853006]]],
-        [[[176.31356313563134, -6.3029018954922265], [176.32076320763207, -6.289393277333161], [176.32436324363243, -6.289393277333161], [176.32076320763207, -6.2944590091428125], [176.31356313563134, -6.3029018954922265]]],
-        [[[177.34317343173433, -6.120535550344897], [177.33957339573396, -6.113781241265372], [177.33957339573396, -6.110404086725595], [177.3359733597336, -6.10871550945572], [177.35037350373506, -6.110404086725595], [177.35757357573578, -6.113781241265372], [177.35757357573578, -6.118846973075009], [177.34317343173433, -6.120535550344897]]],
-        [[[176.13356133561336, -5.693325501064578], [176.12636126361264, -5.679816882905513], [176.129961299613, -5.678128305635624], [176.1407614076141, -5.686571191985038], [176.14796147961482, -5.706834119223629], [176.13356133561336, -5.693325501064578]]],
-        [[[179.90639906399065, -9.399752608457092], [179.90639906399065, -9.418326958425808], [179.90639906399065, -9.420015535695683], [179.90279902799028, -9.399752608457092], [179.89919899198992, -9.386243990298041], [179.90279902799028, -9.387932567567915], [179.90639906399065, -9.399752608457092]]],
-        [[[179.8667986679867, -9.344029558550972], [179.87399873998743, -9.347406713090734], [179.8775987759878, -9.3609153312498], [179.8775987759878, -9.362603908519674], [179.87039870398706, -9.350783867630497], [179.8667986679867, -9.344029558550972]]],
-        [[[178.68238682386823, -7.491660293489645], [178.66798667986683, -7.46295447990164], [178.66438664386646, -7.454511593552226], [178.68958689586896, -7.474774520790817], [178.69318693186932, -7.483217407140231], [178.69318693186932, -7.493348870759533], [178.69318693186932, -7.498414602569184], [178.68238682386823, -7.491660293489645]]]
-      ]
-    }
-  } as any;
+  // Where the reset button returns to: zoomed out a little for the world, 1:1 for a fitted region
+  const homeTransformRef = useRef<d3.ZoomTransform>(d3.zoomIdentity.scale(0.8));
+  const homeRotationRef = useRef<[number, number]>([0, 0]); // The globe's starting rotation
+  const labelLayoutRef = useRef<LabelLayout | null>(null);
+  const paintRef = useRef<(style: CountryStyle) => string>(style => theme.map.fills[style.fill]); // Colour or pattern of each fill
+  // Latest click handler, read by the D3 listeners so the paths don't need rebinding
+  const { onCountryClick } = view;
+  const onCountryClickRef = useRef(onCountryClick);
+  useEffect(() => {
+    onCountryClickRef.current = onCountryClick;
+  }, [onCountryClick]);
+
+  const surface = () => (renderer === 'canvas' ? canvasRef.current : svgRef.current);
 
   // 1. Data Processing (Updated to use rawMapData from prop)
   useEffect(() => {
     if (rawMapData) {
-      const countries50m = topojson.feature(rawMapData, rawMapData.objects.countries) as any;
-      const land = topojson.feature(rawMapData, rawMapData.objects.land) as any;
+      const { topology, tuvalu } = rawMapData;
+      const countries50m = topojson.feature(topology, topology.objects.countries) as FeatureCollection<Geometry, { name: string }>;
+      const land = topojson.feature(topology, topology.objects.land) as FeatureCollection<Geometry, { name?: string }>;
       
-      const filteredFeatures = countries50m.features.filter((f: any) => f.id !== 798 && f.id !== "798");
-      filteredFeatures.push(TUVALU_10M_GEOMETRY);
-      countries50m.features = filteredFeatures;
+      const filteredFeatures = countries50m.features.filter(f => f.id !== 798 && f.id !== "798");
+      filteredFeatures.push(tuvalu);
       
-      setMapData({ countries: countries50m, land });
+      setMapData({ countries: { ...countries50m, features: filteredFeatures }, land });
     }
   }, [rawMapData]);
 
-  // 2. Handle Window Resize (Kept Same)
+  // 2. Canvas resizes. The SVG scales itself through its viewBox, so it's never rebuilt for a resize.
   useEffect(() => {
-    const handleResize = () => {
-      setDimensions({ width: window.innerWidth, height: window.innerHeight });
-    };
-    window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
-  }, []);
-
-  // 3. MAIN RENDER (Kept Same)
+    const canvas = canvasRef.current;
+    if (renderer !== 'canvas' || !canvas) return;
+    const observer = new ResizeObserver(() => setCanvasSize(`${canvas.clientWidth}x${canvas.clientHeight}`));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [renderer]);
+
+  // 3. MAIN RENDER - projects the geometry once per projection, region and renderer
   useEffect(() => {
-    if (!mapData || !svgRef.current) return;
-    const { width, height } = dimensions;
-    const svg = d3.select(svgRef.current);
-    svg.attr('width', width).attr('height', height);
-    svg.selectAll('*').remove();
-    countryPathsRef.current.clear();
-
-    const projection = d3.geoEquirectangular().fitSize([width, height], mapData.countries);
+    const svgElement = svgRef.current;
+    const canvasElement = canvasRef.current;
+    const element = renderer === 'canvas' ? canvasElement : svgElement;
+    if (!mapData || !element) return;
+    const globe = isGlobe(projectionId);
+    const features = mapData.countries.features as CountryFeature[];
+
+    const { clientWidth: width, clientHeight: height } = element;
+    const { projection, regionFitted } = fitProjection(projectionId, features, regionSet, width, height);
     projectionRef.current = projection;
-    
-    const pathGenerator = d3.geoPath().projection(projection);
-    pathGeneratorRef.current = pathGenerator;
-    
-    const g = svg.append('g');
-    gRef.current = g;
-    const gFixed = svg.append('g').attr('class', 'fixed-size-layer');
-    gFixedRef.current = gFixed;
-
-    const zoom = d3.zoom<SVGSVGElement, unknown>()
-      .scaleExtent([0.7, 4000])
+    viewSizeRef.current = { width, height };
+    const [lambda, phi] = projection.rotate();
+    homeRotationRef.current = [lambda, phi];
+    homeTransformRef.current = regionFitted || globe ? d3.zoomIdentity : d3.zoomIdentity.scale(0.8);
+    appliedStylesRef.current.clear();
+    // The globe zooms by growing the projection, so it never transforms the layers
+    const baseScale = projection.scale();
+
+    const selection = d3.select<Element, unknown>(element);
+    selection.on('.drag', null); // Only the globe is dragged round
+    let zoomed: (transform: d3.ZoomTransform) => void;
+    let reproject: () => void;
+    let cleanup = () => {};
+
+    if (canvasElement && renderer === 'canvas') {
+      const canvasMap = createCanvasMap(canvasElement, mapData, projection, globe);
+      canvasMapRef.current = canvasMap;
+      zoomed = transform => canvasMap.setTransform(transform);
+      reproject = canvasMap.reproject;
+
+      // The canvas hit-tests the pointer itself
+      let hovered: string | null = null;
+      const countryAt = (event: MouseEvent) => canvasMap.countryAt(...d3.pointer(event, canvasElement));
+      countryPathsRef.current.clear();
+      selection
+        .on('click.hit', (event: MouseEvent) => {
+          const country = countryAt(event);
+          if (country) onCountryClickRef.current?.(country);
+        })
+        .on('mousemove.hit', (event: MouseEvent) => {
+          const country = countryAt(event);
+          canvasElement.style.cursor = country && onCountryClickRef.current ? 'pointer' : '';
+          if (country !== hovered) setPointerHover(hovered = country);
+        })
+        .on('mouseleave.hit', () => setPointerHover(hovered = null));
+      cleanup = () => {
+        canvasMap.destroy();
+        selection.on('.hit', null);
+        canvasMapRef.current = null;
+      };
+    } else {
+      const svg = d3.select(element as SVGSVGElement);
+      svg.attr('viewBox', `0 0 ${width} ${height}`);
+      svg.selectAll('*').remove();
+      countryPathsRef.current.clear();
+      const pathGenerator = d3.geoPath().projection(projection);
+      svg.append('defs'); // Fill patterns, drawn per theme
+
+      const g = svg.append('g');
+      gRef.current = g;
+      const gFixed = svg.append('g').attr('class', 'fixed-size-layer');
+      gFixedRef.current = gFixed;
+      gFixed.append('g').attr('class', 'label-leaders');
+      // Sized for zoom 1; flat maps resize them as they zoom
+      gFixed.append('g').attr('class', 'country-labels').attr('font-size', '0.7rem').attr('stroke-width', '0.25rem');
+
+      // Labels are laid out once per projection (per zoom step)
+      const newLabelLayout = () => createLabelLayout(projection, point => isPointVisible(projection, point));
+      labelLayoutRef.current = newLabelLayout();
+
+      zoomed = transform => {
+        g.attr('transform', transform.toString());
+        gFixed.attr('transform', transform.toString());
+        // Panning doesn't change the scale, so most zoom events stop here
+        if (transform.k === currentScaleRef.current || !labelLayoutRef.current) return;
+        currentScaleRef.current = transform.k;
+        rescaleOverlay(gFixed, labelLayoutRef.current, transform.k);
+        // Patterns keep their screen size
+        svg.selectAll('pattern').attr('patternTransform', `scale(${1 / transform.k})`);
+      };
+      // Redraws everything from the projection after the globe turns or zooms
+      reproject = () => {
+        labelLayoutRef.current = newLabelLayout();
+        g.selectAll<SVGPathElement, d3.GeoPermissibleObjects>('path').attr('d', d => pathGenerator(d));
+        placeOverlay(gFixed, projection, labelLayoutRef.current, 1);
+      };
+
+      g.append('path').datum<d3.GeoPermissibleObjects>({ type: 'Sphere' }).attr('class', 'sphere').attr('d', pathGenerator).attr('stroke', 'none');
+      g.append('path').datum<d3.GeoPermissibleObjects>(d3.geoGraticule()()).attr('class', 'graticule').attr('d', pathGenerator).attr('vector-effect', 'non-scaling-stroke').attr('fill', 'none').attr('stroke-width', 0.5).attr('stroke-opacity', 0.7);
+
+      g.selectAll('path.country')
+        .data(mapData.countries.features)
+        .enter().append('path')
+        .attr('class', 'country')
+        .attr('d', pathGenerator)
+        .attr('vector-effect', 'non-scaling-stroke')
+        .attr('stroke-width', 0.15)
+        .attr('tabindex', -1)
+        .style('cursor', 'pointer')
+        .on('click', (_event, d) => onCountryClickRef.current?.(toDisplayName(d.properties.name)))
+        .each(function (d) {
+          countryPathsRef.current.set(d.properties.name, this);
+        });
+
+      g.selectAll('path.territory')
+        .data(mapData.land.features.filter(f => TERRITORIES.has(f.properties?.name ?? '')))
+        .enter().append('path')
+        .attr('class', 'territory')
+        .attr('d', pathGenerator)
+        .attr('stroke-width', 0.5)
+        .attr('vector-effect', 'non-scaling-stroke');
+
+      g.append('g').attr('class', 'map-lines').attr('pointer-events', 'none');
+    }
+
+    const zoom = d3.zoom<Element, unknown>()
+      .scaleExtent([0.7, globe ? 200 : 4000])
       .on('zoom', (event) => {
-        g.attr('transform', event.transform);
-        gFixed.attr('transform', event.transform);
-        const scale = event.transform.k;
-        currentScaleRef.current = scale;
-        gFixed.selectAll('circle.country-dot').attr('r', 4 / scale);
-        gFixed.selectAll('text.country-label')
-          .attr('font-size', `${0.7 / scale}rem`)
-          .attr('stroke-width', `${0.25 / scale}rem`);
+        if (globe) {
+          projection.scale(baseScale * event.transform.k);
+          reproject();
+        } else {
+          zoomed(event.transform);
+        }
       });
 
     zoomRef.current = zoom;
-    svg.call(zoom);
-    svg.call(zoom.transform, d3.zoomIdentity.scale(0.8));
-
-    g.append('path').datum({ type: 'Sphere' }).attr('d', pathGenerator as any).attr('fill', '#202022').attr('stroke', 'none');
-    g.append('path').datum(d3.geoGraticule()).attr('d', pathGenerator as any).attr('vector-effect', 'non-scaling-stroke').attr('fill', 'none').attr('stroke', '#3f3f46').attr('stroke-width', 0.5).attr('stroke-opacity', 0.7);
-
-    g.selectAll('path.country')
-      .data(mapData.countries.features)
-      .enter().append('path')
-      .attr('class', 'country')
-      .attr('d', pathGenerator as any)
-      .attr('vector-effect', 'non-scaling-stroke')
-      .attr('fill', '#d3d3d3')
-      .attr('stroke', 'black')
-      .attr('stroke-width', 0.15)
-      .style('cursor', 'pointer')
-      .each(function (d: any) {
-        countryPathsRef.current.set(d.properties.name, this);
-      });
-
-    g.selectAll('path.territory')
-      .data(mapData.land.features.filter((f: any) => TERRITORIES.has(f.properties?.name)))
-      .enter().append('path')
-      .attr('d', pathGenerator as any)
-      .attr('fill', '#808080')
-      .attr('stroke', 'black')
-      .attr('stroke-width', 0.5)
-      .attr('vector-effect', 'non-scaling-stroke');
+    currentScaleRef.current = globe ? 1 : 0;
+    if (globe) {
+      // Wheel and pinch zoom; a drag turns the globe instead of panning
+      zoom.filter(event => event.type === 'wheel' || event.type === 'dblclick' || event.touches?.length > 1);
+      selection.call(d3.drag<Element, unknown>().on('drag', (event) => {
+        const [lambda, phi] = projection.rotate();
+        const degreesPerPx = 180 / (Math.PI * projection.scale());
+        projection.rotate([lambda + event.dx * degreesPerPx, Math.max(-90, Math.min(90, phi - event.dy * degreesPerPx))]);
+        reproject();
+      }));
+    }
+    selection.call(zoom);
+    selection.call(zoom.transform, homeTransformRef.current);
 
-  }, [mapData, dimensions]);
+    return cleanup;
+  }, [mapData, regionSet, projectionId, renderer, canvasSize]);
 
 
-  // 4. GAME UPDATES - UPDATED FOR DUAL MODES
+  // 3b. THEME - recolours what's drawn (and whatever the main render just rebuilt)
+  useEffect(() => {
+    if (renderer === 'canvas') {
+      canvasMapRef.current?.setTheme(theme);
+      return;
+    }
+    const svgElement = svgRef.current;
+    if (!svgElement || !gRef.current || !gFixedRef.current) return;
+    const { map } = theme;
+    const svg = d3.select(svgElement);
+    paintRef.current = drawFillPatterns(svg.select<SVGDefsElement>('defs'), map, 'world-map');
+    svg.selectAll('pattern').attr('patternTransform', `scale(${1 / (currentScaleRef.current || 1)})`);
+    appliedStylesRef.current.clear(); // Every country gets the new fills in the game update below
+
+    const g = gRef.current;
+    g.select('path.sphere').attr('fill', map.ocean);
+    g.select('path.graticule').attr('stroke', map.graticule);
+    g.selectAll('path.country').attr('stroke', map.border);
+    g.selectAll('path.territory').attr('fill', map.fills.notInQuiz).attr('stroke', map.border);
+    g.selectAll<SVGPathElement, LineDatum>('path.map-line').attr('stroke', d => map.lines[d.kind]);
+    const gFixed = gFixedRef.current;
+    gFixed.select('g.label-leaders').attr('stroke', map.leader);
+    gFixed.selectAll('circle.country-dot').attr('fill', map.dot);
+    gFixed.selectAll('circle.capital-marker').attr('fill', map.capital).attr('stroke', map.capitalStroke);
+  }, [theme, mapData, regionSet, projectionId, renderer, canvasSize]);
+
+  // 4. GAME UPDATES - whatever the mode's view asks for. Only countries whose look changed are touched.
   useEffect(() => {
-    if (!mapData || !gRef.current || !gFixedRef.current || !pathGeneratorRef.current) return;
-    const pathGenerator = pathGeneratorRef.current;
+    if (renderer === 'canvas') {
+      canvasMapRef.current?.update(view, regionSet);
+      return;
+    }
+    if (!mapData || !gRef.current || !gFixedRef.current || !projectionRef.current || !labelLayoutRef.current) return;
+    const gFixed = gFixedRef.current;
+    const k = currentScaleRef.current;
+
+    // Each country is styled once per update
+    const styles = new Map<string, CountryStyle>();
+    const styleOf = (d: CountryFeature): CountryStyle => {
+      const name = toDisplayName(d.properties.name);
+      let style = styles.get(name);
+      if (!style) {
+        style = view.styleCountry(name);
+        styles.set(name, style);
+      }
+      return style;
+    };
+    const features = mapData.countries.features as CountryFeature[];
 
     // A. Update Colors and Display
-    countryPathsRef.current.forEach((path, countryName) => {
-      const mappedName = TERRITORY_NAME_MAP[countryName] || countryName;
-      let fillColor = '#d3d3d3';
-      let display = 'block';
-      
-      if (mode === 'classic') {
-        if (!validCountries.includes(mappedName)) {
-          fillColor = '#808080';
-        } else if (revealedCountries.includes(mappedName)) {
-          fillColor = '#ef4444';
-        } else if (guessedCountries[mappedName]) {
-          fillColor = '#34D399';
-        }
-      } else {
-        // NEIGHBORS MODE COLORS AND VISIBILITY
-        const isTarget = mappedName === targetCountry;
-        const isNeighbor = foundNeighbors.includes(mappedName);
-        const isRevealed = revealedByGiveUp.includes(mappedName);
-        
-        // Hide all countries except target and neighbors
-        if (!isTarget && !isNeighbor && !isRevealed) {
-          display = 'none';
-        }
-        
-        if (isTarget) {
-          fillColor = '#FBBF24'; // Gold/Yellow
-        } else if (isNeighbor) {
-          fillColor = '#34D399'; // Green
-        } else if (isRevealed) {
-          fillColor = '#ef4444'; // Red for revealed by give up
-        } else {
-          fillColor = '#d3d3d3'; // Default Grey (hidden anyway)
-        }
-      }
-      
-      d3.select(path).attr('fill', fillColor).style('display', display);
+    const changed = new Set<string>();
+    countryPathsRef.current.forEach((path, name) => {
+      const feature = d3.select<SVGPathElement, CountryFeature>(path).datum();
+      const style = styleOf(feature);
+      const dimmed = !!regionSet && !regionSet.has(toDisplayName(name));
+      const clickable = !!view.onCountryClick;
+      const key = styleKey(style, dimmed, clickable);
+      if (appliedStylesRef.current.get(name) === key) return;
+      appliedStylesRef.current.set(name, key);
+      changed.add(name);
+      d3.select(path)
+        .attr('fill', paintRef.current(style))
+        .style('display', style.hidden ? 'none' : 'block')
+        .style('opacity', dimmed ? OUT_OF_REGION_OPACITY : 1)
+        .classed('locate-flash', !!style.flash)
+        .attr('role', clickable ? 'button' : 'img')
+        .attr('aria-label', describeCountry(toDisplayName(name), style));
     });
 
-    // B. Update Dots (Only for Classic Mode or specific needs)
-    // We only show red dots in classic mode for missing countries
-    const dotsData = mode === 'classic' 
-      ? mapData.countries.features.filter((f: any) => {
-          const mappedName = TERRITORY_NAME_MAP[f.properties.name] || f.properties.name;
-          return validCountries.includes(mappedName) && !guessedCountries[mappedName];
-        })
-      : []; // No dots in neighbor mode to keep it clean
-
-    const dots = gFixedRef.current.selectAll<SVGCircleElement, any>('circle.country-dot')
-      .data(dotsData, (d: any) => d.properties.name);
+    // B. Update Dots - red "still to find" markers
+    const dots = gFixed.selectAll<SVGCircleElement, CountryFeature>('circle.country-dot')
+      .data(features.filter(f => styleOf(f).dot), d => d.properties.name);
+    const dotsMoved = !dots.enter().empty() || !dots.exit().empty();
 
     dots.exit().remove();
     dots.enter().append('circle')
       .attr('class', 'country-dot')
-      .attr('r', 4 / currentScaleRef.current)
-      .attr('fill', '#ef4444')
-      .attr('pointer-events', 'none')
-      .merge(dots)
-      .attr('cx', (d: any) => {
-        const mappedName = TERRITORY_NAME_MAP[d.properties.name] || d.properties.name;
-        const centroid = pathGenerator.centroid(d);
-        const adjustment = POSITION_ADJUSTMENTS[mappedName] || [0, 0];
-        return centroid[0] + adjustment[0];
-      })
-      .attr('cy', (d: any) => {
-        const mappedName = TERRITORY_NAME_MAP[d.properties.name] || d.properties.name;
-        const centroid = pathGenerator.centroid(d);
-        const adjustment = POSITION_ADJUSTMENTS[mappedName] || [0, 0];
-        return centroid[1] + adjustment[1];
-      });
+      .attr('r', 4 / k)
+      .attr('fill', theme.map.dot)
+      .attr('pointer-events', 'none');
 
     // C. Update Labels
-    const labelsData = mapData.countries.features.filter((f: any) => {
-      const mappedName = TERRITORY_NAME_MAP[f.properties.name] || f.properties.name;
-      
-      if (mode === 'classic') {
-        return guessedCountries[mappedName] || revealedCountries.includes(mappedName);
-      } else {
-        // NEIGHBORS MODE LABELS
-        if (mappedName === targetCountry) {
-          return !isHardMode; // Hide target name in Hard Mode
-        }
-        if (foundNeighbors.includes(mappedName)) return true;
-        if (revealedByGiveUp.includes(mappedName)) return true; // Show labels for revealed neighbors
-        return false;
-      }
-    });
-
-    const labels = gFixedRef.current.selectAll<SVGTextElement, any>('text.country-label')
-      .data(labelsData, (d: any) => d.properties.name);
+    const labels = gFixed.select('g.country-labels').selectAll<SVGTextElement, CountryFeature>('text.country-label')
+      .data(features.filter(f => styleOf(f).label), d => d.properties.name);
+    const labelsMoved = !labels.enter().empty() || !labels.exit().empty();
 
     labels.exit().remove();
     labels.enter().append('text')
@@ -329,164 +460,341 @@ const WorldMap: React.FC<WorldMapProps> = ({
       .attr('dominant-baseline', 'middle')
       .attr('font-weight', 'bold')
       .attr('pointer-events', 'none')
-      .merge(labels)
-      .attr('x', (d: any) => {
-        const mappedName = TERRITORY_NAME_MAP[d.properties.name] || d.properties.name;
-        const centroid = pathGenerator.centroid(d);
-        const adjustment = POSITION_ADJUSTMENTS[mappedName] || [0, 0];
-        return centroid[0] + adjustment[0];
-      })
-      .attr('y', (d: any) => {
-        const mappedName = TERRITORY_NAME_MAP[d.properties.name] || d.properties.name;
-        const centroid = pathGenerator.centroid(d);
-        const adjustment = POSITION_ADJUSTMENTS[mappedName] || [0, 0];
-        return centroid[1] + adjustment[1];
-      })
-      .attr('fill', (d: any) => {
-        const mappedName = TERRITORY_NAME_MAP[d.properties.name] || d.properties.name;
-        // Logic for Label Color
-        if (mode === 'classic') {
-          return revealedCountries.includes(mappedName) ? '#ff4444' : '#ffffff';
-        } else {
-          // Neighbors: Target is black on gold, others white on green, red for revealed
-          if (mappedName === targetCountry) return '#000000';
-          if (revealedByGiveUp.includes(mappedName)) return '#ef4444'; // Red for revealed
-          return '#ffffff';
-        }
-      })
-      .attr('stroke', (d: any) => {
-        const mappedName = TERRITORY_NAME_MAP[d.properties.name] || d.properties.name;
-        if (mode === 'classic') {
-           return revealedCountries.includes(mappedName) ? '#660000' : '#000000';
-        } else {
-           if (mappedName === targetCountry) return 'rgba(255,255,255,0.5)'; // Slight halo for target
-           if (revealedByGiveUp.includes(mappedName)) return 'rgba(0,0,0,0.3)'; // Dark outline for red text
-           return '#000000';
-        }
-      })
-      .attr('stroke-width', `${0.2 / currentScaleRef.current}rem`)
       .style('paint-order', 'stroke fill')
-      .attr('font-size', `${0.7 / currentScaleRef.current}rem`)
-      .text((d: any) => {
-        const mappedName = TERRITORY_NAME_MAP[d.properties.name] || d.properties.name;
-        return mappedName;
-      })
-      .style('text-shadow', '0 0 4px rgba(0,0,0,0.8)');
+      .style('text-shadow', '0 0 4px rgba(0,0,0,0.8)')
+      .text(d => toDisplayName(d.properties.name))
+      .merge(labels)
+      .filter(d => changed.has(d.properties.name))
+      .attr('fill', d => theme.map.labels[styleOf(d).label!].color)
+      .attr('stroke', d => theme.map.labels[styleOf(d).label!].halo);
+
+    // D. Enlarged hover/click targets for tiny countries
+    const hitAreas = gFixed.selectAll<SVGCircleElement, CountryFeature>('circle.hit-area')
+      .data(smallCountries.filter(f => !styleOf(f).hidden), d => d.properties.name);
+    const hitsMoved = !hitAreas.enter().empty() || !hitAreas.exit().empty();
+
+    hitAreas.exit().remove();
+    hitAreas.enter().append('circle')
+      .attr('class', 'hit-area')
+      .attr('r', HIT_RADIUS / k)
+      .attr('fill', 'transparent')
+      .on('click', (_event, d) => onCountryClickRef.current?.(toDisplayName(d.properties.name)))
+      .on('mouseenter', (_event, d) => setPointerHover(toDisplayName(d.properties.name)))
+      .on('mouseleave', () => setPointerHover(null))
+      .merge(hitAreas)
+      .style('cursor', view.onCountryClick ? 'pointer' : 'default');
+
+    // E. Capital markers (Capitals Mode)
+    const markers = gFixed.selectAll<SVGCircleElement, CapitalRecord>('circle.capital-marker')
+      .data(view.capitalMarkers ?? [], d => d.country);
+    const markersMoved = !markers.enter().empty() || !markers.exit().empty();
+
+    markers.exit().remove();
+    markers.enter().append('circle')
+      .attr('class', 'capital-marker')
+      .attr('r', 3 / k)
+      .attr('fill', theme.map.capital)
+      .attr('stroke', theme.map.capitalStroke)
+      .attr('stroke-width', 1 / k)
+      .attr('pointer-events', 'none');
+
+    // F. Lines (Chain mode)
+    const lines = gRef.current.select('g.map-lines').selectAll<SVGPathElement, LineDatum>('path.map-line')
+      .data((view.lines ?? []).map((line): LineDatum => ({ type: 'LineString', coordinates: line.points, kind: line.kind })));
+
+    lines.exit().remove();
+    lines.enter().append('path')
+      .attr('class', 'map-line')
+      .attr('fill', 'none')
+      .attr('stroke-width', 3)
+      .attr('stroke-linecap', 'round')
+      .attr('stroke-linejoin', 'round')
+      .attr('vector-effect', 'non-scaling-stroke')
+      .merge(lines)
+      .attr('d', d3.geoPath(projectionRef.current))
+      .attr('stroke', d => theme.map.lines[d.kind])
+      .attr('stroke-dasharray', d => (d.kind === 'best' ? '6 5' : null));
 
+    if (dotsMoved || labelsMoved || hitsMoved || markersMoved) {
+      placeOverlay(gFixed, projectionRef.current, labelLayoutRef.current, k);
+    }
   }, [
-    mode, 
-    guessedCountries, 
-    validCountries, 
-    revealedCountries, 
+    view,
+    regionSet,
+    theme,
     mapData, 
-    // Neighbors dependencies
-    targetCountry,
-    foundNeighbors,
-    isHardMode,
-    gameStatus,
-    revealedByGiveUp
+    smallCountries,
+    // The main render rebuilds every path, so re-apply the game state after it
+    projectionId,
+    renderer,
+    canvasSize,
   ]);
 
 
-  // 5. Focus/Zoom Effect (Updated to handle Target Country in Neighbors Mode)
+  // 5. Focus/Zoom Effect - the mode's focus (Neighbors target, highlighted prompt) wins
+  // over a country picked in the sidebar
+  const modeFocus = view.focusCountry ?? null;
   useEffect(() => {
-    // Determine what to focus on
-    let focusTarget = focusedCountry;
-    
-    // Auto-focus on target country in neighbors mode
-    if (mode === 'neighbors' && targetCountry) {
-        focusTarget = targetCountry;
-    }
+    const focusTarget = modeFocus || focusedCountry;
+    const element = renderer === 'canvas' ? canvasRef.current : svgRef.current;
 
-    if (!focusTarget || !mapData || !svgRef.current || !zoomRef.current || !projectionRef.current) return;
+    if (!focusTarget || !mapData || !element || !zoomRef.current || !projectionRef.current) return;
 
-    const feature = mapData.countries.features.find((f: any) => {
+    const feature = mapData.countries.features.find(f => {
       const name = f.properties.name;
-      const mappedName = TERRITORY_NAME_MAP[name] || name;
+      const mappedName = toDisplayName(name);
       return mappedName === focusTarget;
     });
 
     if (!feature) return;
 
-    const pathGenerator = d3.geoPath().projection(projectionRef.current);
-    let centerX, centerY;
-    try {
-      const centroid = pathGenerator.centroid(feature);
-      centerX = centroid[0];
-      centerY = centroid[1];
-    } catch (e) {
-      const bounds = pathGenerator.bounds(feature);
-      centerX = (bounds[0][0] + bounds[1][0]) / 2;
-      centerY = (bounds[0][1] + bounds[1][1]) / 2;
-    }
-    
-    const adjustment = POSITION_ADJUSTMENTS[focusTarget] || [0, 0];
-    centerX += adjustment[0];
-    centerY += adjustment[1];
-
-    const bounds = pathGenerator.bounds(feature);
-    const dx = bounds[1][0] - bounds[0][0];
-    const dy = bounds[1][1] - bounds[0][1];
-    const { width, height } = dimensions;
-
-    const area = dx * dy;
-    let paddingFactor = 0.4;
-    if (area < 0.5) paddingFactor = 0.02;
-    else if (area < 5) paddingFactor = 0.1;
-
-    const autoScale = paddingFactor / Math.max(dx / width, dy / height);
-    const targetScale = Math.max(1.5, Math.min(60, autoScale));
-
-    const svg = d3.select(svgRef.current);
-    svg.transition()
-      .duration(800)
-      .ease(d3.easeCubicInOut)
-      .call(
-        zoomRef.current.transform,
-        d3.zoomIdentity
-          .translate(width / 2 - targetScale * centerX, height / 2 - targetScale * centerY)
-          .scale(targetScale)
-      );
-  }, [focusedCountry, targetCountry, mode, mapData, dimensions]);
+    const { width, height } = viewSizeRef.current;
+    moveTo(
+      element, zoomRef.current, projectionRef.current, isGlobe(projectionId),
+      feature, geoAnchor(feature as CountryFeature),
+      (dx, dy) => focusScale(dx, dy, width, height),
+      viewSizeRef.current
+    );
+  }, [focusedCountry, modeFocus, mapData, projectionId, renderer]);
+
+  // 6. Frame a group of countries (e.g. both Route endpoints) whenever it changes.
+  // Keyed by name so a fresh array with the same countries doesn't re-zoom.
+  const frameKey = view.frameCountries?.join('|') ?? '';
+  useEffect(() => {
+    const element = renderer === 'canvas' ? canvasRef.current : svgRef.current;
+    if (!frameKey || !mapData || !element || !zoomRef.current || !projectionRef.current) return;
+
+    const framed = new Set(frameKey.split('|'));
+    const endpoints = mapData.countries.features.filter(f => framed.has(toDisplayName(f.properties.name)));
+    if (endpoints.length === 0) return;
+
+    const { width, height } = viewSizeRef.current;
+    moveTo(
+      element, zoomRef.current, projectionRef.current, isGlobe(projectionId),
+      { type: 'FeatureCollection', features: endpoints },
+      // Halfway between them, whichever is bigger
+      d3.geoCentroid({ type: 'MultiPoint', coordinates: endpoints.map(f => geoAnchor(f as CountryFeature)) }),
+      // Leave room around them (for Route, the countries in between)
+      (dx, dy) => Math.max(1, Math.min(20, 0.6 / Math.max(dx / width, dy / height))),
+      viewSizeRef.current
+    );
+  }, [frameKey, mapData, projectionId, renderer]);
 
   // ... (Keep Zoom Buttons and Hover Effect identical) ...
   const handleZoomIn = () => {
-    if (!svgRef.current || !zoomRef.current) return;
-    d3.select(svgRef.current).transition().duration(300).call(zoomRef.current.scaleBy, 1.5);
+    const element = surface();
+    if (!element || !zoomRef.current) return;
+    d3.select<Element, unknown>(element).transition().duration(300).call(zoomRef.current.scaleBy, 1.5);
   };
   const handleZoomOut = () => {
-    if (!svgRef.current || !zoomRef.current) return;
-    d3.select(svgRef.current).transition().duration(300).call(zoomRef.current.scaleBy, 0.67);
+    const element = surface();
+    if (!element || !zoomRef.current) return;
+    d3.select<Element, unknown>(element).transition().duration(300).call(zoomRef.current.scaleBy, 0.67);
   };
   const handleResetZoom = () => {
-    if (!svgRef.current || !zoomRef.current) return;
-    d3.select(svgRef.current).transition().duration(300).call(zoomRef.current.transform, d3.zoomIdentity.scale(0.8));
+    const element = surface();
+    if (!element || !zoomRef.current || !projectionRef.current) return;
+    const transition = d3.select<Element, unknown>(element).transition().duration(300);
+    if (isGlobe(projectionId)) transition.tween('rotate', turnTween(projectionRef.current, homeRotationRef.current));
+    transition.call(zoomRef.current.transform, homeTransformRef.current);
   };
 
+  // --- Keyboard: arrows move between neighbours, Shift+arrows pan, +/- zoom, 0 resets, Enter picks ---
+  const featuresByName = useMemo(() => new Map(
+    (mapData?.countries.features ?? []).map(f => [toDisplayName(f.properties.name), f as CountryFeature])
+  ), [mapData]);
+
+  // Where keyboard navigation starts from (and the SVG map's one tab stop)
+  const startingCountry = (): string | null => {
+    if (keyboardCountry && !view.styleCountry(keyboardCountry).hidden) return keyboardCountry;
+    if (view.focusCountry) return view.focusCountry;
+    return [...featuresByName.keys()].find(country => !view.styleCountry(country).hidden) ?? null;
+  };
+  const rovingCountry = startingCountry();
+
   useEffect(() => {
+    countryPathsRef.current.forEach((path, name) => {
+      path.setAttribute('tabindex', toDisplayName(name) === rovingCountry ? '0' : '-1');
+    });
+  }, [rovingCountry, mapData, regionSet, projectionId, renderer, canvasSize]);
+
+  // A country's anchor on screen, or null on the far side of the globe
+  const screenPointOf = (element: Element, country: string): [number, number] | null => {
+    const feature = featuresByName.get(country);
+    const projection = projectionRef.current;
+    if (!feature || !projection) return null;
+    const anchor = geoAnchor(feature);
+    const point = isPointVisible(projection, anchor) ? projection(anchor) : null;
+    if (!point) return null;
+    return isGlobe(projectionId) ? point : d3.zoomTransform(element).apply(point);
+  };
+
+  // Moves keyboard focus to a country, bringing it into view if it's off screen
+  const goToCountry = (element: Element, country: string) => {
+    const feature = featuresByName.get(country);
+    if (!feature || !zoomRef.current || !projectionRef.current) return;
+    setKeyboardCountry(country);
+    countryPathsRef.current.get(feature.properties.name)?.focus({ preventScroll: true });
+
+    const point = screenPointOf(element, country);
+    const { width, height } = viewSizeRef.current;
+    if (point && point[0] >= 0 && point[0] <= width && point[1] >= 0 && point[1] <= height) return;
+    moveTo(
+      element, zoomRef.current, projectionRef.current, isGlobe(projectionId),
+      feature, geoAnchor(feature),
+      () => d3.zoomTransform(element).k, // Keep the zoom, just move
+      viewSizeRef.current
+    );
+  };
+
+  const handleMapKeyDown = (event: React.KeyboardEvent) => {
+    const element = surface();
+    const zoom = zoomRef.current;
+    const projection = projectionRef.current;
+    if (!element || !zoom || !projection) return;
+    const direction = ARROW_DIRECTIONS[event.key];
+
+    if (event.key === '+' || event.key === '=') {
+      handleZoomIn();
+    } else if (event.key === '-') {
+      handleZoomOut();
+    } else if (event.key === '0') {
+      handleResetZoom();
+    } else if ((event.key === 'Enter' || event.key === ' ') && keyboardCountry) {
+      view.onCountryClick?.(keyboardCountry);
+    } else if (direction && event.shiftKey) {
+      const selection = d3.select<Element, unknown>(element);
+      if (isGlobe(projectionId)) {
+        const [lambda, phi] = projection.rotate();
+        const rotation: [number, number] = [
+          lambda - direction[0] * GLOBE_PAN_STEP,
+          Math.max(-90, Math.min(90, phi + direction[1] * GLOBE_PAN_STEP)),
+        ];
+        // Re-applying the same zoom redraws the globe as it turns
+        selection.transition().duration(200)
+          .tween('rotate', turnTween(projection, rotation))
+          .call(zoom.transform, d3.zoomTransform(element));
+      } else {
+        const { k } = d3.zoomTransform(element);
+        selection.transition().duration(200).call(zoom.translateBy, -direction[0] * PAN_STEP / k, -direction[1] * PAN_STEP / k);
+      }
+    } else if (direction) {
+      const from = keyboardCountry ? screenPointOf(element, keyboardCountry) : null;
+      if (!keyboardCountry || !from) {
+        const start = startingCountry();
+        if (start) goToCountry(element, start);
+      } else {
+        const candidates = (countries: Iterable<string>) => [...countries]
+          .filter(country => !view.styleCountry(country).hidden)
+          .map(country => ({ country, point: screenPointOf(element, country) }))
+          .filter((c): c is { country: string; point: [number, number] } => !!c.point);
+        // Neighbours first; islands (or a dead end) fall back to the nearest country that way
+        const next = countryInDirection(from, direction, candidates(neighborMap?.get(keyboardCountry) ?? []))
+          ?? countryInDirection(from, direction, candidates(featuresByName.keys()));
+        if (next) goToCountry(element, next);
+      }
+    } else {
+      return;
+    }
+    event.preventDefault();
+  };
+
+  const handleMapFocus = (event: React.FocusEvent) => {
+    setMapFocused(true);
+    if (event.target.classList.contains('country')) {
+      const feature = d3.select<Element, CountryFeature>(event.target).datum();
+      setKeyboardCountry(toDisplayName(feature.properties.name));
+    }
+  };
+
+  // Highlight from the sidebar list, a hit target / inset under the pointer, or the keyboard
+  const highlighted = hoveredCountry ?? pointerHover ?? (mapFocused ? keyboardCountry : null);
+  useEffect(() => {
+    canvasMapRef.current?.setHighlighted(highlighted);
     d3.selectAll('.country').classed('list-hovered', false);
-    if (!hoveredCountry) return;
-    d3.selectAll('.country').filter((d: any) => {
+    if (!highlighted) return;
+    d3.selectAll<SVGPathElement, CountryFeature>('.country').filter(d => {
       const name = d.properties.name;
-      const mappedName = TERRITORY_NAME_MAP[name] || name;
-      return mappedName === hoveredCountry;
+      const mappedName = toDisplayName(name);
+      return mappedName === highlighted;
     }).classed('list-hovered', true);
-  }, [hoveredCountry]);
+  }, [highlighted, renderer, canvasSize]);
 
   return (
     <div className="map-wrapper">
-      <svg 
-        ref={svgRef} 
-        className="world-map"
-        style={{ width: '100%', height: '100%', display: 'block' }}
-      />
-      <div className="zoom-controls">
-        <button onClick={handleZoomIn} className="zoom-btn zoom-in">+</button>
-        <button onClick={handleResetZoom} className="zoom-btn zoom-reset">↺</button>
-        <button onClick={handleZoomOut} className="zoom-btn zoom-out">−</button>
+      {renderer === 'canvas' ? (
+        <canvas
+          ref={canvasRef}
+          className="world-map"
+          tabIndex={0}
+          role="application"
+          aria-roledescription="map"
+          aria-label="World map"
+          aria-describedby={keyboardHelpId}
+          onKeyDown={handleMapKeyDown}
+          onFocus={handleMapFocus}
+          onBlur={() => setMapFocused(false)}
+        />
+      ) : (
+        <svg 
+          ref={svgRef} 
+          className="world-map"
+          style={{ width: '100%', height: '100%', display: 'block' }}
+          role="group"
+          aria-label="World map"
+          aria-describedby={keyboardHelpId}
+          onKeyDown={handleMapKeyDown}
+          onFocus={handleMapFocus}
+          onBlur={() => setMapFocused(false)}
+        />
+      )}
+      <p id={keyboardHelpId} className="sr-only">
+        Arrow keys move between neighbouring countries, Shift and arrow keys pan, plus and minus zoom,
+        0 resets the view and Enter picks the country.
+      </p>
+      {/* The canvas has no elements to focus, so it says which country it's on */}
+      <div className="sr-only" role="status">
+        {renderer === 'canvas' && mapFocused && keyboardCountry
+          ? describeCountry(keyboardCountry, view.styleCountry(keyboardCountry))
+          : ''}
+      </div>
+      <div className="map-options" role="group" aria-label="Map options">
+        <button
+          className={`insets-btn ${showInsets ? 'active' : ''}`}
+          aria-pressed={showInsets}
+          onClick={() => { setShowInsets(!showInsets); setPointerHover(null); }}
+        >
+          Insets
+        </button>
+        <button
+          className={`insets-btn ${renderer === 'canvas' ? 'active' : ''}`}
+          aria-pressed={renderer === 'canvas'}
+          title="Draw the map on a canvas: smoother on low-end phones"
+          onClick={() => onRendererChange(renderer === 'canvas' ? 'svg' : 'canvas')}
+        >
+          Fast
+        </button>
+        <select
+          className="projection-select"
+          aria-label="Map projection"
+          value={projectionId}
+          onChange={(e) => { if (isMapProjection(e.target.value)) onProjectionChange(e.target.value); }}
+        >
+          {MAP_PROJECTIONS.map(id => (
+            <option key={id} value={id}>{PROJECTION_LABELS[id]}</option>
+          ))}
+        </select>
+      </div>
+      {showInsets && mapData && (
+        <MapInsets features={mapData.countries.features as CountryFeature[]} view={view} theme={theme} onHoverCountry={setPointerHover} />
+      )}
+      <div className="zoom-controls" role="group" aria-label="Zoom">
+        <button onClick={handleZoomIn} className="zoom-btn zoom-in" aria-label="Zoom in" title="Zoom in">+</button>
+        <button onClick={handleResetZoom} className="zoom-btn zoom-reset" aria-label="Reset view" title="Reset view">↺</button>
+        <button onClick={handleZoomOut} className="zoom-btn zoom-out" aria-label="Zoom out" title="Zoom out">−</button>
       </div>
     </div>
   );
 };
 
-export default WorldMap;
\ No newline at end of file
+export default WorldMap;
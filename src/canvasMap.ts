@@ -0,0 +1,314 @@
+import * as d3 from 'd3';
+import { toDisplayName } from './countryRegistry';
+import type { CountryFeature } from './mapHelpers';
+import type { CountryStyle, MapFill, MapView } from './mapView';
+import { createLabelLayout, geoAnchor } from './labelPlacement';
+import { isPointVisible } from './projections';
+import { THEMES, type MapPalette, type Theme } from './themes';
+import {
+  FILL_PATTERNS, HIT_RADIUS, OUT_OF_REGION_OPACITY, PATTERN_DOT_RADIUS, PATTERN_SIZE, SMALL_COUNTRY_AREA, TERRITORIES,
+  patternPath, proximityColor, type MapData,
+} from './mapRender';
+
+// --- Canvas renderer ---
+// A lighter alternative to the SVG map for low-end phones: the whole map is painted onto one
+// canvas per frame from cached Path2D shapes, and the pointer is hit-tested against the
+// geometry instead of relying on DOM events.
+
+const SPHERE: d3.GeoSphere = { type: 'Sphere' };
+const DEFAULT_STYLE: CountryStyle = { fill: 'land' };
+// Same timing as the SVG map's locate-flash animation
+const FLASH_MS = 500;
+const FLASH_COUNT = 3;
+// 0.7rem bold labels with a 0.25rem halo
+const LABEL_FONT_PX = 11.2;
+const HALO_PX = 4;
+// Darkens the country under the pointer (like the SVG map's hover filter)
+const HIGHLIGHT_SHADE = 'rgba(0, 0, 0, 0.3)';
+
+// One repeating tile of each fill pattern, drawn at the screen's pixel ratio
+const createFillPatterns = (context: CanvasRenderingContext2D, palette: MapPalette, ratio: number) => {
+  const patterns = new Map<MapFill, CanvasPattern>();
+  (Object.keys(FILL_PATTERNS) as MapFill[]).forEach(fill => {
+    const kind = FILL_PATTERNS[fill]!;
+    const tile = document.createElement('canvas');
+    tile.width = tile.height = Math.ceil(PATTERN_SIZE * ratio);
+    const tileContext = tile.getContext('2d')!;
+    tileContext.scale(ratio, ratio);
+    tileContext.fillStyle = palette.fills[fill];
+    tileContext.fillRect(0, 0, PATTERN_SIZE, PATTERN_SIZE);
+    if (kind === 'dots') {
+      tileContext.fillStyle = palette.hatch;
+      tileContext.beginPath();
+      tileContext.arc(PATTERN_SIZE / 2, PATTERN_SIZE / 2, PATTERN_DOT_RADIUS, 0, 2 * Math.PI);
+      tileContext.fill();
+    } else {
+      tileContext.strokeStyle = palette.hatch;
+      tileContext.lineWidth = 1;
+      tileContext.stroke(new Path2D(patternPath(kind)));
+    }
+    const pattern = context.createPattern(tile, 'repeat');
+    if (pattern) patterns.set(fill, pattern);
+  });
+  return patterns;
+};
+
+export const createCanvasMap = (
+  canvas: HTMLCanvasElement,
+  mapData: MapData,
+  projection: d3.GeoProjection,
+  globe: boolean,
+) => {
+  const context = canvas.getContext('2d')!;
+  const features = mapData.countries.features as CountryFeature[];
+  const territories = mapData.land.features.filter(f => TERRITORIES.has(f.properties?.name ?? ''));
+  const graticule = d3.geoGraticule()();
+  const smallCountries = features.filter(f => d3.geoArea(f) < SMALL_COUNTRY_AREA);
+  const bounds = new Map(features.map(f => [f, d3.geoBounds(f)]));
+  const fontFamily = getComputedStyle(canvas).fontFamily;
+  const pathGenerator = d3.geoPath(projection);
+  const newLabelLayout = () => createLabelLayout(projection, point => isPointVisible(projection, point));
+
+  let transform = d3.zoomIdentity;     // Flat maps only; the globe zooms through its projection
+  let view: MapView | null = null;
+  let regionSet: Set<string> | null = null;
+  let highlighted: string | null = null;
+  let labelLayout = newLabelLayout();
+  let palette = THEMES.dark.map;
+  let patterns = new Map<MapFill, CanvasPattern>();
+  let patternRatio = 0; // Pixel ratio the patterns were drawn at
+  let frame = 0;
+  // Projected once per projection (the globe's change as it turns)
+  const shapes = new Map<d3.GeoPermissibleObjects, Path2D>();
+  const styles = new Map<CountryFeature, CountryStyle>();
+  const flashes = new Map<string, number>(); // Country → when its flash started
+
+  const shapeOf = (object: d3.GeoPermissibleObjects): Path2D => {
+    let shape = shapes.get(object);
+    if (!shape) {
+      shape = new Path2D(pathGenerator(object) ?? '');
+      shapes.set(object, shape);
+    }
+    return shape;
+  };
+
+  const styleOf = (feature: CountryFeature): CountryStyle => {
+    let style = styles.get(feature);
+    if (!style) {
+      style = view ? view.styleCountry(toDisplayName(feature.properties.name)) : DEFAULT_STYLE;
+      styles.set(feature, style);
+    }
+    return style;
+  };
+
+  const pointOf = (lonLat: [number, number]) => (isPointVisible(projection, lonLat) ? projection(lonLat) : null);
+
+  const draw = () => {
+    frame = 0;
+    const ratio = window.devicePixelRatio || 1;
+    const width = Math.round(canvas.clientWidth * ratio);
+    const height = Math.round(canvas.clientHeight * ratio);
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.clearRect(0, 0, width, height);
+    if (patternRatio !== ratio) {
+      patterns = createFillPatterns(context, palette, ratio);
+      patternRatio = ratio;
+    }
+
+    const k = globe ? 1 : transform.k;
+    // Patterns are drawn in screen pixels whatever the zoom
+    const patternScale = new DOMMatrix().scale(1 / (ratio * k));
+    patterns.forEach(pattern => pattern.setTransform(patternScale));
+    context.setTransform(ratio * k, 0, 0, ratio * k, globe ? 0 : ratio * transform.x, globe ? 0 : ratio * transform.y);
+    const now = performance.now();
+
+    context.fillStyle = palette.ocean;
+    context.fill(shapeOf(SPHERE));
+    context.lineWidth = 0.5 / k;
+    context.globalAlpha = 0.7;
+    context.strokeStyle = palette.graticule;
+    context.stroke(shapeOf(graticule));
+    context.globalAlpha = 1;
+
+    // Countries
+    let flashing = false;
+    context.strokeStyle = palette.border;
+    context.lineWidth = 0.3 / k;
+    features.forEach(feature => {
+      const style = styleOf(feature);
+      if (style.hidden) return;
+      const name = toDisplayName(feature.properties.name);
+      let fill: string | CanvasPattern = style.fill === 'proximity'
+        ? proximityColor(palette, style.proximity ?? 0)
+        : patterns.get(style.fill) ?? palette.fills[style.fill];
+      const flashStart = flashes.get(name);
+      if (flashStart !== undefined && now - flashStart < FLASH_MS * FLASH_COUNT) {
+        flashing = true;
+        const t = Math.sin((((now - flashStart) % FLASH_MS) / FLASH_MS) * Math.PI);
+        fill = d3.interpolateRgb(palette.fills[style.fill], palette.fills.highlight)(t);
+      }
+
+      const shape = shapeOf(feature);
+      context.globalAlpha = regionSet && !regionSet.has(name) ? OUT_OF_REGION_OPACITY : 1;
+      context.fillStyle = fill;
+      context.fill(shape);
+      if (name === highlighted) {
+        context.fillStyle = HIGHLIGHT_SHADE;
+        context.fill(shape);
+      }
+      context.stroke(shape);
+    });
+    context.globalAlpha = 1;
+
+    context.fillStyle = palette.fills.notInQuiz;
+    context.lineWidth = 0.5 / k;
+    territories.forEach(territory => {
+      const shape = shapeOf(territory);
+      context.fill(shape);
+      context.stroke(shape);
+    });
+
+    // Lines (Chain mode)
+    context.lineWidth = 3 / k;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    view?.lines?.forEach(line => {
+      context.strokeStyle = palette.lines[line.kind];
+      context.setLineDash(line.kind === 'best' ? [6 / k, 5 / k] : []);
+      context.stroke(new Path2D(pathGenerator({ type: 'LineString', coordinates: line.points }) ?? ''));
+    });
+    context.setLineDash([]);
+
+    // "Still to find" dots
+    context.fillStyle = palette.dot;
+    features.forEach(feature => {
+      if (!styleOf(feature).dot) return;
+      const point = pointOf(geoAnchor(feature));
+      if (!point) return;
+      context.beginPath();
+      context.arc(point[0], point[1], 4 / k, 0, 2 * Math.PI);
+      context.fill();
+    });
+
+    // Capital markers
+    context.fillStyle = palette.capital;
+    context.strokeStyle = palette.capitalStroke;
+    context.lineWidth = 1 / k;
+    view?.capitalMarkers?.forEach(capital => {
+      const point = pointOf(capital.coordinates);
+      if (!point) return;
+      context.beginPath();
+      context.arc(point[0], point[1], 3 / k, 0, 2 * Math.PI);
+      context.fill();
+      context.stroke();
+    });
+
+    // Labels, laid out like the SVG map's
+    const labelled = features.filter(f => styleOf(f).label);
+    const placements = labelLayout.layout(labelled, k);
+    context.font = `bold ${LABEL_FONT_PX / k}px ${fontFamily}`;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.lineJoin = 'round';
+    labelled.forEach(feature => {
+      const { point } = labelLayout.siteOf(feature);
+      const placement = placements.get(feature.properties.name)!;
+      if (!point || placement.hidden) return;
+      const x = point[0] + placement.dx / k;
+      const y = point[1] + placement.dy / k;
+      if (placement.leader) {
+        context.globalAlpha = 0.7;
+        context.strokeStyle = palette.leader;
+        context.lineWidth = 1 / k;
+        context.beginPath();
+        context.moveTo(point[0], point[1]);
+        context.lineTo(x, y);
+        context.stroke();
+        context.globalAlpha = 1;
+      }
+      const label = palette.labels[styleOf(feature).label!];
+      const name = toDisplayName(feature.properties.name);
+      context.strokeStyle = label.halo;
+      context.lineWidth = HALO_PX / k;
+      context.strokeText(name, x, y);
+      context.fillStyle = label.color;
+      context.fillText(name, x, y);
+    });
+
+    if (flashing) schedule();
+  };
+
+  const schedule = () => {
+    if (!frame) frame = requestAnimationFrame(draw);
+  };
+
+  return {
+    // Pan/zoom of a flat map
+    setTransform: (next: d3.ZoomTransform) => {
+      transform = next;
+      schedule();
+    },
+    // The globe turned or zoomed, so its shapes and labels are stale
+    reproject: () => {
+      shapes.clear();
+      labelLayout = newLabelLayout();
+      schedule();
+    },
+    update: (nextView: MapView, nextRegion: Set<string> | null) => {
+      view = nextView;
+      regionSet = nextRegion;
+      styles.clear();
+      const now = performance.now();
+      features.forEach(feature => {
+        const name = toDisplayName(feature.properties.name);
+        if (!styleOf(feature).flash) flashes.delete(name);
+        else if (!flashes.has(name)) flashes.set(name, now);
+      });
+      schedule();
+    },
+    setTheme: (theme: Theme) => {
+      palette = theme.map;
+      patternRatio = 0; // Redrawn in the new colours
+      schedule();
+    },
+    setHighlighted: (country: string | null) => {
+      highlighted = country;
+      schedule();
+    },
+    // The country under a point on the canvas (CSS px), tiny countries' enlarged targets first
+    countryAt: (x: number, y: number): string | null => {
+      const k = globe ? 1 : transform.k;
+      const [px, py] = globe ? [x, y] : transform.invert([x, y]);
+
+      const near = smallCountries.find(feature => {
+        if (styleOf(feature).hidden) return false;
+        const point = pointOf(geoAnchor(feature));
+        return !!point && Math.hypot(point[0] - px, point[1] - py) * k <= HIT_RADIUS;
+      });
+      if (near) return toDisplayName(near.properties.name);
+
+      const lonLat = projection.invert?.([px, py]);
+      if (!lonLat || !Number.isFinite(lonLat[0]) || !Number.isFinite(lonLat[1])) return null;
+      if (!isPointVisible(projection, lonLat)) return null;
+      const [lon, lat] = lonLat;
+      const hit = features.find(feature => {
+        if (styleOf(feature).hidden) return false;
+        // Cheap bounding-box check first (boxes across the antimeridian have west > east)
+        const [[west, south], [east, north]] = bounds.get(feature)!;
+        if (lat < south || lat > north) return false;
+        if (west <= east ? lon < west || lon > east : lon < west && lon > east) return false;
+        return d3.geoContains(feature, lonLat);
+      });
+      return hit ? toDisplayName(hit.properties.name) : null;
+    },
+    destroy: () => {
+      if (frame) cancelAnimationFrame(frame);
+    },
+  };
+};
+
+export type CanvasMap = ReturnType<typeof createCanvasMap>;
@@ -0,0 +1,46 @@
+// --- Timed variants of the Classic / Capitals game ---
+// 'open'      = count the time up until everything is named (the original game)
+// 'countdown' = Sporcle-style: name as many as possible before the clock runs out
+// 'sprint'    = race to a fixed number of countries
+
+export const CLASSIC_VARIANTS = ['open', 'countdown', 'sprint'] as const;
+export type ClassicVariant = typeof CLASSIC_VARIANTS[number];
+
+export const isClassicVariant = (value: string): value is ClassicVariant =>
+  (CLASSIC_VARIANTS as readonly string[]).includes(value);
+
+const WORLD_COUNTDOWN_SECONDS = 12 * 60;
+const WORLD_COUNTRY_COUNT = 197;
+export const SPRINT_TARGET = 25;
+
+// 12 minutes for the whole world, scaled down by the number of countries and rounded
+// to whole minutes (about 3 minutes for a continent)
+export const countdownSeconds = (countryCount: number): number => {
+  const minutes = Math.round((countryCount / WORLD_COUNTRY_COUNT) * (WORLD_COUNTDOWN_SECONDS / 60));
+  return Math.max(1, minutes) * 60;
+};
+
+// How many countries end the game
+export const classicGoal = (variant: ClassicVariant, countryCount: number): number => {
+  return variant === 'sprint' ? Math.min(SPRINT_TARGET, countryCount) : countryCount;
+};
+
+// The last timer milestone passed, for screen readers: each minute left and then 30 and 10
+// seconds left in a countdown, every five minutes otherwise (null before the first)
+export const timerMilestone = (elapsedMs: number, timeLimitMs: number | null): string | null => {
+  if (timeLimitMs === null) {
+    const minutes = Math.floor(elapsedMs / 60000 / 5) * 5;
+    return minutes > 0 ? `${minutes} minutes in` : null;
+  }
+  const secondsLeft = Math.ceil((timeLimitMs - elapsedMs) / 1000);
+  if (secondsLeft <= 10) return '10 seconds left';
+  if (secondsLeft <= 30) return '30 seconds left';
+  const minutesLeft = Math.ceil(secondsLeft / 60);
+  return `${minutesLeft} ${minutesLeft === 1 ? 'minute' : 'minutes'} left`;
+};
+
+export const describeVariant = (variant: ClassicVariant, countryCount: number): string => {
+  if (variant === 'countdown') return `Countdown ${countdownSeconds(countryCount) / 60} min`;
+  if (variant === 'sprint') return `Sprint to ${classicGoal(variant, countryCount)}`;
+  return 'Open';
+};
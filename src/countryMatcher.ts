@@ -0,0 +1,128 @@
+import { QUIZ_COUNTRY_RECORDS } from './data/countries';
+import { CAPITAL_RECORDS } from './data/capitals';
+
+export interface MatchOptions {
+  // Largest edit distance accepted for a near-miss (0 = exact matches only)
+  maxDistance?: number;
+  // Inputs shorter than this (after folding) are only matched exactly
+  minFuzzyLength?: number;
+}
+
+const DEFAULT_OPTIONS: Required<MatchOptions> = {
+  maxDistance: 2,
+  minFuzzyLength: 4,
+};
+
+const WORD_REPLACEMENTS: { [word: string]: string } = {
+  st: 'saint',
+  ste: 'sainte',
+  '&': 'and',
+};
+
+/**
+ * Folds a name to a comparison key: strips diacritics and punctuation, lowercases,
+ * expands "St."/"St" to "saint" and drops a leading "The".
+ * e.g. "St. Lucia" -> "saintlucia", "Côte d'Ivoire" -> "cotedivoire"
+ */
+export const foldName = (str: string): string => {
+  const words = str
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' & ')
+    .replace(/['’`]/g, '')
+    .split(/[^a-z0-9&]+/)
+    .filter(Boolean)
+    .map(word => WORD_REPLACEMENTS[word] || word);
+
+  if (words[0] === 'the' && words.length > 1) words.shift();
+  return words.join('');
+};
+
+// Optimal string alignment distance (Levenshtein + adjacent transpositions)
+export const editDistance = (a: string, b: string): number => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => [i, ...new Array(cols - 1).fill(0)]);
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[rows - 1][cols - 1];
+};
+
+// Folded name/alias -> the value it resolves to
+type MatchIndex = Map<string, string>;
+
+const buildMatchIndex = (entries: { value: string; names: string[] }[]): MatchIndex => {
+  const index: MatchIndex = new Map();
+  entries.forEach(({ value, names }) => {
+    names.forEach(name => index.set(foldName(name), value));
+  });
+  return index;
+};
+
+// Country names and aliases -> country display name (built once)
+const COUNTRY_INDEX = buildMatchIndex(QUIZ_COUNTRY_RECORDS.map(record => ({
+  value: record.name,
+  names: [record.name, record.mapName, ...record.aliases],
+})));
+
+// Capital names and aliases -> country display name (built once)
+const CAPITAL_INDEX = buildMatchIndex(CAPITAL_RECORDS.map(record => ({
+  value: record.country,
+  names: [record.capital, ...record.aliases],
+})));
+
+/**
+ * Resolves free-text input against an index, or returns null.
+ * Near-misses within the edit-distance budget are only accepted when exactly one
+ * value is closest and the input isn't the start of a different name
+ * (so "Nige" never resolves to Niger while someone is typing "Nigeria").
+ */
+const matchInIndex = (index: MatchIndex, input: string, options: MatchOptions): string | null => {
+  const { maxDistance, minFuzzyLength } = { ...DEFAULT_OPTIONS, ...options };
+  const folded = foldName(input);
+  if (!folded) return null;
+
+  const exact = index.get(folded);
+  if (exact) return exact;
+  if (maxDistance <= 0 || folded.length < minFuzzyLength) return null;
+
+  // Allow roughly one typo per four letters, capped by maxDistance
+  const budget = Math.min(maxDistance, Math.floor(folded.length / 4));
+  let bestDistance = Infinity;
+  let bestValues = new Set<string>();
+
+  for (const [key, value] of index) {
+    if (key.startsWith(folded)) return null; // Still typing a longer name
+    if (Math.abs(key.length - folded.length) > budget) continue;
+
+    const distance = editDistance(folded, key);
+    if (distance > budget || distance > bestDistance) continue;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestValues = new Set();
+    }
+    bestValues.add(value);
+  }
+
+  return bestValues.size === 1 ? [...bestValues][0] : null;
+};
+
+// Resolves free-text input to a quiz country's display name, or null
+export const matchCountry = (input: string, options: MatchOptions = {}): string | null => {
+  return matchInIndex(COUNTRY_INDEX, input, options);
+};
+
+// Resolves a typed capital (e.g. "Kiev" or "Kyiv") to its country's display name, or null
+export const matchCapital = (input: string, options: MatchOptions = {}): string | null => {
+  return matchInIndex(CAPITAL_INDEX, input, options);
+};
@@ -0,0 +1,79 @@
+import { QUIZ_COUNTRY_RECORDS, TERRITORY_RECORDS } from './data/countries';
+import { CAPITAL_RECORDS } from './data/capitals';
+
+export type Continent = 'Africa' | 'Asia' | 'Europe' | 'North America' | 'South America' | 'Oceania' | 'Antarctica';
+
+// UN M49 subregions (the Americas use the intermediate regions)
+export const SUBREGIONS = [
+  'Northern Africa', 'Eastern Africa', 'Middle Africa', 'Southern Africa', 'Western Africa',
+  'Caribbean', 'Central America', 'South America', 'Northern America',
+  'Central Asia', 'Eastern Asia', 'South-eastern Asia', 'Southern Asia', 'Western Asia',
+  'Eastern Europe', 'Northern Europe', 'Southern Europe', 'Western Europe',
+  'Australia and New Zealand', 'Melanesia', 'Micronesia', 'Polynesia',
+  'Antarctica',
+] as const;
+
+export type Subregion = typeof SUBREGIONS[number];
+
+// 'observer' = UN observer states (Vatican City, Palestine)
+export type SovereigntyStatus = 'sovereign' | 'observer' | 'partially-recognized' | 'territory' | 'disputed';
+
+export interface CountryRecord {
+  name: string;              // Display name, used everywhere in the game
+  mapName: string;           // properties.name of the world-atlas feature
+  alpha2: string | null;     // ISO 3166-1 alpha-2 (XK for Kosovo)
+  alpha3: string | null;     // ISO 3166-1 alpha-3
+  numericId: string | null;  // world-atlas feature id (ISO 3166-1 numeric)
+  continent: Continent;
+  subregion: Subregion;
+  status: SovereigntyStatus;
+  aliases: string[];         // Extra spellings accepted as guesses
+}
+
+export interface CapitalRecord {
+  country: string;                 // Display name of the country
+  capital: string;
+  aliases: string[];               // Other spellings and seats of government
+  coordinates: [number, number];   // [lon, lat]
+}
+
+export const ALL_RECORDS: CountryRecord[] = [...QUIZ_COUNTRY_RECORDS, ...TERRITORY_RECORDS];
+
+// Display names of the 197 countries the quiz asks for
+export const QUIZ_COUNTRIES: string[] = QUIZ_COUNTRY_RECORDS.map(record => record.name);
+
+// --- Lookup indexes (built once) ---
+const byName = new Map<string, CountryRecord>();
+const byMapName = new Map<string, CountryRecord>();
+const byIso = new Map<string, CountryRecord>();
+const byNumericId = new Map<string, CountryRecord>();
+const capitalByCountry = new Map(CAPITAL_RECORDS.map(record => [record.country, record]));
+
+ALL_RECORDS.forEach(record => {
+  byName.set(record.name, record);
+  byMapName.set(record.mapName, record);
+  if (record.alpha2) byIso.set(record.alpha2, record);
+  if (record.alpha3) byIso.set(record.alpha3, record);
+  // Some ids are shared (Ashmore and Cartier uses Australia's 036) - first record wins
+  if (record.numericId && !byNumericId.has(record.numericId)) byNumericId.set(record.numericId, record);
+});
+
+export const getCountryByName = (name: string): CountryRecord | undefined => byName.get(name);
+
+export const getCountryByMapName = (mapName: string): CountryRecord | undefined => byMapName.get(mapName);
+
+export const getCountryByIso = (code: string): CountryRecord | undefined => byIso.get(code.toUpperCase());
+
+export const getCountryByNumericId = (id: string | number): CountryRecord | undefined => {
+  return byNumericId.get(String(id).padStart(3, '0'));
+};
+
+export const getCapital = (countryName: string): CapitalRecord | undefined => capitalByCountry.get(countryName);
+
+// Turns a world-atlas feature name into the game's display name (unknown names pass through)
+export const toDisplayName = (mapName: string): string => byMapName.get(mapName)?.name ?? mapName;
+
+export const isQuizCountry = (name: string): boolean => {
+  const status = byName.get(name)?.status;
+  return status === 'sovereign' || status === 'observer' || status === 'partially-recognized';
+};
@@ -0,0 +1,55 @@
+// --- Daily challenge ---
+// Every mode has one puzzle per calendar day (local time), built from a seed derived
+// from the date. The attempt is stored in localStorage so it can only be played once.
+
+import type { ClassicVariant } from './classicVariants';
+
+export interface DailyRecord {
+  dateKey: string;          // YYYY-MM-DD the attempt belongs to
+  seed: string;             // Rebuilds the exact puzzle via createSeededRandom()
+  status: 'started' | 'finished';
+  score: number | null;     // Filled in when the attempt finishes
+  regions?: string[];       // Classic and Capitals: what the daily was played on
+  variant?: ClassicVariant;
+}
+
+// Classic and Capitals dailies ignore the player's region and variant, so everyone
+// plays the same puzzle and scores compare
+export const DAILY_REGIONS: string[] = [];
+export const DAILY_VARIANT: ClassicVariant = 'open';
+
+const STORAGE_PREFIX = 'world-map-quiz:daily:';
+
+// Local calendar date, e.g. "2026-10-19"
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const dailySeed = (mode: string, dateKey: string): string => `daily:${dateKey}:${mode}`;
+
+// Milliseconds from `now` until the next local midnight
+export const msUntilNextDaily = (now: Date): number => {
+  const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  return midnight.getTime() - now.getTime();
+};
+
+// localStorage can throw (private mode, quota) - a missing record just means "not played"
+export const loadDailyRecord = (mode: string, dateKey: string): DailyRecord | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + mode);
+    const record = raw ? (JSON.parse(raw) as DailyRecord) : null;
+    return record && record.dateKey === dateKey ? record : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveDailyRecord = (mode: string, record: DailyRecord): void => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + mode, JSON.stringify(record));
+  } catch {
+    // Storage unavailable - the daily can be replayed, which is harmless
+  }
+};
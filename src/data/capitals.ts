@@ -0,0 +1,203 @@
+import type { CapitalRecord } from '../countryRegistry';
+
+// One capital per quiz country. Where a country has several seats of government,
+// the others are listed as aliases (e.g. Bolivia: Sucre / La Paz).
+export const CAPITAL_RECORDS: CapitalRecord[] = [
+  { country: 'Afghanistan', capital: 'Kabul', aliases: [], coordinates: [69.18, 34.53] },
+  { country: 'Albania', capital: 'Tirana', aliases: [], coordinates: [19.82, 41.33] },
+  { country: 'Algeria', capital: 'Algiers', aliases: [], coordinates: [3.06, 36.75] },
+  { country: 'Andorra', capital: 'Andorra la Vella', aliases: [], coordinates: [1.52, 42.51] },
+  { country: 'Angola', capital: 'Luanda', aliases: [], coordinates: [13.23, -8.84] },
+  { country: 'Antigua and Barbuda', capital: 'Saint John\'s', aliases: [], coordinates: [-61.85, 17.12] },
+  { country: 'Argentina', capital: 'Buenos Aires', aliases: [], coordinates: [-58.38, -34.60] },
+  { country: 'Armenia', capital: 'Yerevan', aliases: [], coordinates: [44.51, 40.18] },
+  { country: 'Australia', capital: 'Canberra', aliases: [], coordinates: [149.13, -35.28] },
+  { country: 'Austria', capital: 'Vienna', aliases: ['Wien'], coordinates: [16.37, 48.21] },
+  { country: 'Azerbaijan', capital: 'Baku', aliases: [], coordinates: [49.87, 40.41] },
+  { country: 'Bahamas', capital: 'Nassau', aliases: [], coordinates: [-77.35, 25.05] },
+  { country: 'Bahrain', capital: 'Manama', aliases: [], coordinates: [50.59, 26.23] },
+  { country: 'Bangladesh', capital: 'Dhaka', aliases: ['Dacca'], coordinates: [90.41, 23.81] },
+  { country: 'Barbados', capital: 'Bridgetown', aliases: [], coordinates: [-59.62, 13.10] },
+  { country: 'Belarus', capital: 'Minsk', aliases: [], coordinates: [27.56, 53.90] },
+  { country: 'Belgium', capital: 'Brussels', aliases: ['Bruxelles', 'Brussel'], coordinates: [4.35, 50.85] },
+  { country: 'Belize', capital: 'Belmopan', aliases: [], coordinates: [-88.77, 17.25] },
+  { country: 'Benin', capital: 'Porto-Novo', aliases: ['Cotonou'], coordinates: [2.63, 6.50] },
+  { country: 'Bhutan', capital: 'Thimphu', aliases: [], coordinates: [89.64, 27.47] },
+  { country: 'Bolivia', capital: 'Sucre', aliases: ['La Paz'], coordinates: [-65.26, -19.03] },
+  { country: 'Bosnia and Herzegovina', capital: 'Sarajevo', aliases: [], coordinates: [18.41, 43.86] },
+  { country: 'Botswana', capital: 'Gaborone', aliases: [], coordinates: [25.91, -24.65] },
+  { country: 'Brazil', capital: 'Brasília', aliases: [], coordinates: [-47.88, -15.79] },
+  { country: 'Brunei', capital: 'Bandar Seri Begawan', aliases: [], coordinates: [114.95, 4.90] },
+  { country: 'Bulgaria', capital: 'Sofia', aliases: [], coordinates: [23.32, 42.70] },
+  { country: 'Burkina Faso', capital: 'Ouagadougou', aliases: [], coordinates: [-1.52, 12.37] },
+  { country: 'Burundi', capital: 'Gitega', aliases: ['Bujumbura'], coordinates: [29.92, -3.43] },
+  { country: 'Cameroon', capital: 'Yaoundé', aliases: [], coordinates: [11.50, 3.87] },
+  { country: 'Cambodia', capital: 'Phnom Penh', aliases: [], coordinates: [104.92, 11.56] },
+  { country: 'Canada', capital: 'Ottawa', aliases: [], coordinates: [-75.70, 45.42] },
+  { country: 'Cabo Verde', capital: 'Praia', aliases: [], coordinates: [-23.51, 14.93] },
+  { country: 'Central African Republic', capital: 'Bangui', aliases: [], coordinates: [18.56, 4.39] },
+  { country: 'Chad', capital: 'N\'Djamena', aliases: [], coordinates: [15.04, 12.13] },
+  { country: 'Chile', capital: 'Santiago', aliases: [], coordinates: [-70.67, -33.45] },
+  { country: 'China', capital: 'Beijing', aliases: ['Peking'], coordinates: [116.40, 39.90] },
+  { country: 'Colombia', capital: 'Bogotá', aliases: [], coordinates: [-74.07, 4.71] },
+  { country: 'Comoros', capital: 'Moroni', aliases: [], coordinates: [43.26, -11.70] },
+  { country: 'Republic of the Congo', capital: 'Brazzaville', aliases: [], coordinates: [15.28, -4.26] },
+  { country: 'Costa Rica', capital: 'San José', aliases: [], coordinates: [-84.09, 9.93] },
+  { country: 'Croatia', capital: 'Zagreb', aliases: [], coordinates: [15.98, 45.81] },
+  { country: 'Cuba', capital: 'Havana', aliases: ['La Habana'], coordinates: [-82.37, 23.11] },
+  { country: 'Cyprus', capital: 'Nicosia', aliases: [], coordinates: [33.38, 35.19] },
+  { country: 'Czech Republic', capital: 'Prague', aliases: ['Praha'], coordinates: [14.42, 50.08] },
+  { country: 'Democratic Republic of the Congo', capital: 'Kinshasa', aliases: [], coordinates: [15.27, -4.44] },
+  { country: 'Denmark', capital: 'Copenhagen', aliases: ['København'], coordinates: [12.57, 55.68] },
+  { country: 'Djibouti', capital: 'Djibouti', aliases: ['Djibouti City'], coordinates: [43.15, 11.59] },
+  { country: 'Dominica', capital: 'Roseau', aliases: [], coordinates: [-61.39, 15.30] },
+  { country: 'Dominican Republic', capital: 'Santo Domingo', aliases: [], coordinates: [-69.93, 18.49] },
+  { country: 'Ecuador', capital: 'Quito', aliases: [], coordinates: [-78.47, -0.18] },
+  { country: 'Egypt', capital: 'Cairo', aliases: [], coordinates: [31.24, 30.04] },
+  { country: 'El Salvador', capital: 'San Salvador', aliases: [], coordinates: [-89.22, 13.69] },
+  { country: 'Equatorial Guinea', capital: 'Malabo', aliases: ['Ciudad de la Paz'], coordinates: [8.78, 3.75] },
+  { country: 'Eritrea', capital: 'Asmara', aliases: [], coordinates: [38.93, 15.32] },
+  { country: 'Estonia', capital: 'Tallinn', aliases: [], coordinates: [24.75, 59.44] },
+  { country: 'Eswatini', capital: 'Mbabane', aliases: ['Lobamba'], coordinates: [31.14, -26.31] },
+  { country: 'Ethiopia', capital: 'Addis Ababa', aliases: [], coordinates: [38.75, 9.03] },
+  { country: 'Fiji', capital: 'Suva', aliases: [], coordinates: [178.44, -18.14] },
+  { country: 'Finland', capital: 'Helsinki', aliases: [], coordinates: [24.94, 60.17] },
+  { country: 'France', capital: 'Paris', aliases: [], coordinates: [2.35, 48.86] },
+  { country: 'Gabon', capital: 'Libreville', aliases: [], coordinates: [9.45, 0.39] },
+  { country: 'Gambia', capital: 'Banjul', aliases: [], coordinates: [-16.58, 13.45] },
+  { country: 'Georgia', capital: 'Tbilisi', aliases: [], coordinates: [44.83, 41.72] },
+  { country: 'Germany', capital: 'Berlin', aliases: [], coordinates: [13.40, 52.52] },
+  { country: 'Ghana', capital: 'Accra', aliases: [], coordinates: [-0.19, 5.60] },
+  { country: 'Greece', capital: 'Athens', aliases: [], coordinates: [23.73, 37.98] },
+  { country: 'Grenada', capital: 'Saint George\'s', aliases: [], coordinates: [-61.75, 12.06] },
+  { country: 'Guatemala', capital: 'Guatemala City', aliases: [], coordinates: [-90.51, 14.63] },
+  { country: 'Guinea', capital: 'Conakry', aliases: [], coordinates: [-13.68, 9.64] },
+  { country: 'Guinea-Bissau', capital: 'Bissau', aliases: [], coordinates: [-15.60, 11.86] },
+  { country: 'Guyana', capital: 'Georgetown', aliases: [], coordinates: [-58.16, 6.80] },
+  { country: 'Haiti', capital: 'Port-au-Prince', aliases: [], coordinates: [-72.34, 18.54] },
+  { country: 'Honduras', capital: 'Tegucigalpa', aliases: [], coordinates: [-87.21, 14.07] },
+  { country: 'Hungary', capital: 'Budapest', aliases: [], coordinates: [19.04, 47.50] },
+  { country: 'Iceland', capital: 'Reykjavík', aliases: [], coordinates: [-21.94, 64.15] },
+  { country: 'India', capital: 'New Delhi', aliases: ['Delhi'], coordinates: [77.21, 28.61] },
+  { country: 'Indonesia', capital: 'Jakarta', aliases: [], coordinates: [106.85, -6.21] },
+  { country: 'Iran', capital: 'Tehran', aliases: ['Teheran'], coordinates: [51.39, 35.69] },
+  { country: 'Iraq', capital: 'Baghdad', aliases: [], coordinates: [44.36, 33.31] },
+  { country: 'Ireland', capital: 'Dublin', aliases: [], coordinates: [-6.26, 53.35] },
+  { country: 'Israel', capital: 'Jerusalem', aliases: [], coordinates: [35.22, 31.77] },
+  { country: 'Italy', capital: 'Rome', aliases: ['Roma'], coordinates: [12.50, 41.90] },
+  { country: 'Côte d\'Ivoire', capital: 'Yamoussoukro', aliases: ['Abidjan'], coordinates: [-5.28, 6.83] },
+  { country: 'Jamaica', capital: 'Kingston', aliases: [], coordinates: [-76.79, 18.00] },
+  { country: 'Japan', capital: 'Tokyo', aliases: [], coordinates: [139.69, 35.69] },
+  { country: 'Jordan', capital: 'Amman', aliases: [], coordinates: [35.93, 31.95] },
+  { country: 'Kazakhstan', capital: 'Astana', aliases: ['Nur-Sultan'], coordinates: [71.45, 51.17] },
+  { country: 'Kenya', capital: 'Nairobi', aliases: [], coordinates: [36.82, -1.29] },
+  { country: 'Kiribati', capital: 'South Tarawa', aliases: ['Tarawa'], coordinates: [173.03, 1.33] },
+  { country: 'Kosovo', capital: 'Pristina', aliases: ['Prishtina'], coordinates: [21.17, 42.66] },
+  { country: 'Kuwait', capital: 'Kuwait City', aliases: [], coordinates: [47.98, 29.38] },
+  { country: 'Kyrgyzstan', capital: 'Bishkek', aliases: [], coordinates: [74.59, 42.87] },
+  { country: 'Laos', capital: 'Vientiane', aliases: [], coordinates: [102.63, 17.98] },
+  { country: 'Latvia', capital: 'Riga', aliases: [], coordinates: [24.11, 56.95] },
+  { country: 'Lebanon', capital: 'Beirut', aliases: [], coordinates: [35.50, 33.89] },
+  { country: 'Lesotho', capital: 'Maseru', aliases: [], coordinates: [27.48, -29.31] },
+  { country: 'Liberia', capital: 'Monrovia', aliases: [], coordinates: [-10.80, 6.30] },
+  { country: 'Libya', capital: 'Tripoli', aliases: [], coordinates: [13.19, 32.89] },
+  { country: 'Liechtenstein', capital: 'Vaduz', aliases: [], coordinates: [9.52, 47.14] },
+  { country: 'Lithuania', capital: 'Vilnius', aliases: [], coordinates: [25.28, 54.69] },
+  { country: 'Luxembourg', capital: 'Luxembourg', aliases: ['Luxembourg City'], coordinates: [6.13, 49.61] },
+  { country: 'Madagascar', capital: 'Antananarivo', aliases: [], coordinates: [47.52, -18.88] },
+  { country: 'Malawi', capital: 'Lilongwe', aliases: [], coordinates: [33.79, -13.96] },
+  { country: 'Malaysia', capital: 'Kuala Lumpur', aliases: ['Putrajaya'], coordinates: [101.69, 3.14] },
+  { country: 'Maldives', capital: 'Malé', aliases: [], coordinates: [73.51, 4.18] },
+  { country: 'Mali', capital: 'Bamako', aliases: [], coordinates: [-8.00, 12.64] },
+  { country: 'Malta', capital: 'Valletta', aliases: [], coordinates: [14.51, 35.90] },
+  { country: 'Marshall Islands', capital: 'Majuro', aliases: [], coordinates: [171.38, 7.09] },
+  { country: 'Mauritania', capital: 'Nouakchott', aliases: [], coordinates: [-15.98, 18.08] },
+  { country: 'Mauritius', capital: 'Port Louis', aliases: [], coordinates: [57.50, -20.16] },
+  { country: 'Mexico', capital: 'Mexico City', aliases: [], coordinates: [-99.13, 19.43] },
+  { country: 'Micronesia', capital: 'Palikir', aliases: [], coordinates: [158.16, 6.92] },
+  { country: 'Moldova', capital: 'Chișinău', aliases: ['Kishinev'], coordinates: [28.86, 47.01] },
+  { country: 'Monaco', capital: 'Monaco', aliases: ['Monaco-Ville'], coordinates: [7.42, 43.74] },
+  { country: 'Mongolia', capital: 'Ulaanbaatar', aliases: ['Ulan Bator'], coordinates: [106.92, 47.89] },
+  { country: 'Montenegro', capital: 'Podgorica', aliases: [], coordinates: [19.26, 42.44] },
+  { country: 'Morocco', capital: 'Rabat', aliases: [], coordinates: [-6.84, 34.02] },
+  { country: 'Mozambique', capital: 'Maputo', aliases: [], coordinates: [32.57, -25.97] },
+  { country: 'Myanmar', capital: 'Naypyidaw', aliases: ['Nay Pyi Taw'], coordinates: [96.13, 19.76] },
+  { country: 'Namibia', capital: 'Windhoek', aliases: [], coordinates: [17.08, -22.56] },
+  { country: 'Nauru', capital: 'Yaren', aliases: [], coordinates: [166.92, -0.55] },
+  { country: 'Nepal', capital: 'Kathmandu', aliases: [], coordinates: [85.32, 27.72] },
+  { country: 'Netherlands', capital: 'Amsterdam', aliases: [], coordinates: [4.90, 52.37] },
+  { country: 'New Zealand', capital: 'Wellington', aliases: [], coordinates: [174.78, -41.29] },
+  { country: 'Nicaragua', capital: 'Managua', aliases: [], coordinates: [-86.25, 12.11] },
+  { country: 'Niger', capital: 'Niamey', aliases: [], coordinates: [2.11, 13.51] },
+  { country: 'Nigeria', capital: 'Abuja', aliases: [], coordinates: [7.49, 9.08] },
+  { country: 'North Korea', capital: 'Pyongyang', aliases: [], coordinates: [125.76, 39.04] },
+  { country: 'North Macedonia', capital: 'Skopje', aliases: [], coordinates: [21.43, 41.99] },
+  { country: 'Norway', capital: 'Oslo', aliases: [], coordinates: [10.75, 59.91] },
+  { country: 'Oman', capital: 'Muscat', aliases: [], coordinates: [58.41, 23.59] },
+  { country: 'Pakistan', capital: 'Islamabad', aliases: [], coordinates: [73.05, 33.68] },
+  { country: 'Palau', capital: 'Ngerulmud', aliases: ['Melekeok'], coordinates: [134.62, 7.50] },
+  { country: 'Palestine', capital: 'East Jerusalem', aliases: ['Ramallah'], coordinates: [35.23, 31.78] },
+  { country: 'Panama', capital: 'Panama City', aliases: [], coordinates: [-79.52, 8.98] },
+  { country: 'Papua New Guinea', capital: 'Port Moresby', aliases: [], coordinates: [147.18, -9.44] },
+  { country: 'Paraguay', capital: 'Asunción', aliases: [], coordinates: [-57.58, -25.26] },
+  { country: 'Peru', capital: 'Lima', aliases: [], coordinates: [-77.04, -12.05] },
+  { country: 'Philippines', capital: 'Manila', aliases: [], coordinates: [120.98, 14.60] },
+  { country: 'Poland', capital: 'Warsaw', aliases: ['Warszawa'], coordinates: [21.01, 52.23] },
+  { country: 'Portugal', capital: 'Lisbon', aliases: ['Lisboa'], coordinates: [-9.14, 38.72] },
+  { country: 'Qatar', capital: 'Doha', aliases: [], coordinates: [51.53, 25.29] },
+  { country: 'Romania', capital: 'Bucharest', aliases: [], coordinates: [26.10, 44.43] },
+  { country: 'Russia', capital: 'Moscow', aliases: ['Moskva'], coordinates: [37.62, 55.76] },
+  { country: 'Rwanda', capital: 'Kigali', aliases: [], coordinates: [30.06, -1.94] },
+  { country: 'Saint Kitts and Nevis', capital: 'Basseterre', aliases: [], coordinates: [-62.72, 17.30] },
+  { country: 'Saint Lucia', capital: 'Castries', aliases: [], coordinates: [-61.00, 14.01] },
+  { country: 'Saint Vincent and the Grenadines', capital: 'Kingstown', aliases: [], coordinates: [-61.22, 13.16] },
+  { country: 'Samoa', capital: 'Apia', aliases: [], coordinates: [-171.77, -13.83] },
+  { country: 'San Marino', capital: 'San Marino', aliases: ['City of San Marino'], coordinates: [12.45, 43.94] },
+  { country: 'Sao Tome and Principe', capital: 'São Tomé', aliases: [], coordinates: [6.73, 0.34] },
+  { country: 'Saudi Arabia', capital: 'Riyadh', aliases: [], coordinates: [46.68, 24.71] },
+  { country: 'Senegal', capital: 'Dakar', aliases: [], coordinates: [-17.47, 14.72] },
+  { country: 'Serbia', capital: 'Belgrade', aliases: ['Beograd'], coordinates: [20.46, 44.79] },
+  { country: 'Seychelles', capital: 'Victoria', aliases: [], coordinates: [55.45, -4.62] },
+  { country: 'Sierra Leone', capital: 'Freetown', aliases: [], coordinates: [-13.23, 8.48] },
+  { country: 'Singapore', capital: 'Singapore', aliases: ['Singapore City'], coordinates: [103.82, 1.35] },
+  { country: 'Slovakia', capital: 'Bratislava', aliases: [], coordinates: [17.11, 48.15] },
+  { country: 'Slovenia', capital: 'Ljubljana', aliases: [], coordinates: [14.51, 46.06] },
+  { country: 'Solomon Islands', capital: 'Honiara', aliases: [], coordinates: [159.97, -9.43] },
+  { country: 'Somalia', capital: 'Mogadishu', aliases: [], coordinates: [45.32, 2.05] },
+  { country: 'South Africa', capital: 'Pretoria', aliases: ['Cape Town', 'Bloemfontein', 'Tshwane'], coordinates: [28.19, -25.75] },
+  { country: 'South Korea', capital: 'Seoul', aliases: [], coordinates: [126.98, 37.57] },
+  { country: 'South Sudan', capital: 'Juba', aliases: [], coordinates: [31.58, 4.85] },
+  { country: 'Spain', capital: 'Madrid', aliases: [], coordinates: [-3.70, 40.42] },
+  { country: 'Sri Lanka', capital: 'Sri Jayawardenepura Kotte', aliases: ['Kotte', 'Colombo'], coordinates: [79.92, 6.89] },
+  { country: 'Sudan', capital: 'Khartoum', aliases: [], coordinates: [32.56, 15.50] },
+  { country: 'Suriname', capital: 'Paramaribo', aliases: [], coordinates: [-55.20, 5.85] },
+  { country: 'Sweden', capital: 'Stockholm', aliases: [], coordinates: [18.07, 59.33] },
+  { country: 'Switzerland', capital: 'Bern', aliases: ['Berne'], coordinates: [7.45, 46.95] },
+  { country: 'Syria', capital: 'Damascus', aliases: [], coordinates: [36.29, 33.51] },
+  { country: 'Taiwan', capital: 'Taipei', aliases: [], coordinates: [121.56, 25.03] },
+  { country: 'Tajikistan', capital: 'Dushanbe', aliases: [], coordinates: [68.79, 38.56] },
+  { country: 'Tanzania', capital: 'Dodoma', aliases: ['Dar es Salaam'], coordinates: [35.74, -6.16] },
+  { country: 'Thailand', capital: 'Bangkok', aliases: [], coordinates: [100.50, 13.76] },
+  { country: 'Timor-Leste', capital: 'Dili', aliases: [], coordinates: [125.57, -8.56] },
+  { country: 'Togo', capital: 'Lomé', aliases: [], coordinates: [1.23, 6.13] },
+  { country: 'Tonga', capital: 'Nukuʻalofa', aliases: [], coordinates: [-175.20, -21.14] },
+  { country: 'Trinidad and Tobago', capital: 'Port of Spain', aliases: [], coordinates: [-61.51, 10.66] },
+  { country: 'Tunisia', capital: 'Tunis', aliases: [], coordinates: [10.18, 36.81] },
+  { country: 'Turkey', capital: 'Ankara', aliases: [], coordinates: [32.85, 39.93] },
+  { country: 'Turkmenistan', capital: 'Ashgabat', aliases: ['Ashkhabad'], coordinates: [58.38, 37.95] },
+  { country: 'Tuvalu', capital: 'Funafuti', aliases: [], coordinates: [179.20, -8.52] },
+  { country: 'Uganda', capital: 'Kampala', aliases: [], coordinates: [32.58, 0.35] },
+  { country: 'Ukraine', capital: 'Kyiv', aliases: ['Kiev'], coordinates: [30.52, 50.45] },
+  { country: 'United Arab Emirates', capital: 'Abu Dhabi', aliases: [], coordinates: [54.37, 24.45] },
+  { country: 'United Kingdom', capital: 'London', aliases: [], coordinates: [-0.13, 51.51] },
+  { country: 'United States of America', capital: 'Washington, D.C.', aliases: ['Washington'], coordinates: [-77.04, 38.91] },
+  { country: 'Uruguay', capital: 'Montevideo', aliases: [], coordinates: [-56.16, -34.90] },
+  { country: 'Uzbekistan', capital: 'Tashkent', aliases: ['Toshkent'], coordinates: [69.24, 41.30] },
+  { country: 'Vanuatu', capital: 'Port Vila', aliases: [], coordinates: [168.32, -17.73] },
+  { country: 'Vatican City', capital: 'Vatican City', aliases: [], coordinates: [12.45, 41.90] },
+  { country: 'Venezuela', capital: 'Caracas', aliases: [], coordinates: [-66.90, 10.49] },
+  { country: 'Vietnam', capital: 'Hanoi', aliases: [], coordinates: [105.85, 21.03] },
+  { country: 'Yemen', capital: 'Sanaa', aliases: [], coordinates: [44.21, 15.37] },
+  { country: 'Zambia', capital: 'Lusaka', aliases: [], coordinates: [28.28, -15.39] },
+  { country: 'Zimbabwe', capital: 'Harare', aliases: [], coordinates: [31.05, -17.83] },
+];
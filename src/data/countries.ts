@@ -0,0 +1,253 @@
+import type { CountryRecord } from '../countryRegistry';
+
+// The 197 states the quiz asks for: 193 UN members, the two UN observer states,
+// plus Kosovo and Taiwan. `mapName` is the `properties.name` used by world-atlas.
+export const QUIZ_COUNTRY_RECORDS: CountryRecord[] = [
+  { name: 'Afghanistan', mapName: 'Afghanistan', alpha2: 'AF', alpha3: 'AFG', numericId: '004', continent: 'Asia', subregion: 'Southern Asia', status: 'sovereign', aliases: [] },
+  { name: 'Albania', mapName: 'Albania', alpha2: 'AL', alpha3: 'ALB', numericId: '008', continent: 'Europe', subregion: 'Southern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Algeria', mapName: 'Algeria', alpha2: 'DZ', alpha3: 'DZA', numericId: '012', continent: 'Africa', subregion: 'Northern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Andorra', mapName: 'Andorra', alpha2: 'AD', alpha3: 'AND', numericId: '020', continent: 'Europe', subregion: 'Southern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Angola', mapName: 'Angola', alpha2: 'AO', alpha3: 'AGO', numericId: '024', continent: 'Africa', subregion: 'Middle Africa', status: 'sovereign', aliases: [] },
+  { name: 'Antigua and Barbuda', mapName: 'Antigua and Barb.', alpha2: 'AG', alpha3: 'ATG', numericId: '028', continent: 'North America', subregion: 'Caribbean', status: 'sovereign', aliases: ['Antigua'] },
+  { name: 'Argentina', mapName: 'Argentina', alpha2: 'AR', alpha3: 'ARG', numericId: '032', continent: 'South America', subregion: 'South America', status: 'sovereign', aliases: [] },
+  { name: 'Armenia', mapName: 'Armenia', alpha2: 'AM', alpha3: 'ARM', numericId: '051', continent: 'Asia', subregion: 'Western Asia', status: 'sovereign', aliases: [] },
+  { name: 'Australia', mapName: 'Australia', alpha2: 'AU', alpha3: 'AUS', numericId: '036', continent: 'Oceania', subregion: 'Australia and New Zealand', status: 'sovereign', aliases: [] },
+  { name: 'Austria', mapName: 'Austria', alpha2: 'AT', alpha3: 'AUT', numericId: '040', continent: 'Europe', subregion: 'Western Europe', status: 'sovereign', aliases: [] },
+  { name: 'Azerbaijan', mapName: 'Azerbaijan', alpha2: 'AZ', alpha3: 'AZE', numericId: '031', continent: 'Asia', subregion: 'Western Asia', status: 'sovereign', aliases: [] },
+  { name: 'Bahamas', mapName: 'Bahamas', alpha2: 'BS', alpha3: 'BHS', numericId: '044', continent: 'North America', subregion: 'Caribbean', status: 'sovereign', aliases: ['The Bahamas'] },
+  { name: 'Bahrain', mapName: 'Bahrain', alpha2: 'BH', alpha3: 'BHR', numericId: '048', continent: 'Asia', subregion: 'Western Asia', status: 'sovereign', aliases: [] },
+  { name: 'Bangladesh', mapName: 'Bangladesh', alpha2: 'BD', alpha3: 'BGD', numericId: '050', continent: 'Asia', subregion: 'Southern Asia', status: 'sovereign', aliases: [] },
+  { name: 'Barbados', mapName: 'Barbados', alpha2: 'BB', alpha3: 'BRB', numericId: '052', continent: 'North America', subregion: 'Caribbean', status: 'sovereign', aliases: [] },
+  { name: 'Belarus', mapName: 'Belarus', alpha2: 'BY', alpha3: 'BLR', numericId: '112', continent: 'Europe', subregion: 'Eastern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Belgium', mapName: 'Belgium', alpha2: 'BE', alpha3: 'BEL', numericId: '056', continent: 'Europe', subregion: 'Western Europe', status: 'sovereign', aliases: [] },
+  { name: 'Belize', mapName: 'Belize', alpha2: 'BZ', alpha3: 'BLZ', numericId: '084', continent: 'North America', subregion: 'Central America', status: 'sovereign', aliases: [] },
+  { name: 'Benin', mapName: 'Benin', alpha2: 'BJ', alpha3: 'BEN', numericId: '204', continent: 'Africa', subregion: 'Western Africa', status: 'sovereign', aliases: [] },
+  { name: 'Bhutan', mapName: 'Bhutan', alpha2: 'BT', alpha3: 'BTN', numericId: '064', continent: 'Asia', subregion: 'Southern Asia', status: 'sovereign', aliases: [] },
+  { name: 'Bolivia', mapName: 'Bolivia', alpha2: 'BO', alpha3: 'BOL', numericId: '068', continent: 'South America', subregion: 'South America', status: 'sovereign', aliases: [] },
+  { name: 'Bosnia and Herzegovina', mapName: 'Bosnia and Herz.', alpha2: 'BA', alpha3: 'BIH', numericId: '070', continent: 'Europe', subregion: 'Southern Europe', status: 'sovereign', aliases: ['Bosnia', 'BiH'] },
+  { name: 'Botswana', mapName: 'Botswana', alpha2: 'BW', alpha3: 'BWA', numericId: '072', continent: 'Africa', subregion: 'Southern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Brazil', mapName: 'Brazil', alpha2: 'BR', alpha3: 'BRA', numericId: '076', continent: 'South America', subregion: 'South America', status: 'sovereign', aliases: [] },
+  { name: 'Brunei', mapName: 'Brunei', alpha2: 'BN', alpha3: 'BRN', numericId: '096', continent: 'Asia', subregion: 'South-eastern Asia', status: 'sovereign', aliases: ['Brunei Darussalam'] },
+  { name: 'Bulgaria', mapName: 'Bulgaria', alpha2: 'BG', alpha3: 'BGR', numericId: '100', continent: 'Europe', subregion: 'Eastern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Burkina Faso', mapName: 'Burkina Faso', alpha2: 'BF', alpha3: 'BFA', numericId: '854', continent: 'Africa', subregion: 'Western Africa', status: 'sovereign', aliases: [] },
+  { name: 'Burundi', mapName: 'Burundi', alpha2: 'BI', alpha3: 'BDI', numericId: '108', continent: 'Africa', subregion: 'Eastern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Cameroon', mapName: 'Cameroon', alpha2: 'CM', alpha3: 'CMR', numericId: '120', continent: 'Africa', subregion: 'Middle Africa', status: 'sovereign', aliases: [] },
+  { name: 'Cambodia', mapName: 'Cambodia', alpha2: 'KH', alpha3: 'KHM', numericId: '116', continent: 'Asia', subregion: 'South-eastern Asia', status: 'sovereign', aliases: [] },
+  { name: 'Canada', mapName: 'Canada', alpha2: 'CA', alpha3: 'CAN', numericId: '124', continent: 'North America', subregion: 'Northern America', status: 'sovereign', aliases: [] },
+  { name: 'Cabo Verde', mapName: 'Cabo Verde', alpha2: 'CV', alpha3: 'CPV', numericId: '132', continent: 'Africa', subregion: 'Western Africa', status: 'sovereign', aliases: ['Cape Verde'] },
+  { name: 'Central African Republic', mapName: 'Central African Rep.', alpha2: 'CF', alpha3: 'CAF', numericId: '140', continent: 'Africa', subregion: 'Middle Africa', status: 'sovereign', aliases: ['CAR'] },
+  { name: 'Chad', mapName: 'Chad', alpha2: 'TD', alpha3: 'TCD', numericId: '148', continent: 'Africa', subregion: 'Middle Africa', status: 'sovereign', aliases: [] },
+  { name: 'Chile', mapName: 'Chile', alpha2: 'CL', alpha3: 'CHL', numericId: '152', continent: 'South America', subregion: 'South America', status: 'sovereign', aliases: [] },
+  { name: 'China', mapName: 'China', alpha2: 'CN', alpha3: 'CHN', numericId: '156', continent: 'Asia', subregion: 'Eastern Asia', status: 'sovereign', aliases: ['PRC'] },
+  { name: 'Colombia', mapName: 'Colombia', alpha2: 'CO', alpha3: 'COL', numericId: '170', continent: 'South America', subregion: 'South America', status: 'sovereign', aliases: [] },
+  { name: 'Comoros', mapName: 'Comoros', alpha2: 'KM', alpha3: 'COM', numericId: '174', continent: 'Africa', subregion: 'Eastern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Republic of the Congo', mapName: 'Congo', alpha2: 'CG', alpha3: 'COG', numericId: '178', continent: 'Africa', subregion: 'Middle Africa', status: 'sovereign', aliases: ['Congo', 'Republic of Congo', 'Congo-Brazzaville'] },
+  { name: 'Costa Rica', mapName: 'Costa Rica', alpha2: 'CR', alpha3: 'CRI', numericId: '188', continent: 'North America', subregion: 'Central America', status: 'sovereign', aliases: [] },
+  { name: 'Croatia', mapName: 'Croatia', alpha2: 'HR', alpha3: 'HRV', numericId: '191', continent: 'Europe', subregion: 'Southern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Cuba', mapName: 'Cuba', alpha2: 'CU', alpha3: 'CUB', numericId: '192', continent: 'North America', subregion: 'Caribbean', status: 'sovereign', aliases: [] },
+  { name: 'Cyprus', mapName: 'Cyprus', alpha2: 'CY', alpha3: 'CYP', numericId: '196', continent: 'Europe', subregion: 'Western Asia', status: 'sovereign', aliases: [] },
+  { name: 'Czech Republic', mapName: 'Czechia', alpha2: 'CZ', alpha3: 'CZE', numericId: '203', continent: 'Europe', subregion: 'Eastern Europe', status: 'sovereign', aliases: ['Czechia'] },
+  { name: 'Democratic Republic of the Congo', mapName: 'Dem. Rep. Congo', alpha2: 'CD', alpha3: 'COD', numericId: '180', continent: 'Africa', subregion: 'Middle Africa', status: 'sovereign', aliases: ['DRC', 'DR Congo', 'Congo-Kinshasa'] },
+  { name: 'Denmark', mapName: 'Denmark', alpha2: 'DK', alpha3: 'DNK', numericId: '208', continent: 'Europe', subregion: 'Northern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Djibouti', mapName: 'Djibouti', alpha2: 'DJ', alpha3: 'DJI', numericId: '262', continent: 'Africa', subregion: 'Eastern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Dominica', mapName: 'Dominica', alpha2: 'DM', alpha3: 'DMA', numericId: '212', continent: 'North America', subregion: 'Caribbean', status: 'sovereign', aliases: [] },
+  { name: 'Dominican Republic', mapName: 'Dominican Rep.', alpha2: 'DO', alpha3: 'DOM', numericId: '214', continent: 'North America', subregion: 'Caribbean', status: 'sovereign', aliases: [] },
+  { name: 'Ecuador', mapName: 'Ecuador', alpha2: 'EC', alpha3: 'ECU', numericId: '218', continent: 'South America', subregion: 'South America', status: 'sovereign', aliases: [] },
+  { name: 'Egypt', mapName: 'Egypt', alpha2: 'EG', alpha3: 'EGY', numericId: '818', continent: 'Africa', subregion: 'Northern Africa', status: 'sovereign', aliases: [] },
+  { name: 'El Salvador', mapName: 'El Salvador', alpha2: 'SV', alpha3: 'SLV', numericId: '222', continent: 'North America', subregion: 'Central America', status: 'sovereign', aliases: [] },
+  { name: 'Equatorial Guinea', mapName: 'Eq. Guinea', alpha2: 'GQ', alpha3: 'GNQ', numericId: '226', continent: 'Africa', subregion: 'Middle Africa', status: 'sovereign', aliases: [] },
+  { name: 'Eritrea', mapName: 'Eritrea', alpha2: 'ER', alpha3: 'ERI', numericId: '232', continent: 'Africa', subregion: 'Eastern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Estonia', mapName: 'Estonia', alpha2: 'EE', alpha3: 'EST', numericId: '233', continent: 'Europe', subregion: 'Northern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Eswatini', mapName: 'eSwatini', alpha2: 'SZ', alpha3: 'SWZ', numericId: '748', continent: 'Africa', subregion: 'Southern Africa', status: 'sovereign', aliases: ['Swaziland'] },
+  { name: 'Ethiopia', mapName: 'Ethiopia', alpha2: 'ET', alpha3: 'ETH', numericId: '231', continent: 'Africa', subregion: 'Eastern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Fiji', mapName: 'Fiji', alpha2: 'FJ', alpha3: 'FJI', numericId: '242', continent: 'Oceania', subregion: 'Melanesia', status: 'sovereign', aliases: [] },
+  { name: 'Finland', mapName: 'Finland', alpha2: 'FI', alpha3: 'FIN', numericId: '246', continent: 'Europe', subregion: 'Northern Europe', status: 'sovereign', aliases: [] },
+  { name: 'France', mapName: 'France', alpha2: 'FR', alpha3: 'FRA', numericId: '250', continent: 'Europe', subregion: 'Western Europe', status: 'sovereign', aliases: [] },
+  { name: 'Gabon', mapName: 'Gabon', alpha2: 'GA', alpha3: 'GAB', numericId: '266', continent: 'Africa', subregion: 'Middle Africa', status: 'sovereign', aliases: [] },
+  { name: 'Gambia', mapName: 'Gambia', alpha2: 'GM', alpha3: 'GMB', numericId: '270', continent: 'Africa', subregion: 'Western Africa', status: 'sovereign', aliases: ['The Gambia'] },
+  { name: 'Georgia', mapName: 'Georgia', alpha2: 'GE', alpha3: 'GEO', numericId: '268', continent: 'Asia', subregion: 'Western Asia', status: 'sovereign', aliases: [] },
+  { name: 'Germany', mapName: 'Germany', alpha2: 'DE', alpha3: 'DEU', numericId: '276', continent: 'Europe', subregion: 'Western Europe', status: 'sovereign', aliases: [] },
+  { name: 'Ghana', mapName: 'Ghana', alpha2: 'GH', alpha3: 'GHA', numericId: '288', continent: 'Africa', subregion: 'Western Africa', status: 'sovereign', aliases: [] },
+  { name: 'Greece', mapName: 'Greece', alpha2: 'GR', alpha3: 'GRC', numericId: '300', continent: 'Europe', subregion: 'Southern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Grenada', mapName: 'Grenada', alpha2: 'GD', alpha3: 'GRD', numericId: '308', continent: 'North America', subregion: 'Caribbean', status: 'sovereign', aliases: [] },
+  { name: 'Guatemala', mapName: 'Guatemala', alpha2: 'GT', alpha3: 'GTM', numericId: '320', continent: 'North America', subregion: 'Central America', status: 'sovereign', aliases: [] },
+  { name: 'Guinea', mapName: 'Guinea', alpha2: 'GN', alpha3: 'GIN', numericId: '324', continent: 'Africa', subregion: 'Western Africa', status: 'sovereign', aliases: [] },
+  { name: 'Guinea-Bissau', mapName: 'Guinea-Bissau', alpha2: 'GW', alpha3: 'GNB', numericId: '624', continent: 'Africa', subregion: 'Western Africa', status: 'sovereign', aliases: [] },
+  { name: 'Guyana', mapName: 'Guyana', alpha2: 'GY', alpha3: 'GUY', numericId: '328', continent: 'South America', subregion: 'South America', status: 'sovereign', aliases: [] },
+  { name: 'Haiti', mapName: 'Haiti', alpha2: 'HT', alpha3: 'HTI', numericId: '332', continent: 'North America', subregion: 'Caribbean', status: 'sovereign', aliases: [] },
+  { name: 'Honduras', mapName: 'Honduras', alpha2: 'HN', alpha3: 'HND', numericId: '340', continent: 'North America', subregion: 'Central America', status: 'sovereign', aliases: [] },
+  { name: 'Hungary', mapName: 'Hungary', alpha2: 'HU', alpha3: 'HUN', numericId: '348', continent: 'Europe', subregion: 'Eastern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Iceland', mapName: 'Iceland', alpha2: 'IS', alpha3: 'ISL', numericId: '352', continent: 'Europe', subregion: 'Northern Europe', status: 'sovereign', aliases: [] },
+  { name: 'India', mapName: 'India', alpha2: 'IN', alpha3: 'IND', numericId: '356', continent: 'Asia', subregion: 'Southern Asia', status: 'sovereign', aliases: [] },
+  { name: 'Indonesia', mapName: 'Indonesia', alpha2: 'ID', alpha3: 'IDN', numericId: '360', continent: 'Asia', subregion: 'South-eastern Asia', status: 'sovereign', aliases: [] },
+  { name: 'Iran', mapName: 'Iran', alpha2: 'IR', alpha3: 'IRN', numericId: '364', continent: 'Asia', subregion: 'Southern Asia', status: 'sovereign', aliases: [] },
+  { name: 'Iraq', mapName: 'Iraq', alpha2: 'IQ', alpha3: 'IRQ', numericId: '368', continent: 'Asia', subregion: 'Western Asia', status: 'sovereign', aliases: [] },
+  { name: 'Ireland', mapName: 'Ireland', alpha2: 'IE', alpha3: 'IRL', numericId: '372', continent: 'Europe', subregion: 'Northern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Israel', mapName: 'Israel', alpha2: 'IL', alpha3: 'ISR', numericId: '376', continent: 'Asia', subregion: 'Western Asia', status: 'sovereign', aliases: [] },
+  { name: 'Italy', mapName: 'Italy', alpha2: 'IT', alpha3: 'ITA', numericId: '380', continent: 'Europe', subregion: 'Southern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Côte d\'Ivoire', mapName: 'Côte d\'Ivoire', alpha2: 'CI', alpha3: 'CIV', numericId: '384', continent: 'Africa', subregion: 'Western Africa', status: 'sovereign', aliases: ['Ivory Coast', 'Cote d\'Ivoire'] },
+  { name: 'Jamaica', mapName: 'Jamaica', alpha2: 'JM', alpha3: 'JAM', numericId: '388', continent: 'North America', subregion: 'Caribbean', status: 'sovereign', aliases: [] },
+  { name: 'Japan', mapName: 'Japan', alpha2: 'JP', alpha3: 'JPN', numericId: '392', continent: 'Asia', subregion: 'Eastern Asia', status: 'sovereign', aliases: [] },
+  { name: 'Jordan', mapName: 'Jordan', alpha2: 'JO', alpha3: 'JOR', numericId: '400', continent: 'Asia', subregion: 'Western Asia', status: 'sovereign', aliases: [] },
+  { name: 'Kazakhstan', mapName: 'Kazakhstan', alpha2: 'KZ', alpha3: 'KAZ', numericId: '398', continent: 'Asia', subregion: 'Central Asia', status: 'sovereign', aliases: [] },
+  { name: 'Kenya', mapName: 'Kenya', alpha2: 'KE', alpha3: 'KEN', numericId: '404', continent: 'Africa', subregion: 'Eastern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Kiribati', mapName: 'Kiribati', alpha2: 'KI', alpha3: 'KIR', numericId: '296', continent: 'Oceania', subregion: 'Micronesia', status: 'sovereign', aliases: [] },
+  { name: 'Kosovo', mapName: 'Kosovo', alpha2: 'XK', alpha3: 'XKX', numericId: null, continent: 'Europe', subregion: 'Southern Europe', status: 'partially-recognized', aliases: [] },
+  { name: 'Kuwait', mapName: 'Kuwait', alpha2: 'KW', alpha3: 'KWT', numericId: '414', continent: 'Asia', subregion: 'Western Asia', status: 'sovereign', aliases: [] },
+  { name: 'Kyrgyzstan', mapName: 'Kyrgyzstan', alpha2: 'KG', alpha3: 'KGZ', numericId: '417', continent: 'Asia', subregion: 'Central Asia', status: 'sovereign', aliases: [] },
+  { name: 'Laos', mapName: 'Laos', alpha2: 'LA', alpha3: 'LAO', numericId: '418', continent: 'Asia', subregion: 'South-eastern Asia', status: 'sovereign', aliases: [] },
+  { name: 'Latvia', mapName: 'Latvia', alpha2: 'LV', alpha3: 'LVA', numericId: '428', continent: 'Europe', subregion: 'Northern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Lebanon', mapName: 'Lebanon', alpha2: 'LB', alpha3: 'LBN', numericId: '422', continent: 'Asia', subregion: 'Western Asia', status: 'sovereign', aliases: [] },
+  { name: 'Lesotho', mapName: 'Lesotho', alpha2: 'LS', alpha3: 'LSO', numericId: '426', continent: 'Africa', subregion: 'Southern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Liberia', mapName: 'Liberia', alpha2: 'LR', alpha3: 'LBR', numericId: '430', continent: 'Africa', subregion: 'Western Africa', status: 'sovereign', aliases: [] },
+  { name: 'Libya', mapName: 'Libya', alpha2: 'LY', alpha3: 'LBY', numericId: '434', continent: 'Africa', subregion: 'Northern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Liechtenstein', mapName: 'Liechtenstein', alpha2: 'LI', alpha3: 'LIE', numericId: '438', continent: 'Europe', subregion: 'Western Europe', status: 'sovereign', aliases: [] },
+  { name: 'Lithuania', mapName: 'Lithuania', alpha2: 'LT', alpha3: 'LTU', numericId: '440', continent: 'Europe', subregion: 'Northern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Luxembourg', mapName: 'Luxembourg', alpha2: 'LU', alpha3: 'LUX', numericId: '442', continent: 'Europe', subregion: 'Western Europe', status: 'sovereign', aliases: [] },
+  { name: 'Madagascar', mapName: 'Madagascar', alpha2: 'MG', alpha3: 'MDG', numericId: '450', continent: 'Africa', subregion: 'Eastern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Malawi', mapName: 'Malawi', alpha2: 'MW', alpha3: 'MWI', numericId: '454', continent: 'Africa', subregion: 'Eastern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Malaysia', mapName: 'Malaysia', alpha2: 'MY', alpha3: 'MYS', numericId: '458', continent: 'Asia', subregion: 'South-eastern Asia', status: 'sovereign', aliases: [] },
+  { name: 'Maldives', mapName: 'Maldives', alpha2: 'MV', alpha3: 'MDV', numericId: '462', continent: 'Asia', subregion: 'Southern Asia', status: 'sovereign', aliases: [] },
+  { name: 'Mali', mapName: 'Mali', alpha2: 'ML', alpha3: 'MLI', numericId: '466', continent: 'Africa', subregion: 'Western Africa', status: 'sovereign', aliases: [] },
+  { name: 'Malta', mapName: 'Malta', alpha2: 'MT', alpha3: 'MLT', numericId: '470', continent: 'Europe', subregion: 'Southern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Marshall Islands', mapName: 'Marshall Is.', alpha2: 'MH', alpha3: 'MHL', numericId: '584', continent: 'Oceania', subregion: 'Micronesia', status: 'sovereign', aliases: [] },
+  { name: 'Mauritania', mapName: 'Mauritania', alpha2: 'MR', alpha3: 'MRT', numericId: '478', continent: 'Africa', subregion: 'Western Africa', status: 'sovereign', aliases: [] },
+  { name: 'Mauritius', mapName: 'Mauritius', alpha2: 'MU', alpha3: 'MUS', numericId: '480', continent: 'Africa', subregion: 'Eastern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Mexico', mapName: 'Mexico', alpha2: 'MX', alpha3: 'MEX', numericId: '484', continent: 'North America', subregion: 'Central America', status: 'sovereign', aliases: [] },
+  { name: 'Micronesia', mapName: 'Micronesia', alpha2: 'FM', alpha3: 'FSM', numericId: '583', continent: 'Oceania', subregion: 'Micronesia', status: 'sovereign', aliases: ['Federated States of Micronesia'] },
+  { name: 'Moldova', mapName: 'Moldova', alpha2: 'MD', alpha3: 'MDA', numericId: '498', continent: 'Europe', subregion: 'Eastern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Monaco', mapName: 'Monaco', alpha2: 'MC', alpha3: 'MCO', numericId: '492', continent: 'Europe', subregion: 'Western Europe', status: 'sovereign', aliases: [] },
+  { name: 'Mongolia', mapName: 'Mongolia', alpha2: 'MN', alpha3: 'MNG', numericId: '496', continent: 'Asia', subregion: 'Eastern Asia', status: 'sovereign', aliases: [] },
+  { name: 'Montenegro', mapName: 'Montenegro', alpha2: 'ME', alpha3: 'MNE', numericId: '499', continent: 'Europe', subregion: 'Southern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Morocco', mapName: 'Morocco', alpha2: 'MA', alpha3: 'MAR', numericId: '504', continent: 'Africa', subregion: 'Northern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Mozambique', mapName: 'Mozambique', alpha2: 'MZ', alpha3: 'MOZ', numericId: '508', continent: 'Africa', subregion: 'Eastern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Myanmar', mapName: 'Myanmar', alpha2: 'MM', alpha3: 'MMR', numericId: '104', continent: 'Asia', subregion: 'South-eastern Asia', status: 'sovereign', aliases: ['Burma'] },
+  { name: 'Namibia', mapName: 'Namibia', alpha2: 'NA', alpha3: 'NAM', numericId: '516', continent: 'Africa', subregion: 'Southern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Nauru', mapName: 'Nauru', alpha2: 'NR', alpha3: 'NRU', numericId: '520', continent: 'Oceania', subregion: 'Micronesia', status: 'sovereign', aliases: [] },
+  { name: 'Nepal', mapName: 'Nepal', alpha2: 'NP', alpha3: 'NPL', numericId: '524', continent: 'Asia', subregion: 'Southern Asia', status: 'sovereign', aliases: [] },
+  { name: 'Netherlands', mapName: 'Netherlands', alpha2: 'NL', alpha3: 'NLD', numericId: '528', continent: 'Europe', subregion: 'Western Europe', status: 'sovereign', aliases: ['Holland', 'The Netherlands'] },
+  { name: 'New Zealand', mapName: 'New Zealand', alpha2: 'NZ', alpha3: 'NZL', numericId: '554', continent: 'Oceania', subregion: 'Australia and New Zealand', status: 'sovereign', aliases: [] },
+  { name: 'Nicaragua', mapName: 'Nicaragua', alpha2: 'NI', alpha3: 'NIC', numericId: '558', continent: 'North America', subregion: 'Central America', status: 'sovereign', aliases: [] },
+  { name: 'Niger', mapName: 'Niger', alpha2: 'NE', alpha3: 'NER', numericId: '562', continent: 'Africa', subregion: 'Western Africa', status: 'sovereign', aliases: [] },
+  { name: 'Nigeria', mapName: 'Nigeria', alpha2: 'NG', alpha3: 'NGA', numericId: '566', continent: 'Africa', subregion: 'Western Africa', status: 'sovereign', aliases: [] },
+  { name: 'North Korea', mapName: 'North Korea', alpha2: 'KP', alpha3: 'PRK', numericId: '408', continent: 'Asia', subregion: 'Eastern Asia', status: 'sovereign', aliases: ['DPRK'] },
+  { name: 'North Macedonia', mapName: 'Macedonia', alpha2: 'MK', alpha3: 'MKD', numericId: '807', continent: 'Europe', subregion: 'Southern Europe', status: 'sovereign', aliases: ['Macedonia'] },
+  { name: 'Norway', mapName: 'Norway', alpha2: 'NO', alpha3: 'NOR', numericId: '578', continent: 'Europe', subregion: 'Northern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Oman', mapName: 'Oman', alpha2: 'OM', alpha3: 'OMN', numericId: '512', continent: 'Asia', subregion: 'Western Asia', status: 'sovereign', aliases: [] },
+  { name: 'Pakistan', mapName: 'Pakistan', alpha2: 'PK', alpha3: 'PAK', numericId: '586', continent: 'Asia', subregion: 'Southern Asia', status: 'sovereign', aliases: [] },
+  { name: 'Palau', mapName: 'Palau', alpha2: 'PW', alpha3: 'PLW', numericId: '585', continent: 'Oceania', subregion: 'Micronesia', status: 'sovereign', aliases: [] },
+  { name: 'Palestine', mapName: 'Palestine', alpha2: 'PS', alpha3: 'PSE', numericId: '275', continent: 'Asia', subregion: 'Western Asia', status: 'observer', aliases: ['State of Palestine'] },
+  { name: 'Panama', mapName: 'Panama', alpha2: 'PA', alpha3: 'PAN', numericId: '591', continent: 'North America', subregion: 'Central America', status: 'sovereign', aliases: [] },
+  { name: 'Papua New Guinea', mapName: 'Papua New Guinea', alpha2: 'PG', alpha3: 'PNG', numericId: '598', continent: 'Oceania', subregion: 'Melanesia', status: 'sovereign', aliases: ['PNG'] },
+  { name: 'Paraguay', mapName: 'Paraguay', alpha2: 'PY', alpha3: 'PRY', numericId: '600', continent: 'South America', subregion: 'South America', status: 'sovereign', aliases: [] },
+  { name: 'Peru', mapName: 'Peru', alpha2: 'PE', alpha3: 'PER', numericId: '604', continent: 'South America', subregion: 'South America', status: 'sovereign', aliases: [] },
+  { name: 'Philippines', mapName: 'Philippines', alpha2: 'PH', alpha3: 'PHL', numericId: '608', continent: 'Asia', subregion: 'South-eastern Asia', status: 'sovereign', aliases: [] },
+  { name: 'Poland', mapName: 'Poland', alpha2: 'PL', alpha3: 'POL', numericId: '616', continent: 'Europe', subregion: 'Eastern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Portugal', mapName: 'Portugal', alpha2: 'PT', alpha3: 'PRT', numericId: '620', continent: 'Europe', subregion: 'Southern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Qatar', mapName: 'Qatar', alpha2: 'QA', alpha3: 'QAT', numericId: '634', continent: 'Asia', subregion: 'Western Asia', status: 'sovereign', aliases: [] },
+  { name: 'Romania', mapName: 'Romania', alpha2: 'RO', alpha3: 'ROU', numericId: '642', continent: 'Europe', subregion: 'Eastern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Russia', mapName: 'Russia', alpha2: 'RU', alpha3: 'RUS', numericId: '643', continent: 'Europe', subregion: 'Eastern Europe', status: 'sovereign', aliases: ['Russian Federation'] },
+  { name: 'Rwanda', mapName: 'Rwanda', alpha2: 'RW', alpha3: 'RWA', numericId: '646', continent: 'Africa', subregion: 'Eastern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Saint Kitts and Nevis', mapName: 'St. Kitts and Nevis', alpha2: 'KN', alpha3: 'KNA', numericId: '659', continent: 'North America', subregion: 'Caribbean', status: 'sovereign', aliases: ['St Kitts and Nevis'] },
+  { name: 'Saint Lucia', mapName: 'Saint Lucia', alpha2: 'LC', alpha3: 'LCA', numericId: '662', continent: 'North America', subregion: 'Caribbean', status: 'sovereign', aliases: ['St Lucia'] },
+  { name: 'Saint Vincent and the Grenadines', mapName: 'St. Vin. and Gren.', alpha2: 'VC', alpha3: 'VCT', numericId: '670', continent: 'North America', subregion: 'Caribbean', status: 'sovereign', aliases: ['St Vincent and the Grenadines'] },
+  { name: 'Samoa', mapName: 'Samoa', alpha2: 'WS', alpha3: 'WSM', numericId: '882', continent: 'Oceania', subregion: 'Polynesia', status: 'sovereign', aliases: [] },
+  { name: 'San Marino', mapName: 'San Marino', alpha2: 'SM', alpha3: 'SMR', numericId: '674', continent: 'Europe', subregion: 'Southern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Sao Tome and Principe', mapName: 'São Tomé and Principe', alpha2: 'ST', alpha3: 'STP', numericId: '678', continent: 'Africa', subregion: 'Middle Africa', status: 'sovereign', aliases: ['São Tomé and Príncipe', 'Sao Tome'] },
+  { name: 'Saudi Arabia', mapName: 'Saudi Arabia', alpha2: 'SA', alpha3: 'SAU', numericId: '682', continent: 'Asia', subregion: 'Western Asia', status: 'sovereign', aliases: [] },
+  { name: 'Senegal', mapName: 'Senegal', alpha2: 'SN', alpha3: 'SEN', numericId: '686', continent: 'Africa', subregion: 'Western Africa', status: 'sovereign', aliases: [] },
+  { name: 'Serbia', mapName: 'Serbia', alpha2: 'RS', alpha3: 'SRB', numericId: '688', continent: 'Europe', subregion: 'Southern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Seychelles', mapName: 'Seychelles', alpha2: 'SC', alpha3: 'SYC', numericId: '690', continent: 'Africa', subregion: 'Eastern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Sierra Leone', mapName: 'Sierra Leone', alpha2: 'SL', alpha3: 'SLE', numericId: '694', continent: 'Africa', subregion: 'Western Africa', status: 'sovereign', aliases: [] },
+  { name: 'Singapore', mapName: 'Singapore', alpha2: 'SG', alpha3: 'SGP', numericId: '702', continent: 'Asia', subregion: 'South-eastern Asia', status: 'sovereign', aliases: [] },
+  { name: 'Slovakia', mapName: 'Slovakia', alpha2: 'SK', alpha3: 'SVK', numericId: '703', continent: 'Europe', subregion: 'Eastern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Slovenia', mapName: 'Slovenia', alpha2: 'SI', alpha3: 'SVN', numericId: '705', continent: 'Europe', subregion: 'Southern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Solomon Islands', mapName: 'Solomon Is.', alpha2: 'SB', alpha3: 'SLB', numericId: '090', continent: 'Oceania', subregion: 'Melanesia', status: 'sovereign', aliases: [] },
+  { name: 'Somalia', mapName: 'Somalia', alpha2: 'SO', alpha3: 'SOM', numericId: '706', continent: 'Africa', subregion: 'Eastern Africa', status: 'sovereign', aliases: [] },
+  { name: 'South Africa', mapName: 'South Africa', alpha2: 'ZA', alpha3: 'ZAF', numericId: '710', continent: 'Africa', subregion: 'Southern Africa', status: 'sovereign', aliases: [] },
+  { name: 'South Korea', mapName: 'South Korea', alpha2: 'KR', alpha3: 'KOR', numericId: '410', continent: 'Asia', subregion: 'Eastern Asia', status: 'sovereign', aliases: ['Korea'] },
+  { name: 'South Sudan', mapName: 'S. Sudan', alpha2: 'SS', alpha3: 'SSD', numericId: '728', continent: 'Africa', subregion: 'Eastern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Spain', mapName: 'Spain', alpha2: 'ES', alpha3: 'ESP', numericId: '724', continent: 'Europe', subregion: 'Southern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Sri Lanka', mapName: 'Sri Lanka', alpha2: 'LK', alpha3: 'LKA', numericId: '144', continent: 'Asia', subregion: 'Southern Asia', status: 'sovereign', aliases: [] },
+  { name: 'Sudan', mapName: 'Sudan', alpha2: 'SD', alpha3: 'SDN', numericId: '729', continent: 'Africa', subregion: 'Northern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Suriname', mapName: 'Suriname', alpha2: 'SR', alpha3: 'SUR', numericId: '740', continent: 'South America', subregion: 'South America', status: 'sovereign', aliases: [] },
+  { name: 'Sweden', mapName: 'Sweden', alpha2: 'SE', alpha3: 'SWE', numericId: '752', continent: 'Europe', subregion: 'Northern Europe', status: 'sovereign', aliases: [] },
+  { name: 'Switzerland', mapName: 'Switzerland', alpha2: 'CH', alpha3: 'CHE', numericId: '756', continent: 'Europe', subregion: 'Western Europe', status: 'sovereign', aliases: [] },
+  { name: 'Syria', mapName: 'Syria', alpha2: 'SY', alpha3: 'SYR', numericId: '760', continent: 'Asia', subregion: 'Western Asia', status: 'sovereign', aliases: [] },
+  { name: 'Taiwan', mapName: 'Taiwan', alpha2: 'TW', alpha3: 'TWN', numericId: '158', continent: 'Asia', subregion: 'Eastern Asia', status: 'partially-recognized', aliases: [] },
+  { name: 'Tajikistan', mapName: 'Tajikistan', alpha2: 'TJ', alpha3: 'TJK', numericId: '762', continent: 'Asia', subregion: 'Central Asia', status: 'sovereign', aliases: [] },
+  { name: 'Tanzania', mapName: 'Tanzania', alpha2: 'TZ', alpha3: 'TZA', numericId: '834', continent: 'Africa', subregion: 'Eastern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Thailand', mapName: 'Thailand', alpha2: 'TH', alpha3: 'THA', numericId: '764', continent: 'Asia', subregion: 'South-eastern Asia', status: 'sovereign', aliases: [] },
+  { name: 'Timor-Leste', mapName: 'Timor-Leste', alpha2: 'TL', alpha3: 'TLS', numericId: '626', continent: 'Asia', subregion: 'South-eastern Asia', status: 'sovereign', aliases: ['East Timor'] },
+  { name: 'Togo', mapName: 'Togo', alpha2: 'TG', alpha3: 'TGO', numericId: '768', continent: 'Africa', subregion: 'Western Africa', status: 'sovereign', aliases: [] },
+  { name: 'Tonga', mapName: 'Tonga', alpha2: 'TO', alpha3: 'TON', numericId: '776', continent: 'Oceania', subregion: 'Polynesia', status: 'sovereign', aliases: [] },
+  { name: 'Trinidad and Tobago', mapName: 'Trinidad and Tobago', alpha2: 'TT', alpha3: 'TTO', numericId: '780', continent: 'North America', subregion: 'Caribbean', status: 'sovereign', aliases: [] },
+  { name: 'Tunisia', mapName: 'Tunisia', alpha2: 'TN', alpha3: 'TUN', numericId: '788', continent: 'Africa', subregion: 'Northern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Turkey', mapName: 'Turkey', alpha2: 'TR', alpha3: 'TUR', numericId: '792', continent: 'Asia', subregion: 'Western Asia', status: 'sovereign', aliases: ['Türkiye'] },
+  { name: 'Turkmenistan', mapName: 'Turkmenistan', alpha2: 'TM', alpha3: 'TKM', numericId: '795', continent: 'Asia', subregion: 'Central Asia', status: 'sovereign', aliases: [] },
+  { name: 'Tuvalu', mapName: 'Tuvalu', alpha2: 'TV', alpha3: 'TUV', numericId: '798', continent: 'Oceania', subregion: 'Polynesia', status: 'sovereign', aliases: [] },
+  { name: 'Uganda', mapName: 'Uganda', alpha2: 'UG', alpha3: 'UGA', numericId: '800', continent: 'Africa', subregion: 'Eastern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Ukraine', mapName: 'Ukraine', alpha2: 'UA', alpha3: 'UKR', numericId: '804', continent: 'Europe', subregion: 'Eastern Europe', status: 'sovereign', aliases: [] },
+  { name: 'United Arab Emirates', mapName: 'United Arab Emirates', alpha2: 'AE', alpha3: 'ARE', numericId: '784', continent: 'Asia', subregion: 'Western Asia', status: 'sovereign', aliases: ['UAE', 'Emirates'] },
+  { name: 'United Kingdom', mapName: 'United Kingdom', alpha2: 'GB', alpha3: 'GBR', numericId: '826', continent: 'Europe', subregion: 'Northern Europe', status: 'sovereign', aliases: ['UK', 'Britain', 'Great Britain'] },
+  { name: 'United States of America', mapName: 'United States of America', alpha2: 'US', alpha3: 'USA', numericId: '840', continent: 'North America', subregion: 'Northern America', status: 'sovereign', aliases: ['USA', 'US', 'United States', 'America'] },
+  { name: 'Uruguay', mapName: 'Uruguay', alpha2: 'UY', alpha3: 'URY', numericId: '858', continent: 'South America', subregion: 'South America', status: 'sovereign', aliases: [] },
+  { name: 'Uzbekistan', mapName: 'Uzbekistan', alpha2: 'UZ', alpha3: 'UZB', numericId: '860', continent: 'Asia', subregion: 'Central Asia', status: 'sovereign', aliases: [] },
+  { name: 'Vanuatu', mapName: 'Vanuatu', alpha2: 'VU', alpha3: 'VUT', numericId: '548', continent: 'Oceania', subregion: 'Melanesia', status: 'sovereign', aliases: [] },
+  { name: 'Vatican City', mapName: 'Vatican', alpha2: 'VA', alpha3: 'VAT', numericId: '336', continent: 'Europe', subregion: 'Southern Europe', status: 'observer', aliases: ['Vatican', 'Holy See'] },
+  { name: 'Venezuela', mapName: 'Venezuela', alpha2: 'VE', alpha3: 'VEN', numericId: '862', continent: 'South America', subregion: 'South America', status: 'sovereign', aliases: [] },
+  { name: 'Vietnam', mapName: 'Vietnam', alpha2: 'VN', alpha3: 'VNM', numericId: '704', continent: 'Asia', subregion: 'South-eastern Asia', status: 'sovereign', aliases: ['Viet Nam'] },
+  { name: 'Yemen', mapName: 'Yemen', alpha2: 'YE', alpha3: 'YEM', numericId: '887', continent: 'Asia', subregion: 'Western Asia', status: 'sovereign', aliases: [] },
+  { name: 'Zambia', mapName: 'Zambia', alpha2: 'ZM', alpha3: 'ZMB', numericId: '894', continent: 'Africa', subregion: 'Eastern Africa', status: 'sovereign', aliases: [] },
+  { name: 'Zimbabwe', mapName: 'Zimbabwe', alpha2: 'ZW', alpha3: 'ZWE', numericId: '716', continent: 'Africa', subregion: 'Eastern Africa', status: 'sovereign', aliases: [] },
+];
+
+// Everything else world-atlas draws as its own feature. These are shown in grey
+// for context but are never asked for.
+export const TERRITORY_RECORDS: CountryRecord[] = [
+  { name: 'Northern Mariana Islands', mapName: 'N. Mariana Is.', alpha2: 'MP', alpha3: 'MNP', numericId: '580', continent: 'Oceania', subregion: 'Micronesia', status: 'territory', aliases: [] },
+  { name: 'U.S. Virgin Islands', mapName: 'U.S. Virgin Is.', alpha2: 'VI', alpha3: 'VIR', numericId: '850', continent: 'North America', subregion: 'Caribbean', status: 'territory', aliases: [] },
+  { name: 'Guam', mapName: 'Guam', alpha2: 'GU', alpha3: 'GUM', numericId: '316', continent: 'Oceania', subregion: 'Micronesia', status: 'territory', aliases: [] },
+  { name: 'American Samoa', mapName: 'American Samoa', alpha2: 'AS', alpha3: 'ASM', numericId: '016', continent: 'Oceania', subregion: 'Polynesia', status: 'territory', aliases: [] },
+  { name: 'Puerto Rico', mapName: 'Puerto Rico', alpha2: 'PR', alpha3: 'PRI', numericId: '630', continent: 'North America', subregion: 'Caribbean', status: 'territory', aliases: [] },
+  { name: 'South Georgia and the South Sandwich Islands', mapName: 'S. Geo. and the Is.', alpha2: 'GS', alpha3: 'SGS', numericId: '239', continent: 'Antarctica', subregion: 'South America', status: 'territory', aliases: [] },
+  { name: 'British Indian Ocean Territory', mapName: 'Br. Indian Ocean Ter.', alpha2: 'IO', alpha3: 'IOT', numericId: '086', continent: 'Asia', subregion: 'Eastern Africa', status: 'territory', aliases: [] },
+  { name: 'Saint Helena', mapName: 'Saint Helena', alpha2: 'SH', alpha3: 'SHN', numericId: '654', continent: 'Africa', subregion: 'Western Africa', status: 'territory', aliases: [] },
+  { name: 'Pitcairn Islands', mapName: 'Pitcairn Is.', alpha2: 'PN', alpha3: 'PCN', numericId: '612', continent: 'Oceania', subregion: 'Polynesia', status: 'territory', aliases: [] },
+  { name: 'Anguilla', mapName: 'Anguilla', alpha2: 'AI', alpha3: 'AIA', numericId: '660', continent: 'North America', subregion: 'Caribbean', status: 'territory', aliases: [] },
+  { name: 'Falkland Islands', mapName: 'Falkland Is.', alpha2: 'FK', alpha3: 'FLK', numericId: '238', continent: 'South America', subregion: 'South America', status: 'territory', aliases: [] },
+  { name: 'Cayman Islands', mapName: 'Cayman Is.', alpha2: 'KY', alpha3: 'CYM', numericId: '136', continent: 'North America', subregion: 'Caribbean', status: 'territory', aliases: [] },
+  { name: 'Bermuda', mapName: 'Bermuda', alpha2: 'BM', alpha3: 'BMU', numericId: '060', continent: 'North America', subregion: 'Northern America', status: 'territory', aliases: [] },
+  { name: 'British Virgin Islands', mapName: 'British Virgin Is.', alpha2: 'VG', alpha3: 'VGB', numericId: '092', continent: 'North America', subregion: 'Caribbean', status: 'territory', aliases: [] },
+  { name: 'Turks and Caicos Islands', mapName: 'Turks and Caicos Is.', alpha2: 'TC', alpha3: 'TCA', numericId: '796', continent: 'North America', subregion: 'Caribbean', status: 'territory', aliases: [] },
+  { name: 'Montserrat', mapName: 'Montserrat', alpha2: 'MS', alpha3: 'MSR', numericId: '500', continent: 'North America', subregion: 'Caribbean', status: 'territory', aliases: [] },
+  { name: 'Jersey', mapName: 'Jersey', alpha2: 'JE', alpha3: 'JEY', numericId: '832', continent: 'Europe', subregion: 'Northern Europe', status: 'territory', aliases: [] },
+  { name: 'Guernsey', mapName: 'Guernsey', alpha2: 'GG', alpha3: 'GGY', numericId: '831', continent: 'Europe', subregion: 'Northern Europe', status: 'territory', aliases: [] },
+  { name: 'Isle of Man', mapName: 'Isle of Man', alpha2: 'IM', alpha3: 'IMN', numericId: '833', continent: 'Europe', subregion: 'Northern Europe', status: 'territory', aliases: [] },
+  { name: 'Somaliland', mapName: 'Somaliland', alpha2: null, alpha3: null, numericId: null, continent: 'Africa', subregion: 'Eastern Africa', status: 'disputed', aliases: [] },
+  { name: 'Niue', mapName: 'Niue', alpha2: 'NU', alpha3: 'NIU', numericId: '570', continent: 'Oceania', subregion: 'Polynesia', status: 'territory', aliases: [] },
+  { name: 'Cook Islands', mapName: 'Cook Is.', alpha2: 'CK', alpha3: 'COK', numericId: '184', continent: 'Oceania', subregion: 'Polynesia', status: 'territory', aliases: [] },
+  { name: 'Aruba', mapName: 'Aruba', alpha2: 'AW', alpha3: 'ABW', numericId: '533', continent: 'North America', subregion: 'Caribbean', status: 'territory', aliases: [] },
+  { name: 'Curaçao', mapName: 'Curaçao', alpha2: 'CW', alpha3: 'CUW', numericId: '531', continent: 'North America', subregion: 'Caribbean', status: 'territory', aliases: [] },
+  { name: 'Western Sahara', mapName: 'W. Sahara', alpha2: 'EH', alpha3: 'ESH', numericId: '732', continent: 'Africa', subregion: 'Northern Africa', status: 'disputed', aliases: [] },
+  { name: 'Saint Pierre and Miquelon', mapName: 'St. Pierre and Miquelon', alpha2: 'PM', alpha3: 'SPM', numericId: '666', continent: 'North America', subregion: 'Northern America', status: 'territory', aliases: [] },
+  { name: 'Wallis and Futuna', mapName: 'Wallis and Futuna Is.', alpha2: 'WF', alpha3: 'WLF', numericId: '876', continent: 'Oceania', subregion: 'Polynesia', status: 'territory', aliases: [] },
+  { name: 'Saint Martin', mapName: 'St-Martin', alpha2: 'MF', alpha3: 'MAF', numericId: '663', continent: 'North America', subregion: 'Caribbean', status: 'territory', aliases: [] },
+  { name: 'Saint Barthélemy', mapName: 'St-Barthélemy', alpha2: 'BL', alpha3: 'BLM', numericId: '652', continent: 'North America', subregion: 'Caribbean', status: 'territory', aliases: [] },
+  { name: 'French Polynesia', mapName: 'Fr. Polynesia', alpha2: 'PF', alpha3: 'PYF', numericId: '258', continent: 'Oceania', subregion: 'Polynesia', status: 'territory', aliases: [] },
+  { name: 'New Caledonia', mapName: 'New Caledonia', alpha2: 'NC', alpha3: 'NCL', numericId: '540', continent: 'Oceania', subregion: 'Melanesia', status: 'territory', aliases: [] },
+  { name: 'French Southern and Antarctic Lands', mapName: 'Fr. S. Antarctic Lands', alpha2: 'TF', alpha3: 'ATF', numericId: '260', continent: 'Antarctica', subregion: 'Eastern Africa', status: 'territory', aliases: [] },
+  { name: 'Åland', mapName: 'Åland', alpha2: 'AX', alpha3: 'ALA', numericId: '248', continent: 'Europe', subregion: 'Northern Europe', status: 'territory', aliases: [] },
+  { name: 'Greenland', mapName: 'Greenland', alpha2: 'GL', alpha3: 'GRL', numericId: '304', continent: 'North America', subregion: 'Northern America', status: 'territory', aliases: [] },
+  { name: 'Faroe Islands', mapName: 'Faeroe Is.', alpha2: 'FO', alpha3: 'FRO', numericId: '234', continent: 'Europe', subregion: 'Northern Europe', status: 'territory', aliases: [] },
+  { name: 'Northern Cyprus', mapName: 'N. Cyprus', alpha2: null, alpha3: null, numericId: null, continent: 'Europe', subregion: 'Western Asia', status: 'disputed', aliases: [] },
+  { name: 'Macao', mapName: 'Macao', alpha2: 'MO', alpha3: 'MAC', numericId: '446', continent: 'Asia', subregion: 'Eastern Asia', status: 'territory', aliases: [] },
+  { name: 'Hong Kong', mapName: 'Hong Kong', alpha2: 'HK', alpha3: 'HKG', numericId: '344', continent: 'Asia', subregion: 'Eastern Asia', status: 'territory', aliases: [] },
+  { name: 'Indian Ocean Territories', mapName: 'Indian Ocean Ter.', alpha2: null, alpha3: null, numericId: null, continent: 'Oceania', subregion: 'Australia and New Zealand', status: 'territory', aliases: [] },
+  { name: 'Heard Island and McDonald Islands', mapName: 'Heard I. and McDonald Is.', alpha2: 'HM', alpha3: 'HMD', numericId: '334', continent: 'Antarctica', subregion: 'Australia and New Zealand', status: 'territory', aliases: [] },
+  { name: 'Norfolk Island', mapName: 'Norfolk Island', alpha2: 'NF', alpha3: 'NFK', numericId: '574', continent: 'Oceania', subregion: 'Australia and New Zealand', status: 'territory', aliases: [] },
+  { name: 'Ashmore and Cartier Islands', mapName: 'Ashmore and Cartier Is.', alpha2: null, alpha3: null, numericId: null, continent: 'Oceania', subregion: 'Australia and New Zealand', status: 'territory', aliases: [] },
+  { name: 'Siachen Glacier', mapName: 'Siachen Glacier', alpha2: null, alpha3: null, numericId: null, continent: 'Asia', subregion: 'Southern Asia', status: 'disputed', aliases: [] },
+  { name: 'Antarctica', mapName: 'Antarctica', alpha2: 'AQ', alpha3: 'ATA', numericId: '010', continent: 'Antarctica', subregion: 'Antarctica', status: 'territory', aliases: [] },
+  { name: 'Sint Maarten', mapName: 'Sint Maarten', alpha2: 'SX', alpha3: 'SXM', numericId: '534', continent: 'North America', subregion: 'Caribbean', status: 'territory', aliases: [] },
+];
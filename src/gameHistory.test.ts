@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { HISTORY_VERSION, computeStats, importHistory, loadHistory, type GameRecord } from './gameHistory';
+
+const game = (id: string, overrides: Partial<GameRecord> = {}): GameRecord => ({
+  id,
+  mode: 'neighbors',
+  finishedAt: 1_700_000_000_000,
+  durationSeconds: 60,
+  target: 'Spain',
+  guessCount: 3,
+  wrongGuesses: 1,
+  revealedCountries: [],
+  missedGuesses: ['Germany'],
+  won: true,
+  score: 27,
+  ...overrides,
+});
+
+const file = (games: unknown[]) => JSON.stringify({ version: HISTORY_VERSION, games });
+
+describe('importHistory', () => {
+  beforeEach(() => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+    });
+  });
+
+  it('merges new games and skips ones already stored', () => {
+    importHistory(file([game('a')]));
+    const result = importHistory(file([game('a'), game('b', { finishedAt: 1 })]));
+    expect(result.imported).toBe(1);
+    expect(result.rejected).toBe(0);
+    expect(result.games.map(g => g.id)).toEqual(['b', 'a']);
+  });
+
+  it('drops records with missing or mistyped fields and reports them', () => {
+    const { id, mode } = game('c');
+    const result = importHistory(file([
+      { id, mode },
+      game('d', { revealedCountries: 'France' as unknown as string[] }),
+      game('e', { mode: 'snake' as GameRecord['mode'] }),
+      game('f'),
+    ]));
+    expect(result.imported).toBe(1);
+    expect(result.rejected).toBe(3);
+    expect(() => computeStats(loadHistory())).not.toThrow();
+  });
+
+  it('rejects files that aren\'t a history', () => {
+    expect(() => importHistory('not json')).toThrow('The file is not valid JSON');
+    expect(() => importHistory(JSON.stringify({ games: [] }))).toThrow('Not a World Map Quiz history file');
+  });
+});
@@ -0,0 +1,175 @@
+import { isGameModeId, type GameModeId } from './gameModes';
+import { isClassicVariant, type ClassicVariant } from './classicVariants';
+
+// --- Finished-game history, kept in localStorage ---
+// Bump HISTORY_VERSION when GameRecord changes shape and teach migrateHistory() the old one.
+
+export const HISTORY_VERSION = 1;
+const STORAGE_KEY = 'world-map-quiz:history';
+
+export interface GameRecord {
+  id: string;
+  mode: GameModeId;
+  finishedAt: number;          // Epoch ms
+  durationSeconds: number;
+  target: string | null;       // Neighbors target, "Start → End" for Route, region ids for Classic
+  guessCount: number;          // Countries named correctly (Locate: prompts found)
+  wrongGuesses: number;
+  revealedCountries: string[]; // Given up or missed answers
+  missedGuesses: string[];     // Named countries that were wrong (not tracked in Classic)
+  won: boolean;
+  score: number;
+  variant?: ClassicVariant;    // Classic countdown/sprint games (absent = open)
+  hints?: number;              // Hints taken in Classic and Neighbors (absent = none)
+}
+
+interface StoredHistory {
+  version: number;
+  games: GameRecord[];
+}
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isNameList = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Every field computeStats() and the Stats panel read, so one bad record can't break them
+const isGameRecord = (value: unknown): value is GameRecord => {
+  const game = value as Partial<Record<keyof GameRecord, unknown>> | null;
+  return !!game && typeof game === 'object'
+    && typeof game.id === 'string'
+    && typeof game.mode === 'string' && isGameModeId(game.mode)
+    && isCount(game.finishedAt)
+    && isCount(game.durationSeconds)
+    && (game.target === null || typeof game.target === 'string')
+    && isCount(game.guessCount)
+    && isCount(game.wrongGuesses)
+    && isNameList(game.revealedCountries)
+    && isNameList(game.missedGuesses)
+    && typeof game.won === 'boolean'
+    && isCount(game.score)
+    && (game.variant === undefined || (typeof game.variant === 'string' && isClassicVariant(game.variant)))
+    && (game.hints === undefined || isCount(game.hints));
+};
+
+// Returns the valid games from any stored version and how many records were dropped,
+// or throws if the data isn't a history
+const migrateHistory = (data: unknown): { games: GameRecord[]; rejected: number } => {
+  const stored = data as Partial<StoredHistory> | null;
+  if (!stored || typeof stored.version !== 'number' || !Array.isArray(stored.games)) {
+    throw new Error('Not a World Map Quiz history file');
+  }
+  if (stored.version > HISTORY_VERSION) {
+    throw new Error(`History version ${stored.version} is newer than this app supports`);
+  }
+  // Version 1 is the current shape
+  const games = (stored.games as unknown[]).filter(isGameRecord);
+  return { games, rejected: stored.games.length - games.length };
+};
+
+export const loadHistory = (): GameRecord[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? migrateHistory(JSON.parse(raw)).games : [];
+  } catch (err) {
+    console.error('Failed to read game history', err);
+    return [];
+  }
+};
+
+const saveHistory = (games: GameRecord[]): void => {
+  try {
+    const stored: StoredHistory = { version: HISTORY_VERSION, games };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (err) {
+    console.error('Failed to save game history', err);
+  }
+};
+
+export const recordGame = (game: Omit<GameRecord, 'id' | 'finishedAt'>): GameRecord[] => {
+  const finishedAt = Date.now();
+  const record: GameRecord = { ...game, id: `${finishedAt}-${Math.random().toString(36).slice(2, 8)}`, finishedAt };
+  const games = [...loadHistory(), record];
+  saveHistory(games);
+  return games;
+};
+
+export const exportHistory = (games: GameRecord[]): string => {
+  const stored: StoredHistory = { version: HISTORY_VERSION, games };
+  return JSON.stringify(stored, null, 2);
+};
+
+export interface ImportResult {
+  games: GameRecord[]; // The whole history after the import
+  imported: number;    // New games added
+  rejected: number;    // Records in the file that weren't valid games
+}
+
+// Merges an exported file into the stored history (games already present and invalid
+// records are skipped). Throws with a readable message when the file can't be used.
+export const importHistory = (json: string): ImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const { games: valid, rejected } = migrateHistory(data);
+  const existing = loadHistory();
+  const known = new Set(existing.map(game => game.id));
+  const added = valid.filter(game => !known.has(game.id));
+  const games = [...existing, ...added].sort((a, b) => a.finishedAt - b.finishedAt);
+  saveHistory(games);
+  return { games, imported: added.length, rejected };
+};
+
+// --- Stats ---
+
+export interface HistoryStats {
+  gamesPlayed: number;
+  bestClassicSeconds: number | null;   // Fastest whole-world open Classic game with nothing revealed or hinted
+  currentStreak: number;               // Consecutive wins, most recent first
+  bestStreak: number;
+  totalScoreByMode: Partial<Record<GameModeId, number>>;
+  mostForgotten: { country: string; count: number }[];
+  hardestNeighborRounds: GameRecord[];
+}
+
+const TOP_LIST_LENGTH = 10;
+
+export const computeStats = (games: GameRecord[]): HistoryStats => {
+  const ordered = [...games].sort((a, b) => a.finishedAt - b.finishedAt);
+
+  let currentStreak = 0;
+  let bestStreak = 0;
+  ordered.forEach(game => {
+    currentStreak = game.won ? currentStreak + 1 : 0;
+    bestStreak = Math.max(bestStreak, currentStreak);
+  });
+
+  // Only clean whole-world games without a time limit or sprint goal count towards the best time
+  const classicTimes = ordered
+    .filter(game => game.mode === 'classic' && game.won && game.target === null && !game.variant && !game.hints)
+    .map(game => game.durationSeconds);
+
+  const totalScoreByMode: Partial<Record<GameModeId, number>> = {};
+  const forgotten = new Map<string, number>();
+  ordered.forEach(game => {
+    totalScoreByMode[game.mode] = (totalScoreByMode[game.mode] ?? 0) + game.score;
+    game.revealedCountries.forEach(country => forgotten.set(country, (forgotten.get(country) ?? 0) + 1));
+  });
+
+  return {
+    gamesPlayed: ordered.length,
+    bestClassicSeconds: classicTimes.length ? Math.min(...classicTimes) : null,
+    currentStreak,
+    bestStreak,
+    totalScoreByMode,
+    mostForgotten: Array.from(forgotten, ([country, count]) => ({ country, count }))
+      .sort((a, b) => b.count - a.count || a.country.localeCompare(b.country))
+      .slice(0, TOP_LIST_LENGTH),
+    hardestNeighborRounds: ordered
+      .filter(game => game.mode === 'neighbors' && game.wrongGuesses > 0)
+      .sort((a, b) => b.wrongGuesses - a.wrongGuesses)
+      .slice(0, TOP_LIST_LENGTH),
+  };
+};
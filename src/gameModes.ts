@@ -0,0 +1,8 @@
+// Every game mode the app can be in (also the `mode` query parameter of challenge links)
+export const GAME_MODE_IDS = ['classic', 'capitals', 'neighbors', 'locate', 'route', 'chain', 'silhouette', 'mystery', 'practice'] as const;
+
+export type GameModeId = typeof GAME_MODE_IDS[number];
+
+export const isGameModeId = (value: string): value is GameModeId => {
+  return (GAME_MODE_IDS as readonly string[]).includes(value);
+};
@@ -0,0 +1,19 @@
+export type GuessResult = 'unknown' | 'duplicate' | 'correct' | 'wrong';
+
+export interface GuessFeedback {
+  result: GuessResult;
+  input: string;
+  country: string | null; // The resolved country, null when the input wasn't recognised
+  message?: string;       // Overrides the default wording (e.g. capitals mode)
+}
+
+// Short message shown next to the input and announced to screen readers
+export const describeFeedback = ({ result, input, country, message }: GuessFeedback): string => {
+  if (message) return message;
+  switch (result) {
+    case 'unknown': return `"${input.trim()}" isn't a country we know`;
+    case 'duplicate': return `${country} is already guessed`;
+    case 'correct': return `${country} is correct`;
+    case 'wrong': return `${country} is not a neighbor`;
+  }
+};
@@ -0,0 +1,92 @@
+import { getCountryByName } from './countryRegistry';
+import { pickRandom, type RandomSource } from './random';
+
+// --- Hints (Classic and Neighbors) ---
+// Each hint is about one answer that hasn't been found (the hint country) and gives away
+// a little more than the last: continent, length, first letter, then its outline on the map.
+// Once a country has been outlined (or found), the next hint starts on another one.
+
+export type HintTier = 'continent' | 'letterCount' | 'firstLetter' | 'outline';
+
+export const CLASSIC_HINT_TIERS: HintTier[] = ['continent', 'letterCount', 'firstLetter', 'outline'];
+// The neighbours all sit around the target, so the continent says nothing
+export const NEIGHBOR_HINT_TIERS: HintTier[] = ['letterCount', 'firstLetter', 'outline'];
+
+// Points taken off the score for each hint
+export const HINT_PENALTY: Record<HintTier, number> = {
+  continent: 1,
+  letterCount: 2,
+  firstLetter: 3,
+  outline: 5,
+};
+
+export interface Hint {
+  tier: HintTier;
+  country: string;
+  text: string;   // Everything known about the country so far
+}
+
+export const hintPenalty = (hints: Hint[]): number => {
+  return hints.reduce((total, hint) => total + HINT_PENALTY[hint.tier], 0);
+};
+
+// Countries whose outline has been given away
+export const outlinedCountries = (hints: Hint[]): Set<string> => {
+  return new Set(hints.filter(hint => hint.tier === 'outline').map(hint => hint.country));
+};
+
+// "11 letters" / "13 letters in 2 words"
+const describeLength = (country: string): string => {
+  const letters = country.replace(/[^\p{L}]/gu, '').length;
+  const words = country.split(/[\s-]+/).filter(Boolean).length;
+  return words > 1 ? `${letters} letters in ${words} words` : `${letters} letters`;
+};
+
+const describeTier = (tier: HintTier, country: string): string => {
+  switch (tier) {
+    case 'continent': return `in ${getCountryByName(country)?.continent ?? 'an unknown continent'}`;
+    case 'letterCount': return describeLength(country);
+    case 'firstLetter': return `starts with "${country[0]}"`;
+    case 'outline': return 'outlined on the map';
+  }
+};
+
+// One of the remaining countries, from the continent with the most of them left when
+// the first tier is the continent
+const pickHintCountry = (tiers: HintTier[], remaining: string[], random: RandomSource): string | undefined => {
+  if (tiers[0] !== 'continent') return pickRandom([...remaining].sort(), random);
+  const byContinent = new Map<string, string[]>();
+  remaining.forEach(country => {
+    const continent = getCountryByName(country)?.continent ?? '';
+    byContinent.set(continent, [...(byContinent.get(continent) ?? []), country]);
+  });
+  const largest = Array.from(byContinent.values()).reduce((a, b) => (b.length > a.length ? b : a), []);
+  return pickRandom([...largest].sort(), random);
+};
+
+// The hint after `hints`, or null when there's nothing left to hint at
+export const nextHint = (
+  tiers: HintTier[],
+  hints: Hint[],
+  remaining: string[],
+  random: RandomSource = Math.random,
+): Hint | null => {
+  const last = hints.at(-1);
+  const lastIndex = last ? tiers.indexOf(last.tier) : -1;
+  const outlined = outlinedCountries(hints);
+
+  let country: string | undefined;
+  let index = 0;
+  if (last && remaining.includes(last.country) && lastIndex < tiers.length - 1) {
+    country = last.country;
+    index = lastIndex + 1;
+  } else {
+    const candidates = remaining.filter(c => !outlined.has(c));
+    country = pickHintCountry(tiers, candidates, random);
+  }
+  if (!country) return null;
+
+  const known = tiers.slice(0, index + 1).map(tier => describeTier(tier, country));
+  const text = known.join(', ');
+  return { tier: tiers[index], country, text: text[0].toUpperCase() + text.slice(1) };
+};
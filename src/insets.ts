@@ -0,0 +1,29 @@
+// --- Inset boxes for countries too small to see on the world map ---
+// Each inset is drawn at its own scale next to the main map (see MapInsets.tsx).
+
+export interface MapInset {
+  id: string;
+  label: string;
+  countries: string[]; // Registry display names
+}
+
+export const MAP_INSETS: MapInset[] = [
+  {
+    id: 'lesser-antilles',
+    label: 'Lesser Antilles',
+    countries: [
+      'Antigua and Barbuda', 'Saint Kitts and Nevis', 'Dominica', 'Saint Lucia',
+      'Saint Vincent and the Grenadines', 'Grenada', 'Barbados', 'Trinidad and Tobago',
+    ],
+  },
+  {
+    id: 'pacific',
+    label: 'Pacific Islands',
+    countries: ['Palau', 'Micronesia', 'Marshall Islands', 'Nauru', 'Kiribati', 'Tuvalu', 'Samoa', 'Tonga'],
+  },
+  {
+    id: 'european-microstates',
+    label: 'European Microstates',
+    countries: ['Andorra', 'Monaco', 'Liechtenstein', 'San Marino', 'Vatican City', 'Malta'],
+  },
+];
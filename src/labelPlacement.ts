@@ -0,0 +1,261 @@
+import * as d3 from 'd3';
+import type { Position } from 'geojson';
+import type { CountryFeature } from './mapHelpers';
+import { toDisplayName } from './countryRegistry';
+
+// --- Where country labels and dots go ---
+// Anchors are the pole of inaccessibility of each country's largest polygon (the inland
+// point farthest from its coast), worked out once per feature in [lon, lat] so they hold in
+// every projection. Overlapping labels are then shifted, called out with a leader line or
+// hidden, per zoom step.
+
+interface Cell {
+  x: number;
+  y: number;
+  half: number;      // Half the cell's side
+  distance: number;  // From the cell centre to the polygon edge (negative outside)
+  best: number;      // The most any point in the cell could reach
+}
+
+// Signed distance from a point to the polygon's edges (rings = outer ring + holes)
+const distanceToPolygon = (x: number, y: number, rings: Position[][]): number => {
+  let inside = false;
+  let minSquared = Infinity;
+
+  rings.forEach(ring => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [ax, ay] = ring[i];
+      const [bx, by] = ring[j];
+      if ((ay > y) !== (by > y) && x < ((bx - ax) * (y - ay)) / (by - ay) + ax) inside = !inside;
+
+      // Squared distance to the segment
+      let px = bx;
+      let py = by;
+      let dx = ax - bx;
+      let dy = ay - by;
+      if (dx !== 0 || dy !== 0) {
+        const t = ((x - bx) * dx + (y - by) * dy) / (dx * dx + dy * dy);
+        if (t > 1) {
+          px = ax;
+          py = ay;
+        } else if (t > 0) {
+          px += dx * t;
+          py += dy * t;
+        }
+      }
+      dx = x - px;
+      dy = y - py;
+      minSquared = Math.min(minSquared, dx * dx + dy * dy);
+    }
+  });
+
+  return (inside ? 1 : -1) * Math.sqrt(minSquared);
+};
+
+const makeCell = (x: number, y: number, half: number, rings: Position[][]): Cell => {
+  const distance = distanceToPolygon(x, y, rings);
+  return { x, y, half, distance, best: distance + half * Math.SQRT2 };
+};
+
+// Pole of inaccessibility of a planar polygon, to within `precision` (polylabel's
+// grid refinement: keep splitting the cells that could still beat the best so far)
+export const poleOfInaccessibility = (rings: Position[][], precision: number): [number, number] => {
+  const [outer] = rings;
+  const xs = outer.map(point => point[0]);
+  const ys = outer.map(point => point[1]);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const width = Math.max(...xs) - minX;
+  const height = Math.max(...ys) - minY;
+  const cellSize = Math.min(width, height);
+  if (cellSize === 0) return [minX, minY];
+
+  const queue: Cell[] = [];
+  const half = cellSize / 2;
+  for (let x = minX; x < minX + width; x += cellSize) {
+    for (let y = minY; y < minY + height; y += cellSize) {
+      queue.push(makeCell(x + half, y + half, half, rings));
+    }
+  }
+
+  let best = makeCell(minX + width / 2, minY + height / 2, 0, rings);
+  while (queue.length > 0) {
+    // Most promising cell first
+    let index = 0;
+    queue.forEach((cell, i) => { if (cell.best > queue[index].best) index = i; });
+    const [cell] = queue.splice(index, 1);
+
+    if (cell.distance > best.distance) best = cell;
+    if (cell.best - best.distance <= precision) continue;
+
+    const quarter = cell.half / 2;
+    queue.push(
+      makeCell(cell.x - quarter, cell.y - quarter, quarter, rings),
+      makeCell(cell.x + quarter, cell.y - quarter, quarter, rings),
+      makeCell(cell.x - quarter, cell.y + quarter, quarter, rings),
+      makeCell(cell.x + quarter, cell.y + quarter, quarter, rings),
+    );
+  }
+
+  return [best.x, best.y];
+};
+
+// Pole of a [lon, lat] polygon. Longitudes are squeezed by cos(latitude) so distances are
+// roughly true, and unwrapped if the polygon crosses the antimeridian.
+const geoPole = (rings: Position[][]): [number, number] => {
+  const lons = rings[0].map(point => point[0]);
+  const wraps = Math.max(...lons) - Math.min(...lons) > 180;
+  const lats = rings[0].map(point => point[1]);
+  const squeeze = Math.cos(((Math.max(...lats) + Math.min(...lats)) / 2) * Math.PI / 180);
+
+  const planar = rings.map(ring => ring.map(([lon, lat]) => [(wraps && lon < 0 ? lon + 360 : lon) * squeeze, lat]));
+  const extent = Math.max(Math.max(...lons) - Math.min(...lons), Math.max(...lats) - Math.min(...lats));
+  const [x, y] = poleOfInaccessibility(planar, Math.max(0.01, extent / 100));
+
+  const lon = x / squeeze;
+  return [lon > 180 ? lon - 360 : lon, y];
+};
+
+const anchorCache = new WeakMap<CountryFeature, [number, number]>();
+
+// Where a country's dot and label go, as [lon, lat]
+export const geoAnchor = (feature: CountryFeature): [number, number] => {
+  const cached = anchorCache.get(feature);
+  if (cached) return cached;
+
+  const { geometry } = feature;
+  let anchor: [number, number];
+  if (geometry.type === 'Polygon') {
+    anchor = geoPole(geometry.coordinates);
+  } else if (geometry.type === 'MultiPolygon') {
+    const areas = geometry.coordinates.map(coordinates => d3.geoArea({ type: 'Polygon', coordinates }));
+    anchor = geoPole(geometry.coordinates[areas.indexOf(Math.max(...areas))]);
+  } else {
+    anchor = d3.geoCentroid(feature);
+  }
+  anchorCache.set(feature, anchor);
+  return anchor;
+};
+
+// --- Collision avoidance ---
+
+export interface LabelPlacement {
+  dx: number;        // Screen px from the anchor to the label's centre
+  dy: number;
+  leader: boolean;   // Draw a line back to the anchor
+  hidden: boolean;
+}
+
+// Label box for the 0.7rem bold labels
+const LABEL_FONT_PX = 11.2;
+const CHAR_WIDTH = 7; // Estimate where text can't be measured
+const LABEL_HEIGHT = 13;
+const LABEL_GAP = 2;
+// Countries smaller than this on screen (px²) always get a callout
+const CALLOUT_AREA = 40;
+const CALLOUT_DISTANCE = 22;
+// Nudges tried before giving up on sitting next to the anchor (in label heights)
+const NUDGES: [number, number][] = [[0, 0], [0, -1], [0, 1]];
+// Callout directions, most natural first
+const CALLOUT_DIRECTIONS: [number, number][] = [
+  [1, -1], [-1, -1], [1, 1], [-1, 1], [0, -1], [0, 1], [1, 0], [-1, 0],
+];
+// Layouts are computed per zoom step (four per doubling) so small zooms don't reshuffle labels
+const ZOOM_STEPS_PER_DOUBLING = 4;
+
+// Width of a label as drawn (the display name, not the atlas's abbreviated one), measured
+// once per name in the page's font
+const labelWidths = new Map<string, number>();
+let measureContext: CanvasRenderingContext2D | null | undefined;
+const labelWidth = (name: string): number => {
+  let width = labelWidths.get(name);
+  if (width === undefined) {
+    const text = toDisplayName(name);
+    if (measureContext === undefined) {
+      measureContext = typeof document === 'undefined' ? null : document.createElement('canvas').getContext('2d');
+      if (measureContext) measureContext.font = `bold ${LABEL_FONT_PX}px ${getComputedStyle(document.body).fontFamily}`;
+    }
+    width = measureContext ? measureContext.measureText(text).width : text.length * CHAR_WIDTH;
+    labelWidths.set(name, width);
+  }
+  return width;
+};
+
+interface Site {
+  point: [number, number] | null; // Projected anchor at zoom 1 (null on the far side of the globe)
+  area: number;                   // Projected area at zoom 1
+}
+
+// Label layout for one projection. Sites and layouts are cached, so make a new one
+// whenever the projection changes (the globe does on every turn).
+export const createLabelLayout = (projection: d3.GeoProjection, isVisible: (point: [number, number]) => boolean) => {
+  const pathGenerator = d3.geoPath(projection);
+  const sites = new Map<CountryFeature, Site>();
+  const layouts = new Map<string, Map<string, LabelPlacement>>();
+
+  const siteOf = (feature: CountryFeature): Site => {
+    let site = sites.get(feature);
+    if (!site) {
+      const anchor = geoAnchor(feature);
+      site = {
+        point: isVisible(anchor) ? projection(anchor) : null,
+        area: pathGenerator.area(feature),
+      };
+      sites.set(feature, site);
+    }
+    return site;
+  };
+
+  // Placement of every labelled country at zoom `scale`, keyed by feature name
+  const layout = (features: CountryFeature[], scale: number): Map<string, LabelPlacement> => {
+    const step = Math.round(Math.log2(scale) * ZOOM_STEPS_PER_DOUBLING);
+    const key = `${step}|${features.map(f => f.properties.name).join('|')}`;
+    const cached = layouts.get(key);
+    if (cached) return cached;
+
+    const k = 2 ** (step / ZOOM_STEPS_PER_DOUBLING);
+    const placed: { x0: number; y0: number; x1: number; y1: number }[] = [];
+    const fits = (x: number, y: number, width: number) => {
+      const box = { x0: x - width / 2, y0: y - LABEL_HEIGHT / 2, x1: x + width / 2, y1: y + LABEL_HEIGHT / 2 };
+      if (placed.some(other => box.x0 < other.x1 && other.x0 < box.x1 && box.y0 < other.y1 && other.y0 < box.y1)) return false;
+      placed.push(box);
+      return true;
+    };
+
+    // Big countries claim their spot first
+    const placements = new Map<string, LabelPlacement>();
+    const bySize = [...features].sort((a, b) => siteOf(b).area - siteOf(a).area);
+    bySize.forEach(feature => {
+      const { point, area } = siteOf(feature);
+      const name = feature.properties.name;
+      if (!point) {
+        placements.set(name, { dx: 0, dy: 0, leader: false, hidden: true });
+        return;
+      }
+      const x = point[0] * k;
+      const y = point[1] * k;
+      const width = labelWidth(name) + LABEL_GAP * 2;
+
+      const nudges = area * k * k < CALLOUT_AREA ? [] : NUDGES.map(([nx, ny]) => [nx, ny * (LABEL_HEIGHT + LABEL_GAP)]);
+      const nudge = nudges.find(([dx, dy]) => fits(x + dx, y + dy, width));
+      if (nudge) {
+        placements.set(name, { dx: nudge[0], dy: nudge[1], leader: false, hidden: false });
+        return;
+      }
+
+      const callout = CALLOUT_DIRECTIONS
+        .map(([ux, uy]) => [ux * (CALLOUT_DISTANCE + width / 2), uy * CALLOUT_DISTANCE])
+        .find(([dx, dy]) => fits(x + dx, y + dy, width));
+      placements.set(name, callout
+        ? { dx: callout[0], dy: callout[1], leader: true, hidden: false }
+        : { dx: 0, dy: 0, leader: false, hidden: true });
+    });
+
+    layouts.set(key, placements);
+    return placements;
+  };
+
+  return { siteOf, layout };
+};
+
+export type LabelLayout = ReturnType<typeof createLabelLayout>;
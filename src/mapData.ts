@@ -0,0 +1,71 @@
+import * as d3 from 'd3';
+import type { Feature, MultiPolygon } from 'geojson';
+import type { Topology } from 'topojson-specification';
+// Bundled with the app so the game works without internet access
+import countriesUrl from 'world-atlas/countries-50m.json?url';
+import tuvaluUrl from './data/tuvalu-10m.json?url';
+
+export type TuvaluFeature = Feature<MultiPolygon, { name: string }>;
+
+export interface MapDataBundle {
+  topology: Topology;
+  // Tuvalu is too small in the 50m data, so we swap in the 10m geometry
+  tuvalu: TuvaluFeature;
+}
+
+const DB_NAME = 'world-map-quiz';
+const STORE_NAME = 'map-data';
+const CACHE_KEY = 'countries-50m';
+
+// --- IndexedDB cache helpers ---
+// Every failure here is swallowed: the cache is a nice-to-have, never a reason to fail loading.
+const openCache = (): Promise<IDBDatabase | null> => new Promise(resolve => {
+  if (typeof indexedDB === 'undefined') return resolve(null);
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => resolve(null);
+});
+
+const readCache = async (): Promise<MapDataBundle | null> => {
+  const db = await openCache();
+  if (!db) return null;
+  return new Promise(resolve => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(CACHE_KEY);
+    request.onsuccess = () => resolve((request.result as MapDataBundle | undefined) ?? null);
+    request.onerror = () => resolve(null);
+  });
+};
+
+const writeCache = async (bundle: MapDataBundle): Promise<void> => {
+  const db = await openCache();
+  if (!db) return;
+  try {
+    db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(bundle, CACHE_KEY);
+  } catch {
+    // Quota exceeded or private mode - ignore
+  }
+};
+
+/**
+ * Loads the 50m world topology and the 10m Tuvalu geometry from the bundled assets.
+ * Successful loads are cached in IndexedDB; if the assets can't be fetched we fall back
+ * to that cache and only reject when neither source has the data.
+ */
+export const loadMapData = async ({ useCache = true } = {}): Promise<MapDataBundle> => {
+  try {
+    const [topology, tuvalu] = await Promise.all([
+      d3.json<Topology>(countriesUrl),
+      d3.json<TuvaluFeature>(tuvaluUrl),
+    ]);
+    if (!topology || !tuvalu) throw new Error('Map data is empty');
+
+    const bundle = { topology, tuvalu };
+    if (useCache) writeCache(bundle);
+    return bundle;
+  } catch (err) {
+    const cached = useCache ? await readCache() : null;
+    if (cached) return cached;
+    throw err;
+  }
+};
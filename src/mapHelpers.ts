@@ -1,40 +1,197 @@
+import * as d3 from 'd3';
 import * as topojson from 'topojson-client';
+import type { Feature, FeatureCollection, Geometry } from 'geojson';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import { toDisplayName, isQuizCountry } from './countryRegistry';
 
-// Helper to clean up names (matching your existing map logic)
-export const normalizeName = (name: string) => {
-  const NAME_MAP: { [key: string]: string } = {
-    'United States of America': 'United States',
-    'Dem. Rep. Congo': 'Democratic Republic of the Congo',
-    'Congo': 'Republic of the Congo',
-    'S. Sudan': 'South Sudan',
-    'Central African Rep.': 'Central African Republic',
-    // ... add any other specific overrides from your list here
-  };
-  return NAME_MAP[name] || name;
-};
-
-export const buildAdjacencyList = (topology: any) => {
+export const buildAdjacencyList = (topology: Topology) => {
   const neighborMap = new Map<string, string[]>();
   
   // Get the raw geometry objects
-  const geometries = topology.objects.countries.geometries;
+  const { geometries } = topology.objects.countries as GeometryCollection<{ name: string }>;
   
   // TopoJSON does the math for us
   const neighborsIndices = topojson.neighbors(geometries);
 
-  geometries.forEach((geo: any, index: number) => {
-    const countryName = normalizeName(geo.properties.name);
-    
+  // Display names by geometry index (null geometries have no properties)
+  const names = geometries.map(geo => toDisplayName(geo.properties && 'name' in geo.properties ? geo.properties.name : ''));
+
+  names.forEach((countryName, index) => {
     // Get the indices of neighbors, map them to names
     const neighborNames = neighborsIndices[index]
-      .map((nIndex: number) => normalizeName(geometries[nIndex].properties.name))
-      .filter((n: string) => n !== countryName); // Remove self
+      .map(nIndex => names[nIndex])
+      .filter(n => n !== countryName) // Remove self
+      .filter(isQuizCountry); // Territories can't be guessed, so they can't count as neighbors
 
-    // Only add if it has neighbors (filters out isolated islands)
-    if (neighborNames.length > 0) {
+    // Only add quiz countries with neighbors (filters out isolated islands)
+    if (isQuizCountry(countryName) && neighborNames.length > 0) {
       neighborMap.set(countryName, neighborNames);
     }
   });
 
   return neighborMap;
-};
\ No newline at end of file
+};
+const EARTH_RADIUS_KM = 6371;
+
+// Spherical centroid of every country feature, keyed by display name
+export type CountryFeature = Feature<Geometry, { name: string }>;
+
+export const buildCentroids = (topology: Topology, extraFeatures: CountryFeature[] = []) => {
+  const centroids = new Map<string, [number, number]>();
+  const countries = topology.objects.countries as GeometryCollection<{ name: string }>;
+  const { features } = topojson.feature(topology, countries) as FeatureCollection<Geometry, { name: string }>;
+
+  [...features, ...extraFeatures].forEach(feature => {
+    centroids.set(toDisplayName(feature.properties.name), d3.geoCentroid(feature));
+  });
+
+  return centroids;
+};
+
+// Every quiz country's feature, keyed by display name (`extraFeatures` replace same-named ones)
+export const buildCountryShapes = (topology: Topology, extraFeatures: CountryFeature[] = []) => {
+  const shapes = new Map<string, CountryFeature>();
+  const countries = topology.objects.countries as GeometryCollection<{ name: string }>;
+  const { features } = topojson.feature(topology, countries) as FeatureCollection<Geometry, { name: string }>;
+
+  [...features, ...extraFeatures].forEach(feature => {
+    const name = toDisplayName(feature.properties.name);
+    if (isQuizCountry(name)) shapes.set(name, feature);
+  });
+
+  return shapes;
+};
+
+// Great-circle distance in km between two [lon, lat] points
+export const distanceKm = (a: [number, number], b: [number, number]): number => {
+  return d3.geoDistance(a, b) * EARTH_RADIUS_KM;
+};
+
+// Initial great-circle bearing from `a` to `b` ([lon, lat]), in degrees clockwise from north
+export const bearingDegrees = (a: [number, number], b: [number, number]): number => {
+  const [lon1, lat1, lon2, lat2] = [a[0], a[1], b[0], b[1]].map(d => d * Math.PI / 180);
+  const y = Math.sin(lon2 - lon1) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(lon2 - lon1);
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+};
+
+export const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'] as const;
+export type CompassPoint = typeof COMPASS_POINTS[number];
+
+export const compassPoint = (bearing: number): CompassPoint => COMPASS_POINTS[Math.round(bearing / 45) % 8];
+
+// 100 at the same point, 0 at the far side of the globe
+export const proximityPercent = (distance: number): number => {
+  return Math.round(100 * Math.max(0, 1 - distance / (Math.PI * EARTH_RADIUS_KM)));
+};
+
+// --- Neighbor graph search ---
+
+// Breadth-first hop counts from `start`. If `allowed` is given, only those countries are walked.
+export const bfsDistances = (
+  neighborMap: Map<string, string[]>,
+  start: string,
+  allowed?: Set<string>
+): Map<string, number> => {
+  const distances = new Map<string, number>([[start, 0]]);
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    (neighborMap.get(current) || []).forEach(next => {
+      if (distances.has(next) || (allowed && !allowed.has(next))) return;
+      distances.set(next, distances.get(current)! + 1);
+      queue.push(next);
+    });
+  }
+
+  return distances;
+};
+
+// Every country lying on at least one shortest path between start and end (ends included)
+export const nodesOnShortestPaths = (neighborMap: Map<string, string[]>, start: string, end: string): Set<string> => {
+  const fromStart = bfsDistances(neighborMap, start);
+  const fromEnd = bfsDistances(neighborMap, end);
+  const total = fromStart.get(end);
+  const nodes = new Set<string>();
+  if (total === undefined) return nodes;
+
+  fromStart.forEach((distance, country) => {
+    if (distance + (fromEnd.get(country) ?? Infinity) === total) nodes.add(country);
+  });
+  return nodes;
+};
+
+// One shortest path from start to end (ends included), or [] if they aren't connected
+export const findShortestPath = (neighborMap: Map<string, string[]>, start: string, end: string): string[] => {
+  const fromEnd = bfsDistances(neighborMap, end);
+  if (!fromEnd.has(start)) return [];
+
+  // Walk downhill towards `end`, one hop at a time
+  const path = [start];
+  while (path[path.length - 1] !== end) {
+    const current = path[path.length - 1];
+    const next = (neighborMap.get(current) || []).find(n => fromEnd.get(n) === fromEnd.get(current)! - 1)!;
+    path.push(next);
+  }
+  return path;
+};
+
+// Longest chain of bordering countries from start that never revisits one (start included).
+// That's the longest-path problem, so the depth-first search stops after `maxSteps` and
+// `complete` says whether it got to check every chain. The next country with the most
+// still reachable from it is tried first (fewest ways on breaks ties), which finds long
+// chains early, and branches that couldn't beat the best so far even by visiting
+// everything still reachable are skipped.
+export const longestChain = (
+  neighborMap: Map<string, string[]>,
+  start: string,
+  maxSteps = 3000
+): { chain: string[]; complete: boolean } => {
+  const chain = [start];
+  const visited = new Set([start]);
+  let best = [start];
+  let steps = 0;
+
+  const onward = (country: string) => (neighborMap.get(country) || []).filter(n => !visited.has(n));
+  // Countries reachable from `country` (itself included) without going through the chain
+  const reachable = (country: string) => {
+    const seen = new Set([country]);
+    const queue = [country];
+    for (let i = 0; i < queue.length; i++) {
+      (neighborMap.get(queue[i]) || []).forEach(next => {
+        if (seen.has(next) || visited.has(next)) return;
+        seen.add(next);
+        queue.push(next);
+      });
+    }
+    return seen.size;
+  };
+
+  const extend = () => {
+    if (++steps > maxSteps) return;
+    const last = chain[chain.length - 1];
+    if (chain.length > best.length) best = [...chain];
+    if (chain.length + reachable(last) - 1 <= best.length) return;
+
+    const next = onward(last)
+      .map(country => {
+        visited.add(country);
+        const option = { country, room: reachable(country), exits: onward(country).length };
+        visited.delete(country);
+        return option;
+      })
+      .sort((a, b) => b.room - a.room || a.exits - b.exits || a.country.localeCompare(b.country));
+    for (const { country } of next) {
+      chain.push(country);
+      visited.add(country);
+      extend();
+      visited.delete(country);
+      chain.pop();
+      if (steps > maxSteps) return;
+    }
+  };
+
+  extend();
+  return { chain: best, complete: steps <= maxSteps };
+};
@@ -0,0 +1,205 @@
+import * as d3 from 'd3';
+import type { FeatureCollection, GeometryObject } from 'geojson';
+import { ALL_RECORDS, isQuizCountry, toDisplayName } from './countryRegistry';
+import type { CountryFeature } from './mapHelpers';
+import { createProjection, isGlobe, type MapProjectionId } from './projections';
+import type { CountryStyle, MapFill } from './mapView';
+import type { MapPalette } from './themes';
+
+// --- Shared by the SVG and Canvas map renderers ---
+
+export interface MapData {
+  countries: FeatureCollection<GeometryObject, { name: string }>;
+  land: FeatureCollection<GeometryObject, { name?: string }>;
+}
+
+export const MAP_RENDERERS = ['svg', 'canvas'] as const;
+export type MapRenderer = typeof MAP_RENDERERS[number];
+
+const RENDERER_STORAGE_KEY = 'world-map-quiz:renderer';
+
+// World-atlas features that aren't part of the quiz (Greenland, Antarctica, ...)
+export const TERRITORIES = new Set(
+  ALL_RECORDS.filter(record => !isQuizCountry(record.name)).map(record => record.mapName)
+);
+
+// Padding around a region when the projection is fitted to it
+const REGION_PADDING = 30;
+// Opacity of countries outside the selected region
+export const OUT_OF_REGION_OPACITY = 0.35;
+
+// Countries smaller than this (in steradians, roughly 2 square degrees) get an enlarged hit target
+export const SMALL_COUNTRY_AREA = 6e-4;
+export const HIT_RADIUS = 10; // Screen px
+
+// Guessed, revealed and off-route countries are patterned as well as coloured, so their
+// state never depends on hue alone
+export type FillPattern = 'hatch' | 'crosshatch' | 'dots';
+export const FILL_PATTERNS: Partial<Record<MapFill, FillPattern>> = {
+  found: 'hatch',
+  missed: 'crosshatch',
+  offRoute: 'dots',
+};
+export const PATTERN_SIZE = 6; // Screen px per pattern tile
+export const PATTERN_DOT_RADIUS = 1.2;
+
+// Lines of one pattern tile (overshooting the corners so neighbouring tiles join up)
+export const patternPath = (pattern: Exclude<FillPattern, 'dots'>): string => {
+  const s = PATTERN_SIZE;
+  const hatch = `M0,${s} L${s},0 M-1,1 L1,-1 M${s - 1},${s + 1} L${s + 1},${s - 1}`;
+  return pattern === 'hatch' ? hatch : `${hatch} M0,0 L${s},${s} M-1,${s - 1} L1,${s + 1} M${s - 1},-1 L${s + 1},1`;
+};
+
+// Colour of a 'proximity' fill, along the palette's cold-to-warm ramp
+export const proximityColor = (palette: MapPalette, proximity: number): string => {
+  return d3.interpolateRgbBasis(palette.proximityRamp)(Math.max(0, Math.min(1, proximity)));
+};
+
+// (Re)draws the patterns into an SVG's <defs> and returns the fill for a country's style.
+// `idPrefix` keeps the ids unique when several SVGs share the page.
+export const drawFillPatterns = (
+  defs: d3.Selection<SVGDefsElement, unknown, null, undefined>,
+  palette: MapPalette,
+  idPrefix: string,
+): ((style: CountryStyle) => string) => {
+  defs.selectAll('pattern.fill-pattern').remove();
+  (Object.keys(FILL_PATTERNS) as MapFill[]).forEach(fill => {
+    const kind = FILL_PATTERNS[fill]!;
+    const pattern = defs.append('pattern')
+      .attr('class', 'fill-pattern')
+      .attr('id', `${idPrefix}-${fill}`)
+      .attr('patternUnits', 'userSpaceOnUse')
+      .attr('width', PATTERN_SIZE)
+      .attr('height', PATTERN_SIZE);
+    pattern.append('rect')
+      .attr('width', PATTERN_SIZE)
+      .attr('height', PATTERN_SIZE)
+      .attr('fill', palette.fills[fill]);
+    if (kind === 'dots') {
+      pattern.append('circle')
+        .attr('cx', PATTERN_SIZE / 2)
+        .attr('cy', PATTERN_SIZE / 2)
+        .attr('r', PATTERN_DOT_RADIUS)
+        .attr('fill', palette.hatch);
+    } else {
+      pattern.append('path')
+        .attr('d', patternPath(kind))
+        .attr('stroke', palette.hatch)
+        .attr('stroke-width', 1);
+    }
+  });
+  return ({ fill, proximity }) => {
+    if (fill === 'proximity') return proximityColor(palette, proximity ?? 0);
+    return FILL_PATTERNS[fill] ? `url(#${idPrefix}-${fill})` : palette.fills[fill];
+  };
+};
+
+// Projection fitted to a width × height surface: the whole world, or just the region's countries.
+// `regionFitted` is false when there's no region (or none of it is on the map).
+export const fitProjection = (
+  id: MapProjectionId,
+  countries: CountryFeature[],
+  regionCountries: Set<string> | null,
+  width: number,
+  height: number,
+): { projection: d3.GeoProjection; regionFitted: boolean } => {
+  const globe = isGlobe(id);
+  const projection = createProjection(id);
+  const regionFeatures = regionCountries
+    ? countries.filter(f => regionCountries.has(toDisplayName(f.properties.name)))
+    : [];
+
+  if (regionFeatures.length > 0) {
+    const region: d3.ExtendedFeatureCollection = { type: 'FeatureCollection', features: regionFeatures };
+    // The globe turns to face the region before it's fitted
+    if (globe) {
+      const [lon, lat] = d3.geoCentroid(region);
+      projection.rotate([-lon, -lat]);
+    }
+    projection.fitExtent([[REGION_PADDING, REGION_PADDING], [width - REGION_PADDING, height - REGION_PADDING]], region);
+  } else {
+    projection.fitSize([width, height], globe ? { type: 'Sphere' } : { type: 'FeatureCollection', features: countries });
+  }
+  return { projection, regionFitted: regionFeatures.length > 0 };
+};
+
+// Screen size of a focused country → zoom scale. Tiny countries get less padding so they don't fill the screen.
+export const focusScale = (dx: number, dy: number, width: number, height: number): number => {
+  const area = dx * dy;
+  let paddingFactor = 0.4;
+  if (area < 0.5) paddingFactor = 0.02;
+  else if (area < 5) paddingFactor = 0.1;
+
+  const autoScale = paddingFactor / Math.max(dx / width, dy / height);
+  return Math.max(1.5, Math.min(60, autoScale));
+};
+
+// Tween that turns the globe to `rotation`, the short way round
+export const turnTween = (projection: d3.GeoProjection, rotation: [number, number]) => () => {
+  const [lambda, phi] = projection.rotate();
+  const delta = ((((rotation[0] - lambda) % 360) + 540) % 360) - 180;
+  const interpolate = d3.interpolate([lambda, phi], [lambda + delta, rotation[1]]);
+  return (t: number) => {
+    projection.rotate(interpolate(t) as [number, number]);
+  };
+};
+
+// Brings `center` ([lon, lat]) to the middle of the surface, zoomed by how big `target` looks
+// at zoom 1. Flat maps pan; the globe turns (the zoom tween then redraws it).
+export const moveTo = (
+  surface: Element,
+  zoom: d3.ZoomBehavior<Element, unknown>,
+  projection: d3.GeoProjection,
+  globe: boolean,
+  target: d3.GeoPermissibleObjects,
+  center: [number, number],
+  scaleFor: (dx: number, dy: number) => number,
+  { width, height }: { width: number; height: number },
+) => {
+  const transition = d3.select(surface).transition().duration(800).ease(d3.easeCubicInOut);
+
+  if (globe) {
+    const rotation: [number, number] = [-center[0], -center[1]];
+    // Measure it as it will look once it faces us
+    const facing = createProjection('globe')
+      .rotate(rotation)
+      .scale(projection.scale() / d3.zoomTransform(surface).k)
+      .translate(projection.translate());
+    const [[x0, y0], [x1, y1]] = d3.geoPath(facing).bounds(target);
+    transition
+      .tween('rotate', turnTween(projection, rotation))
+      .call(zoom.transform, d3.zoomIdentity.scale(scaleFor(x1 - x0, y1 - y0)));
+    return;
+  }
+
+  const [[x0, y0], [x1, y1]] = d3.geoPath(projection).bounds(target);
+  const [centerX, centerY] = projection(center) ?? [(x0 + x1) / 2, (y0 + y1) / 2];
+  const targetScale = scaleFor(x1 - x0, y1 - y0);
+  transition.call(
+    zoom.transform,
+    d3.zoomIdentity
+      .translate(width / 2 - targetScale * centerX, height / 2 - targetScale * centerY)
+      .scale(targetScale)
+  );
+};
+
+export const isMapRenderer = (value: unknown): value is MapRenderer => {
+  return MAP_RENDERERS.includes(value as MapRenderer);
+};
+
+export const loadRenderer = (): MapRenderer => {
+  try {
+    const stored = localStorage.getItem(RENDERER_STORAGE_KEY);
+    return isMapRenderer(stored) ? stored : 'svg';
+  } catch {
+    return 'svg';
+  }
+};
+
+export const saveRenderer = (renderer: MapRenderer): void => {
+  try {
+    localStorage.setItem(RENDERER_STORAGE_KEY, renderer);
+  } catch {
+    // Storage unavailable - the choice lasts for this session
+  }
+};
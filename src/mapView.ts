@@ -0,0 +1,49 @@
+import type { CapitalRecord } from './countryRegistry';
+
+// --- What a game mode wants the map to show ---
+// Each mode turns its game state into a MapView; WorldMap applies it without knowing
+// which mode it came from.
+
+// What a country is, in colour terms; the theme (themes.ts) decides how each one looks
+export type MapFill =
+  | 'land'
+  | 'notInQuiz'   // Territories, and countries outside the selected region
+  | 'found'
+  | 'missed'
+  | 'highlight'   // Targets, endpoints and prompts
+  | 'offRoute'
+  | 'proximity';  // Shaded from cold to warm by `proximity`
+
+export type LabelKind =
+  | 'normal'
+  | 'missed'
+  | 'revealed'      // Answers shown after giving up
+  | 'onHighlight';  // Dark text on gold
+
+export type LineKind =
+  | 'chain'   // The chain being built (Chain mode)
+  | 'best';   // The longest chain there was, shown at the end
+
+// Drawn across the map through lon/lat points
+export interface MapLine {
+  kind: LineKind;
+  points: [number, number][];
+}
+
+export interface CountryStyle {
+  fill: MapFill;
+  proximity?: number;         // 0 (far) to 1 (on target), for the 'proximity' fill
+  hidden?: boolean;           // Not drawn at all (modes that only show what's in play)
+  flash?: boolean;            // Pulses a few times (Locate and Practice answers, Neighbors hints)
+  dot?: boolean;              // Red "still to find" dot
+  label?: LabelKind | null;   // Name shown on the country
+}
+
+export interface MapView {
+  styleCountry: (country: string) => CountryStyle; // Called with registry display names
+  capitalMarkers?: CapitalRecord[];
+  lines?: MapLine[];
+  focusCountry?: string | null;      // Zoomed to whenever it changes
+  frameCountries?: string[] | null;  // Zoomed to fit together whenever they change
+  onCountryClick?: (country: string) => void; // Also fired by the enlarged hit targets and insets
+}
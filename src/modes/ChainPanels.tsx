@@ -0,0 +1,93 @@
+import type { ChainGame } from '../useChainGame';
+import type { ModePanelProps } from './types';
+
+// --- CHAIN SIDEBAR ---
+export const ChainSidebar = ({ game: chainGame, onFocusCountry, onHoverCountry }: ModePanelProps<ChainGame>) => {
+  const over = chainGame.gameStatus === 'stuck' || chainGame.gameStatus === 'gaveUp';
+  return (
+    <>
+      <h3>Chain Mode</h3>
+      {chainGame.lastCountry ? (
+        <div className="neighbor-stats">
+          <div className="target-card">
+            <span className="label">{over ? 'Ended at:' : 'Name a country bordering:'}</span>
+            <h2 className="target-name">{chainGame.lastCountry}</h2>
+          </div>
+
+          <div className="progress-card">
+            <span className="label">Chain length:</span>
+            <div className="score-big">
+              {chainGame.score}
+              {over && chainGame.longestReady && <span className="total"> / {chainGame.bestScore} {chainGame.longestComplete ? 'longest' : 'longest found'}</span>}
+              {over && !chainGame.longestReady && <span className="total"> / searching…</span>}
+            </div>
+            <span className="label">Wrong guesses: {chainGame.wrongGuesses}</span>
+          </div>
+
+          {chainGame.gameStatus === 'stuck' && (
+            <div className="win-message">
+              No way on from {chainGame.lastCountry}. Score: {chainGame.score}
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="empty-state">Start a round, then keep naming a country that borders the last one.</p>
+      )}
+
+      {chainGame.chain.length > 0 && (
+        <div className="found-section">
+          <h4>Your Chain</h4>
+          <div className="found-list">
+            {chainGame.chain.map(c => (
+              <span
+                key={c}
+                className="found-item"
+                onClick={() => onFocusCountry(c)}
+                onMouseEnter={() => onHoverCountry(c)}
+                onMouseLeave={() => onHoverCountry(null)}
+              >
+                {c}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {over && chainGame.longest.length > 1 && (
+        <div className="remaining-section">
+          <h4>{chainGame.longestComplete ? 'Longest Chain' : 'Longest Chain Found'}</h4>
+          <div className="remaining-list">
+            {chainGame.longest.map(c => (
+              <span key={c} className={chainGame.chain.includes(c) ? 'found-item' : 'revealed-item'}>{c}</span>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+// --- CHAIN CONTROLS ---
+export const ChainControls = ({ game: chainGame, renderInput, clearInput, onStart }: ModePanelProps<ChainGame>) => {
+  return (
+    <>
+      <button className="start-btn" onClick={onStart}>
+        {chainGame.gameStatus === 'idle' ? 'Start Game' : 'New Round'}
+      </button>
+
+      {renderInput({
+        placeholder: 'Name a bordering country, press Enter...',
+        disabled: chainGame.gameStatus !== 'playing',
+      })}
+
+      {chainGame.gameStatus === 'playing' && (
+        <button className="give-up-btn" onClick={() => {
+          chainGame.giveUp();
+          clearInput();
+        }}>
+          Give Up
+        </button>
+      )}
+    </>
+  );
+};
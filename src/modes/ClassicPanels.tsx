@@ -0,0 +1,125 @@
+import { getCapital } from '../countryRegistry';
+import { computeScore } from '../scoring';
+import { formatTime } from '../formatting';
+import { describeRegions } from '../regions';
+import { CLASSIC_VARIANTS, describeVariant } from '../classicVariants';
+import { hintPenalty } from '../hints';
+import RegionPicker from '../RegionPicker';
+import { HintControls } from './HintControls';
+import type { ModePanelProps } from './types';
+import type { ClassicModeGame } from './classicMode';
+
+// --- CLASSIC / CAPITALS SIDEBAR ---
+export const ClassicSidebar = ({ game: classic, onFocusCountry, onHoverCountry }: ModePanelProps<ClassicModeGame>) => {
+  const { mode, game, target, regionFilter, variant, countries, timeLimitMs } = classic;
+  const { guessCount, guessedOrder, revealedCountries, wrongGuesses, hints } = game;
+
+  return (
+    <>
+      <h3>Guessed ({guessCount}/{target})</h3>
+      {regionFilter.length > 0 && <p className="timer">Region: {describeRegions(regionFilter)}</p>}
+      {variant !== 'open' && <p className="timer">{describeVariant(variant, countries.length)}</p>}
+      {timeLimitMs !== null ? (
+        <p className="timer">
+          {game.status === 'timeUp' ? "Time's up!" : `Time left: ${formatTime(Math.ceil((timeLimitMs - game.elapsedMs) / 1000))}`}
+        </p>
+      ) : (
+        <p className="timer">Time: {formatTime(Math.floor(game.elapsedMs / 1000))}</p>
+      )}
+      <p className="timer">
+        Wrong: {wrongGuesses}
+        {hints.length > 0 && ` · Hints: ${hints.length}`}
+        {' · '}Score: {computeScore(guessCount - revealedCountries.length, wrongGuesses, hintPenalty(hints))}
+      </p>
+      {mode === 'capitals' && classic.capitalPrompt && (
+        <p className="timer">Name the capital of the highlighted country</p>
+      )}
+      <div className="countries-list">
+        {guessedOrder.map((country, index) => (
+          <div
+            key={country}
+            className="country-item learning-item"
+            onClick={() => onFocusCountry(country)}
+            onMouseEnter={() => onHoverCountry(country)}
+            onMouseLeave={() => onHoverCountry(null)}
+            style={{
+              color: revealedCountries.includes(country) ? 'var(--danger)' : 'inherit',
+              fontWeight: revealedCountries.includes(country) ? 'bold' : 'normal'
+            }}
+          >
+            {index + 1}. {mode === 'capitals' ? `${getCapital(country)?.capital} — ${country}` : country}
+          </div>
+        ))}
+      </div>
+      {guessCount === 0 && (
+        <p className="empty-state">{mode === 'capitals' ? 'Start guessing capitals...' : 'Start guessing countries...'}</p>
+      )}
+    </>
+  );
+};
+
+// --- CLASSIC / CAPITALS CONTROLS ---
+export const ClassicControls = ({ game: classic, renderInput, focusInput, submitOnEnter, onStart }: ModePanelProps<ClassicModeGame>) => {
+  const { mode, game, target, countries, variant, capitalsReverse } = classic;
+  const gameEnded = game.status === 'gaveUp' || game.status === 'timeUp';
+  const isGameComplete = game.status === 'complete';
+
+  return (
+    <>
+      {(game.status === 'idle' || gameEnded || isGameComplete) && (
+        <>
+          <RegionPicker selected={classic.regionFilter} onChange={classic.onRegionChange} />
+          <select
+            className="variant-select"
+            aria-label="Timer"
+            value={variant}
+            onChange={(e) => classic.onVariantChange(e.target.value)}
+          >
+            {CLASSIC_VARIANTS.map(option => (
+              <option key={option} value={option}>{describeVariant(option, countries.length)}</option>
+            ))}
+          </select>
+        </>
+      )}
+      {game.status === 'idle' ? (
+        <button className="start-btn" onClick={onStart}>Start Game</button>
+      ) : gameEnded ? (
+        <button className="start-btn" onClick={onStart}>Start New Game</button>
+      ) : (
+        <>
+          {renderInput({
+            placeholder: `${mode === 'capitals' ? 'Enter a capital' : 'Enter a country'}${submitOnEnter ? ', press Enter...' : '...'}`,
+            disabled: game.paused,
+          })}
+          {!isGameComplete && (
+            <button className={`pause-btn ${game.paused ? 'active' : ''}`} aria-pressed={game.paused} onClick={() => { classic.onTogglePause(); focusInput(); }}>
+              {game.paused ? 'Resume' : 'Pause'}
+            </button>
+          )}
+          {mode === 'classic' && !isGameComplete && (
+            <HintControls
+              hints={game.hints}
+              remaining={countries.filter(country => !game.guessedCountries[country])}
+              disabled={game.paused}
+              onHint={game.hint}
+            />
+          )}
+          {mode === 'capitals' && capitalsReverse && (
+            <button className="start-btn" onClick={classic.onSkipPrompt}>Skip</button>
+          )}
+          <button className="give-up-btn" onClick={classic.onGiveUp}>Give Up</button>
+        </>
+      )}
+      {mode === 'capitals' && (
+        <button
+          className={`hard-mode-btn ${capitalsReverse ? 'active' : ''}`}
+          aria-pressed={capitalsReverse}
+          onClick={() => { classic.onToggleReverse(); focusInput(); }}
+        >
+          Reverse
+        </button>
+      )}
+      <div className="guess-counter">({game.guessCount}/{target})</div>
+    </>
+  );
+};
@@ -0,0 +1,28 @@
+import type { Hint } from '../hints';
+
+interface HintControlsProps {
+  hints: Hint[];
+  remaining: string[];    // Answers not found yet; hints about found ones are no longer shown
+  disabled?: boolean;
+  onHint: () => void;
+}
+
+// --- HINT BUTTON (Classic and Neighbors) ---
+export const HintControls = ({ hints, remaining, disabled, onHint }: HintControlsProps) => {
+  const latest = hints.at(-1);
+  return (
+    <>
+      <button
+        className="hint-btn"
+        onClick={onHint}
+        disabled={disabled || remaining.length === 0}
+        title="Each hint costs points, more the more it gives away"
+      >
+        Hint
+      </button>
+      <span className="hint-text" role="status">
+        {latest && remaining.includes(latest.country) ? latest.text : ''}
+      </span>
+    </>
+  );
+};
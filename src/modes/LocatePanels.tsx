@@ -0,0 +1,64 @@
+import { MAX_LOCATE_ATTEMPTS, type LocateGame } from '../useLocateGame';
+import type { ModePanelProps } from './types';
+
+// --- LOCATE SIDEBAR ---
+export const LocateSidebar = ({ game: locateGame, onFocusCountry, onHoverCountry }: ModePanelProps<LocateGame>) => {
+  return (
+    <>
+      <h3>Locate Mode</h3>
+      {locateGame.currentPrompt ? (
+        <div className="neighbor-stats">
+          <div className="target-card">
+            <span className="label">Find:</span>
+            <h2 className="target-name">{locateGame.currentPrompt}</h2>
+          </div>
+
+          <div className="progress-card">
+            <span className="label">
+              Prompt {locateGame.promptIndex + 1} / {locateGame.prompts.length} · Attempt {Math.min(locateGame.attempts + 1, MAX_LOCATE_ATTEMPTS)} / {MAX_LOCATE_ATTEMPTS}
+            </span>
+            <div className="score-big">{locateGame.score}</div>
+          </div>
+
+          {locateGame.lastClick && locateGame.lastClick.distanceKm > 0 && (
+            <p className="empty-state">
+              That's {locateGame.lastClick.country}, {Math.round(locateGame.lastClick.distanceKm).toLocaleString()} km away
+            </p>
+          )}
+        </div>
+      ) : locateGame.gameStatus === 'finished' ? (
+        <div className="win-message">
+          Round complete: {locateGame.score} points
+        </div>
+      ) : (
+        <p className="empty-state">Start a round, then click the country we name.</p>
+      )}
+
+      {locateGame.results.length > 0 && (
+        <div className="countries-list">
+          {locateGame.results.map((result, index) => (
+            <div
+              key={result.country}
+              className="country-item learning-item"
+              onClick={() => onFocusCountry(result.country)}
+              onMouseEnter={() => onHoverCountry(result.country)}
+              onMouseLeave={() => onHoverCountry(null)}
+              style={{ color: result.found ? 'inherit' : 'var(--danger)' }}
+            >
+              {index + 1}. {result.country}: {result.points} pts
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+// --- LOCATE CONTROLS ---
+export const LocateControls = ({ game: locateGame, onStart }: ModePanelProps<LocateGame>) => {
+  return (
+    <button className="start-btn" onClick={onStart}>
+      {locateGame.gameStatus === 'idle' ? 'Start Game' : 'New Round'}
+    </button>
+  );
+};
@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import type { GameModeId } from '../gameModes';
+import type { MapView } from '../mapView';
+import WorldMap, { type WorldMapProps } from '../WorldMap';
+import type { PanelContext } from './types';
+import { GAME_MODES, mapViewFor, mapViewInputsFor, type ModeGames } from './registry';
+
+interface ModePanelsProps<Id extends GameModeId> extends PanelContext {
+  mode: Id;
+  games: ModeGames;
+}
+
+interface ModeMapProps extends Omit<WorldMapProps, 'view'> {
+  mode: GameModeId;
+  games: ModeGames;
+}
+
+// The current mode's map view, kept from the last render unless one of its inputs changed
+const useModeMapView = (mode: GameModeId, games: ModeGames): MapView => {
+  const inputs = [mode, ...mapViewInputsFor(mode, games)];
+  const [built, setBuilt] = useState(() => ({ inputs, view: mapViewFor(mode, games) }));
+  const changed = inputs.length !== built.inputs.length || inputs.some((input, i) => input !== built.inputs[i]);
+  if (!changed) return built.view;
+  const next = { inputs, view: mapViewFor(mode, games) };
+  setBuilt(next);
+  return next.view;
+};
+
+// The world map, drawn the way the current mode wants it
+export const ModeMap = ({ mode, games, ...mapProps }: ModeMapProps) => {
+  return <WorldMap view={useModeMapView(mode, games)} {...mapProps} />;
+};
+
+// The current mode's sidebar
+export const ModeSidebar = <Id extends GameModeId>({ mode, games, ...context }: ModePanelsProps<Id>) => {
+  const { Sidebar } = GAME_MODES[mode];
+  return <Sidebar game={games[mode]} {...context} />;
+};
+
+// Whatever the current mode draws over the map, if anything
+export const ModeStage = <Id extends GameModeId>({ mode, games, ...context }: ModePanelsProps<Id>) => {
+  const { Stage } = GAME_MODES[mode];
+  return Stage ? <Stage game={games[mode]} {...context} /> : null;
+};
+
+// Screen-reader announcements for the current mode (progress, results, timer milestones)
+export const ModeAnnouncer = <Id extends GameModeId>({ mode, games }: { mode: Id; games: ModeGames }) => {
+  return (
+    <div className="sr-only" role="status" aria-live="polite">
+      {GAME_MODES[mode].announce(games[mode])}
+    </div>
+  );
+};
+
+// The current mode's own controls (App adds the shared ones)
+export const ModeControls = <Id extends GameModeId>({ mode, games, ...context }: ModePanelsProps<Id>) => {
+  const { Controls } = GAME_MODES[mode];
+  return <Controls game={games[mode]} {...context} />;
+};
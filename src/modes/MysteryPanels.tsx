@@ -0,0 +1,96 @@
+import { compassPoint } from '../mapHelpers';
+import { MAX_MYSTERY_GUESSES, type MysteryGame } from '../useMysteryGame';
+import type { ModePanelProps } from './types';
+
+// --- MYSTERY SIDEBAR ---
+export const MysterySidebar = ({ game: mysteryGame, onFocusCountry, onHoverCountry }: ModePanelProps<MysteryGame>) => {
+  const over = mysteryGame.gameStatus === 'won' || mysteryGame.gameStatus === 'lost';
+  return (
+    <>
+      <h3>Mystery Mode</h3>
+      {mysteryGame.target ? (
+        <div className="neighbor-stats">
+          <div className="target-card">
+            <span className="label">Mystery country:</span>
+            <h2 className="target-name">{over ? mysteryGame.target : '???'}</h2>
+          </div>
+
+          <div className="progress-card">
+            <span className="label">Guesses:</span>
+            <div className="score-big">
+              {mysteryGame.guesses.length}
+              <span className="total"> / {MAX_MYSTERY_GUESSES}</span>
+            </div>
+          </div>
+
+          {mysteryGame.gameStatus === 'won' && (
+            <div className="win-message">
+              🎉 Found in {mysteryGame.guesses.length}! Score: {mysteryGame.score}
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="empty-state">Start a round, then name countries to close in on the hidden one.</p>
+      )}
+
+      {mysteryGame.guesses.length > 0 && (
+        <div className="countries-list">
+          {mysteryGame.guesses.map((guess, index) => (
+            <div
+              key={guess.country}
+              className="country-item learning-item mystery-guess"
+              onClick={() => onFocusCountry(guess.country)}
+              onMouseEnter={() => onHoverCountry(guess.country)}
+              onMouseLeave={() => onHoverCountry(null)}
+            >
+              <span>{index + 1}. {guess.country}</span>
+              {guess.distanceKm > 0 ? (
+                <span className="mystery-clue">
+                  {Math.round(guess.distanceKm).toLocaleString()} km
+                  <span
+                    className="bearing-arrow"
+                    role="img"
+                    aria-label={compassPoint(guess.bearing)}
+                    style={{ transform: `rotate(${guess.bearing}deg)` }}
+                  >
+                    ↑
+                  </span>
+                  {guess.proximity}%
+                </span>
+              ) : (
+                <span className="mystery-clue">🎉</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+// --- MYSTERY CONTROLS ---
+export const MysteryControls = ({ game: mysteryGame, renderInput, clearInput, onStart }: ModePanelProps<MysteryGame>) => {
+  return (
+    <>
+      <button className="start-btn" onClick={onStart}>
+        {mysteryGame.gameStatus === 'idle' ? 'Start Game' : 'New Round'}
+      </button>
+
+      {renderInput({
+        placeholder: 'Guess a country, press Enter...',
+        disabled: mysteryGame.gameStatus !== 'playing',
+      })}
+
+      {mysteryGame.gameStatus === 'playing' && (
+        <button className="give-up-btn" onClick={() => {
+          mysteryGame.giveUp();
+          clearInput();
+        }}>
+          Give Up
+        </button>
+      )}
+
+      <div className="guess-counter">({mysteryGame.guessesLeft} left)</div>
+    </>
+  );
+};
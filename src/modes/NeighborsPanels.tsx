@@ -0,0 +1,128 @@
+import type { NeighborGame } from '../useNeighborGame';
+import type { ModePanelProps } from './types';
+import { HintControls } from './HintControls';
+
+// --- NEIGHBORS SIDEBAR ---
+export const NeighborsSidebar = ({ game: neighborGame }: ModePanelProps<NeighborGame>) => {
+  return (
+    <>
+      <h3>Neighbors Mode</h3>
+      {neighborGame.targetCountry ? (
+        <div className="neighbor-stats">
+           <div className="target-card">
+              <span className="label">Target Country:</span>
+              <h2 className="target-name">
+                {neighborGame.isHardMode ? "???" : neighborGame.targetCountry}
+              </h2>
+           </div>
+
+           <div className="progress-card">
+              <span className="label">Progress:</span>
+              <div className="score-big">
+                {neighborGame.foundNeighbors.length}
+                <span className="total"> / {neighborGame.targetNeighbors.length || '?'}</span>
+              </div>
+              <span className="label">
+                Wrong: {neighborGame.wrongGuesses}
+                {neighborGame.hints.length > 0 && ` · Hints: ${neighborGame.hints.length}`}
+                {' · '}Score: {neighborGame.score}
+              </span>
+           </div>
+
+           {neighborGame.gameStatus === 'won' && (
+             <div className="win-message">
+               🎉 All Neighbors Found!
+             </div>
+           )}
+        </div>
+      ) : (
+        <p className="empty-state">Start a round to play.</p>
+      )}
+
+      {/* Found Neighbors List */}
+      {neighborGame.foundNeighbors.length > 0 && (
+        <div className="found-section">
+           <h4>Found Neighbors</h4>
+           <div className="found-list">
+             {neighborGame.foundNeighbors.map((c: string) => (
+               <span key={c} className="found-item">{c}</span>
+             ))}
+           </div>
+        </div>
+      )}
+
+      {/* Remaining Neighbors List */}
+      {neighborGame.gaveUp && neighborGame.gameStatus !== 'won' && (
+        (() => {
+          const unrevealed = neighborGame.targetNeighbors.filter(n => !neighborGame.foundNeighbors.includes(n) && !neighborGame.revealedByGiveUp.includes(n));
+          const allRemaining = [...unrevealed, ...neighborGame.revealedByGiveUp];
+          return allRemaining.length > 0 ? (
+            <div className="remaining-section">
+               <h4>Remaining Neighbors</h4>
+               <div className="remaining-list">
+                 {unrevealed.map((c: string) => (
+                   <span key={c} className="remaining-item">{c}</span>
+                 ))}
+                 {neighborGame.revealedByGiveUp.map((c: string) => (
+                   <span key={c} className="revealed-item">{c}</span>
+                 ))}
+               </div>
+            </div>
+          ) : null;
+        })()
+      )}
+
+      {/* Incorrect Guesses List */}
+      {neighborGame.missedGuesses.length > 0 && (
+        <div className="missed-section">
+           <h4>Missed Guesses</h4>
+           <div className="missed-list">
+             {neighborGame.missedGuesses.map((c: string) => (
+               <span key={c} className="missed-item">{c}</span>
+             ))}
+           </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+// --- NEIGHBORS CONTROLS ---
+export const NeighborsControls = ({ game: neighborGame, renderInput, clearInput, onStart }: ModePanelProps<NeighborGame>) => {
+  return (
+    <>
+      <button className="start-btn" onClick={onStart}>
+        {neighborGame.gameStatus === 'idle' ? 'Start Game' : 'Skip / Next'}
+      </button>
+
+      {renderInput({
+        placeholder: 'Name a neighbor, press Enter...',
+        disabled: neighborGame.gameStatus === 'idle' || neighborGame.gaveUp,
+      })}
+
+      <button
+        className={`hard-mode-btn ${neighborGame.isHardMode ? 'active' : ''}`}
+        onClick={neighborGame.toggleHardMode}
+      >
+        Hard Mode
+      </button>
+
+      {neighborGame.gameStatus === 'playing' && !neighborGame.gaveUp && (
+        <HintControls
+          hints={neighborGame.hints}
+          remaining={neighborGame.targetNeighbors.filter(n => !neighborGame.foundNeighbors.includes(n))}
+          onHint={neighborGame.hint}
+        />
+      )}
+
+      {neighborGame.gameStatus !== 'idle' && (
+        <button className="give-up-btn" onClick={() => {
+          neighborGame.giveUp();
+          clearInput();
+        }}>
+          Give Up
+        </button>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,92 @@
+import { MAX_BOX } from '../practiceDeck';
+import type { PracticeGame } from '../usePracticeGame';
+import type { ModePanelProps } from './types';
+
+// --- PRACTICE SIDEBAR ---
+export const PracticeSidebar = ({ game: practiceGame, onFocusCountry, onHoverCountry }: ModePanelProps<PracticeGame>) => {
+  return (
+    <>
+      <h3>Practice Mode</h3>
+      {practiceGame.currentCountry ? (
+        <div className="neighbor-stats">
+          <div className="target-card">
+            <span className="label">{practiceGame.kind === 'name' ? 'Name the highlighted country' : 'Click:'}</span>
+            {practiceGame.kind === 'locate' && <h2 className="target-name">{practiceGame.currentCountry}</h2>}
+            {practiceGame.gameStatus === 'revealing' && (
+              <span className="label">
+                {practiceGame.lastAnswerCorrect ? '✓ Correct' : `✗ That was ${practiceGame.currentCountry}`}
+              </span>
+            )}
+          </div>
+          <div className="progress-card">
+            <span className="label">Cards left:</span>
+            <div className="score-big">{practiceGame.queue.length}</div>
+          </div>
+        </div>
+      ) : (
+        <p className="empty-state">
+          {practiceGame.deck.length === 0
+            ? 'Countries you miss or give up on in any mode show up here for review.'
+            : practiceGame.gameStatus === 'finished'
+              ? 'Review done. Come back when more cards are due.'
+              : 'Start a review to drill your due cards.'}
+        </p>
+      )}
+
+      {practiceGame.deck.length > 0 && (
+        <p className="timer">
+          {Array.from({ length: MAX_BOX }, (_, i) => (
+            `Box ${i + 1}: ${practiceGame.deck.filter(card => card.box === i + 1).length}`
+          )).join(' · ')}
+        </p>
+      )}
+
+      {practiceGame.results.length > 0 && (
+        <div className="countries-list">
+          {practiceGame.results.map((result, index) => (
+            <div
+              key={index}
+              className="country-item learning-item"
+              onClick={() => onFocusCountry(result.country)}
+              onMouseEnter={() => onHoverCountry(result.country)}
+              onMouseLeave={() => onHoverCountry(null)}
+              style={{ color: result.correct ? 'inherit' : 'var(--danger)' }}
+            >
+              {index + 1}. {result.country} {result.correct ? '✓' : '✗'}
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+// --- PRACTICE CONTROLS ---
+export const PracticeControls = ({ game: practiceGame, renderInput, clearInput, submitOnEnter, onStart }: ModePanelProps<PracticeGame>) => {
+  const inSession = practiceGame.gameStatus === 'playing' || practiceGame.gameStatus === 'revealing';
+  return (
+    <>
+      <button
+        className="start-btn"
+        disabled={!inSession && practiceGame.dueCount === 0}
+        onClick={onStart}
+      >
+        {inSession ? 'Restart Review' : `Start Review (${practiceGame.dueCount} due)`}
+      </button>
+
+      {renderInput({
+        placeholder: practiceGame.kind === 'locate' ? 'Click the country on the map' : submitOnEnter ? 'Name the country, press Enter...' : 'Name the country...',
+        disabled: practiceGame.gameStatus !== 'playing' || practiceGame.kind !== 'name',
+      })}
+
+      {practiceGame.gameStatus === 'playing' && (
+        <button className="give-up-btn" onClick={() => {
+          practiceGame.answer(false);
+          clearInput();
+        }}>
+          Don't Know
+        </button>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,83 @@
+import { routeScore } from '../scoring';
+import type { RouteGame } from '../useRouteGame';
+import type { ModePanelProps } from './types';
+
+// --- ROUTE SIDEBAR ---
+export const RouteSidebar = ({ game: routeGame }: ModePanelProps<RouteGame>) => {
+  return (
+    <>
+      <h3>Route Mode</h3>
+      {routeGame.startCountry && routeGame.endCountry ? (
+        <div className="neighbor-stats">
+          <div className="target-card">
+            <span className="label">Connect:</span>
+            <h2 className="target-name">{routeGame.startCountry} → {routeGame.endCountry}</h2>
+          </div>
+
+          <div className="progress-card">
+            <span className="label">Guesses:</span>
+            <div className="score-big">
+              {routeGame.guesses.length}
+              <span className="total"> / {routeGame.optimalLength} optimal</span>
+            </div>
+          </div>
+
+          {routeGame.gameStatus === 'won' && (
+            <div className="win-message">
+              🎉 Connected! Score: {routeScore(routeGame.guesses.length, routeGame.optimalLength)}
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="empty-state">Start a round, then name the countries in between.</p>
+      )}
+
+      {routeGame.guesses.length > 0 && (
+        <div className="found-section">
+          <h4>Your Route</h4>
+          <div className="found-list">
+            {routeGame.guesses.map((c: string) => (
+              <span key={c} className={routeGame.onShortestPath.includes(c) ? 'found-item' : 'missed-item'}>{c}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {routeGame.revealedPath.length > 0 && (
+        <div className="remaining-section">
+          <h4>Shortest Route</h4>
+          <div className="remaining-list">
+            {routeGame.revealedPath.map((c: string) => (
+              <span key={c} className="revealed-item">{c}</span>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+// --- ROUTE CONTROLS ---
+export const RouteControls = ({ game: routeGame, renderInput, clearInput, onStart }: ModePanelProps<RouteGame>) => {
+  return (
+    <>
+      <button className="start-btn" onClick={onStart}>
+        {routeGame.gameStatus === 'idle' ? 'Start Game' : 'Skip / Next'}
+      </button>
+
+      {renderInput({
+        placeholder: 'Name a country on the route, press Enter...',
+        disabled: routeGame.gameStatus !== 'playing',
+      })}
+
+      {routeGame.gameStatus === 'playing' && (
+        <button className="give-up-btn" onClick={() => {
+          routeGame.giveUp();
+          clearInput();
+        }}>
+          Give Up
+        </button>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,152 @@
+import { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import type { SilhouetteGame } from '../useSilhouetteGame';
+import type { ModePanelProps } from './types';
+
+const CARD_SIZE = 300;
+const CARD_PADDING = 24;
+
+// --- SILHOUETTE CARD (over the map) ---
+// Each shape gets its own projection, centred on the country and fitted to the card.
+// Centring it keeps the antimeridian cut on the far side of the globe, so countries
+// across it (Fiji, Kiribati, Russia) come out in one piece.
+export const SilhouetteStage = ({ game }: ModePanelProps<SilhouetteGame>) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const { currentShape, countryShapes, rotate, mirror, outlined, gameStatus } = game;
+  const feature = currentShape ? countryShapes.get(currentShape.country) : undefined;
+  const angle = rotate && currentShape ? currentShape.angle : 0;
+  const mirrored = mirror && !!currentShape?.mirrored;
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+    if (!feature) return;
+
+    const [lon, lat] = d3.geoCentroid(feature);
+    const projection = d3.geoAzimuthalEqualArea()
+      .rotate([-lon, -lat])
+      .angle(angle)
+      .reflectX(mirrored)
+      .fitExtent([[CARD_PADDING, CARD_PADDING], [CARD_SIZE - CARD_PADDING, CARD_SIZE - CARD_PADDING]], feature)
+      .clipExtent([[0, 0], [CARD_SIZE, CARD_SIZE]]);
+    const pathGenerator = d3.geoPath(projection);
+
+    // Hint: everything around it, outlines only
+    if (outlined) {
+      svg.selectAll('path.silhouette-context')
+        .data(Array.from(countryShapes.values()).filter(f => f !== feature))
+        .enter().append('path')
+        .attr('class', 'silhouette-context')
+        .attr('d', pathGenerator);
+    }
+    svg.append('path')
+      .datum(feature)
+      .attr('class', 'silhouette-shape')
+      .attr('d', pathGenerator);
+  }, [feature, angle, mirrored, outlined, countryShapes]);
+
+  if (!currentShape) return null;
+  return (
+    <div className="silhouette-card">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${CARD_SIZE} ${CARD_SIZE}`}
+        role="img"
+        aria-label={gameStatus === 'revealing' ? `Silhouette of ${currentShape.country}` : 'Silhouette of a country'}
+      />
+      <p className="silhouette-caption">
+        {gameStatus === 'revealing' ? currentShape.country : '?'}
+      </p>
+    </div>
+  );
+};
+
+// --- SILHOUETTE SIDEBAR ---
+export const SilhouetteSidebar = ({ game: silhouetteGame, onFocusCountry, onHoverCountry }: ModePanelProps<SilhouetteGame>) => {
+  return (
+    <>
+      <h3>Silhouette Mode</h3>
+      {silhouetteGame.currentShape ? (
+        <div className="neighbor-stats">
+          <div className="progress-card">
+            <span className="label">
+              Shape {silhouetteGame.shapeIndex + 1} / {silhouetteGame.shapes.length} · Wrong: {silhouetteGame.wrongGuesses}
+            </span>
+            <div className="score-big">{silhouetteGame.score}</div>
+          </div>
+        </div>
+      ) : silhouetteGame.gameStatus === 'finished' ? (
+        <div className="win-message">
+          Round complete: {silhouetteGame.score} points
+        </div>
+      ) : (
+        <p className="empty-state">Start a round, then name each country from its shape.</p>
+      )}
+
+      {silhouetteGame.results.length > 0 && (
+        <div className="countries-list">
+          {silhouetteGame.results.map((result, index) => (
+            <div
+              key={result.country}
+              className="country-item learning-item"
+              onClick={() => onFocusCountry(result.country)}
+              onMouseEnter={() => onHoverCountry(result.country)}
+              onMouseLeave={() => onHoverCountry(null)}
+              style={{ color: result.found ? 'inherit' : 'var(--danger)' }}
+            >
+              {index + 1}. {result.country}: {result.points} pts{result.outlined ? ' (outline)' : ''}
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+// --- SILHOUETTE CONTROLS ---
+export const SilhouetteControls = ({ game: silhouetteGame, renderInput, clearInput, submitOnEnter, onStart }: ModePanelProps<SilhouetteGame>) => {
+  const playing = silhouetteGame.gameStatus === 'playing';
+  return (
+    <>
+      <button className="start-btn" onClick={onStart}>
+        {silhouetteGame.gameStatus === 'idle' ? 'Start Game' : 'New Round'}
+      </button>
+
+      {renderInput({
+        placeholder: submitOnEnter ? 'Name the country, press Enter...' : 'Name the country...',
+        disabled: !playing,
+      })}
+
+      {playing && (
+        <button className="hint-btn" disabled={silhouetteGame.outlined} onClick={silhouetteGame.showOutline}>
+          Show Surroundings
+        </button>
+      )}
+
+      <button
+        className={`hard-mode-btn ${silhouetteGame.rotate ? 'active' : ''}`}
+        aria-pressed={silhouetteGame.rotate}
+        onClick={silhouetteGame.toggleRotate}
+      >
+        Rotate
+      </button>
+      <button
+        className={`hard-mode-btn ${silhouetteGame.mirror ? 'active' : ''}`}
+        aria-pressed={silhouetteGame.mirror}
+        onClick={silhouetteGame.toggleMirror}
+      >
+        Mirror
+      </button>
+
+      {playing && (
+        <button className="give-up-btn" onClick={() => {
+          silhouetteGame.skip();
+          clearInput();
+        }}>
+          Skip
+        </button>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,68 @@
+import { isQuizCountry } from '../countryRegistry';
+import type { ChainGame } from '../useChainGame';
+import type { MapLine, MapView } from '../mapView';
+import type { FinishedGame, GameMode } from './types';
+import { ChainSidebar, ChainControls } from './ChainPanels';
+
+// How many of the latest countries the map keeps in frame while the chain grows
+const FOLLOW_COUNT = 3;
+
+// The chain is drawn as a line through its countries' centroids; at the end the longest
+// chain there was is dashed in, with the countries it went through named
+const chainMapView = (game: ChainGame): MapView => {
+  const inChain = new Set(game.chain);
+  const over = game.gameStatus === 'stuck' || game.gameStatus === 'gaveUp';
+  const longest = new Set(over ? game.longest : []);
+  const lines: MapLine[] = [];
+  if (over && game.longest.length > 1) lines.push({ kind: 'best', points: game.pointsOf(game.longest) });
+  if (game.chain.length > 1) lines.push({ kind: 'chain', points: game.pointsOf(game.chain) });
+
+  return {
+    styleCountry: country => {
+      if (country === game.lastCountry && game.gameStatus === 'playing') return { fill: 'highlight', label: 'onHighlight' };
+      if (inChain.has(country)) return { fill: 'found', label: 'normal' };
+      if (longest.has(country)) return { fill: 'land', label: 'revealed' };
+      return { fill: isQuizCountry(country) ? 'land' : 'notInQuiz' };
+    },
+    lines,
+    frameCountries: over ? [...game.chain, ...game.longest] : game.chain.length > 0 ? game.chain.slice(-FOLLOW_COUNT) : null,
+  };
+};
+
+const chainAnnouncement = (game: ChainGame): string => {
+  if (!game.lastCountry) return '';
+  const best = !game.longestReady
+    ? 'Searching for the longest chain'
+    : `The longest chain${game.longestComplete ? '' : ' found'} was ${game.bestScore}`;
+  if (game.gameStatus === 'stuck') return `No way on from ${game.lastCountry}. Chain of ${game.score}. ${best}`;
+  if (game.gameStatus === 'gaveUp') return `Chain of ${game.score}. ${best}`;
+  return `Chain of ${game.score}. Name a country bordering ${game.lastCountry}`;
+};
+
+// Not recorded until the longest chain it's compared with is known. Countries left out of
+// the chain weren't missed, so none go to the Practice deck or "Most Forgotten".
+const chainResult = (game: ChainGame): FinishedGame | null => {
+  if ((game.gameStatus !== 'stuck' && game.gameStatus !== 'gaveUp') || !game.longestReady) return null;
+  return {
+    target: game.chain[0], guessCount: game.score, wrongGuesses: game.wrongGuesses,
+    revealedCountries: [], missedGuesses: [],
+    won: game.score >= game.bestScore, score: game.score,
+  };
+};
+
+export const chainMode: GameMode<ChainGame> = {
+  id: 'chain',
+  label: 'Chain',
+  heading: ['Build a', 'Border Chain'],
+  hasDaily: true,
+  typedAnswers: true,
+  enterSubmitsLive: true,
+  Sidebar: ChainSidebar,
+  Controls: ChainControls,
+  mapView: chainMapView,
+  mapViewInputs: game => [game.chain, game.longest, game.gameStatus, game.pointsOf],
+  announce: chainAnnouncement,
+  checkGuess: (game, input, submitted) => game.checkGuess(input, submitted),
+  start: (game, random) => game.startNewRound(random),
+  finished: chainResult,
+};
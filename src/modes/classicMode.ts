@@ -0,0 +1,183 @@
+import { getCapital, type CapitalRecord } from '../countryRegistry';
+import { matchCountry, matchCapital } from '../countryMatcher';
+import type { ClassicGame } from '../useClassicGame';
+import { timerMilestone, describeVariant, type ClassicVariant } from '../classicVariants';
+import type { MapView } from '../mapView';
+import { outlinedCountries, hintPenalty } from '../hints';
+import { computeScore } from '../scoring';
+import { describeRegions } from '../regions';
+import { formatTime } from '../formatting';
+import type { RandomSource } from '../random';
+import type { GuessFeedback } from '../guessFeedback';
+import { challengeUrl, hintStat, progressBar, type ShareSummary } from '../share';
+import type { FinishedGame, GameMode } from './types';
+import { ClassicSidebar, ClassicControls } from './ClassicPanels';
+
+// Classic and Capitals share the classic game loop. App owns the settings around it
+// (region, timer variant, Reverse Capitals), so they travel with the game.
+export interface ClassicModeGame {
+  mode: 'classic' | 'capitals';
+  game: ClassicGame;
+  countries: string[];            // The selected region's countries
+  target: number;                 // Guesses that finish the game
+  timeLimitMs: number | null;
+  regionFilter: string[];
+  variant: ClassicVariant;
+  capitalsReverse: boolean;
+  capitalPrompt: string | null;   // Reverse Capitals: the highlighted country, while playing
+  capitalMarkers: CapitalRecord[];
+  start: (random: RandomSource) => void;       // With the current region and variant
+  startDaily: (random: RandomSource) => void;  // The daily is always the whole world, untimed
+  onCapitalNamed: (country: string) => void;   // Reverse Capitals moves on to another country
+  onRegionChange: (regions: string[]) => void;
+  onVariantChange: (variant: string) => void;
+  onTogglePause: () => void;
+  onGiveUp: () => void;
+  onSkipPrompt: () => void;
+  onToggleReverse: () => void;
+}
+
+const classicMapView = ({ game, countries, capitalPrompt, capitalMarkers }: ClassicModeGame): MapView => {
+  const inQuizSet = new Set(countries);
+  const revealedSet = new Set(game.revealedCountries);
+  const outlined = outlinedCountries(game.hints);
+  return {
+    styleCountry: country => {
+      const inQuiz = inQuizSet.has(country);
+      const guessed = !!game.guessedCountries[country];
+      const revealed = revealedSet.has(country);
+      const hinted = inQuiz && !guessed && outlined.has(country); // Outline hint
+      return {
+        fill: !inQuiz ? 'notInQuiz'
+          : country === capitalPrompt || hinted ? 'highlight'
+          : revealed ? 'missed'
+          : guessed ? 'found'
+          : 'land',
+        dot: inQuiz && !guessed,
+        label: guessed ? (revealed ? 'missed' : 'normal') : null,
+      };
+    },
+    capitalMarkers,
+    focusCountry: capitalPrompt,
+  };
+};
+
+const classicAnnouncement = ({ mode, game, target, timeLimitMs }: ClassicModeGame): string => {
+  const found = game.guessCount - game.revealedCountries.length;
+  const progress = `${found} of ${target} ${mode === 'capitals' ? 'capitals' : 'countries'} named`;
+  switch (game.status) {
+    case 'idle': return '';
+    case 'complete': return `Finished! ${progress}`;
+    case 'timeUp': return `Time's up! ${progress}`;
+    case 'gaveUp': return `Given up. ${progress}`;
+  }
+  if (game.paused) return 'Paused';
+  return [progress, timerMilestone(game.elapsedMs, timeLimitMs)].filter(Boolean).join('. ');
+};
+
+// Classic: any country in the selected region counts
+const checkCountryGuess = ({ game, regionFilter }: ClassicModeGame, input: string, submitted: boolean): GuessFeedback | null => {
+  const resolved = matchCountry(input);
+  if (!resolved) {
+    if (submitted) game.miss();
+    return submitted ? { result: 'unknown', input, country: null } : null;
+  }
+  const result = game.guess(resolved, submitted);
+  if (result === 'outside') {
+    return submitted ? { result: 'wrong', input, country: resolved, message: `${resolved} isn't in ${describeRegions(regionFilter)}` } : null;
+  }
+  if (result === 'duplicate') {
+    return { result: 'duplicate', input, country: resolved };
+  }
+  return { result: 'correct', input, country: resolved };
+};
+
+// Capitals: a correct capital fills in its country. In Reverse, only the highlighted country counts.
+const checkCapitalGuess = (modeGame: ClassicModeGame, input: string, submitted: boolean): GuessFeedback | null => {
+  const { game, countries, regionFilter, capitalsReverse, capitalPrompt } = modeGame;
+  const country = matchCapital(input);
+  if (!country) {
+    if (submitted) game.miss();
+    return submitted ? { result: 'unknown', input, country: null, message: `"${input.trim()}" isn't a capital we know` } : null;
+  }
+  const capital = getCapital(country)!.capital;
+  if (capitalsReverse && country !== capitalPrompt && countries.includes(country)) {
+    // While typing live, "Bern" may just be the start of "Berlin" - only react on submit
+    if (submitted) game.miss();
+    return submitted ? { result: 'wrong', input, country, message: `${capital} is not the capital of this country` } : null;
+  }
+  const result = game.guess(country, submitted);
+  if (result === 'outside') {
+    return submitted ? { result: 'wrong', input, country, message: `${capital} isn't in ${describeRegions(regionFilter)}` } : null;
+  }
+  if (result === 'duplicate') {
+    return { result: 'duplicate', input, country, message: `${capital} is already guessed` };
+  }
+  if (capitalsReverse) modeGame.onCapitalNamed(country);
+  return { result: 'correct', input, country, message: `${capital} is the capital of ${country}` };
+};
+
+const isOver = ({ game }: ClassicModeGame) => game.status === 'gaveUp' || game.status === 'timeUp' || game.status === 'complete';
+
+const classicResult = (modeGame: ClassicModeGame): FinishedGame | null => {
+  const { game, regionFilter, variant } = modeGame;
+  if (!isOver(modeGame)) return null;
+  const found = game.guessCount - game.revealedCountries.length;
+  return {
+    target: regionFilter.length ? regionFilter.join(',') : null,
+    guessCount: found, wrongGuesses: game.wrongGuesses, revealedCountries: game.revealedCountries, missedGuesses: [],
+    won: game.revealedCountries.length === 0, score: computeScore(found, game.wrongGuesses, hintPenalty(game.hints)),
+    durationSeconds: Math.floor(game.elapsedMs / 1000), // Time spent paused doesn't count
+    ...(variant !== 'open' && { variant }),
+    ...(game.hints.length > 0 && { hints: game.hints.length }),
+  };
+};
+
+const classicShare = (modeGame: ClassicModeGame): ShareSummary | null => {
+  const { mode, game, countries, target, regionFilter, variant } = modeGame;
+  if (!isOver(modeGame)) return null;
+  const found = game.guessCount - game.revealedCountries.length;
+  return {
+    title: [
+      `${mode === 'capitals' ? 'Capitals' : 'Classic'}${regionFilter.length ? ` (${describeRegions(regionFilter)})` : ''}`,
+      variant !== 'open' ? describeVariant(variant, countries.length) : null,
+    ].filter(Boolean).join(' · '),
+    stats: [
+      `⏱ ${formatTime(Math.floor(game.elapsedMs / 1000))}`,
+      `✅ ${found}/${target}`,
+      `🏳️ ${game.revealedCountries.length} given up`,
+      `❌ ${game.wrongGuesses} missed`,
+      hintStat(game.hints.length),
+    ].filter((stat): stat is string => !!stat),
+    squares: progressBar(found, target),
+    url: challengeUrl({ mode, regions: regionFilter, variant }),
+  };
+};
+
+export const classicMode: GameMode<ClassicModeGame> = {
+  id: 'classic',
+  label: 'Classic',
+  heading: ['Guess the', 'Countries'],
+  hasDaily: true,
+  typedAnswers: true,
+  Sidebar: ClassicSidebar,
+  Controls: ClassicControls,
+  mapView: classicMapView,
+  mapViewInputs: ({ game, countries, capitalPrompt, capitalMarkers }) => [
+    game.guessedCountries, game.revealedCountries, game.hints, countries, capitalPrompt, capitalMarkers,
+  ],
+  announce: classicAnnouncement,
+  checkGuess: checkCountryGuess,
+  start: (game, random) => game.start(random),
+  startDaily: (game, random) => game.startDaily(random),
+  finished: classicResult,
+  share: classicShare,
+};
+
+export const capitalsMode: GameMode<ClassicModeGame> = {
+  ...classicMode,
+  id: 'capitals',
+  label: 'Capitals',
+  heading: ['Guess the', 'Capitals'],
+  checkGuess: checkCapitalGuess,
+};
@@ -0,0 +1,62 @@
+import { isQuizCountry } from '../countryRegistry';
+import { MAX_LOCATE_ATTEMPTS, type LocateGame } from '../useLocateGame';
+import type { MapView } from '../mapView';
+import type { FinishedGame, GameMode } from './types';
+import { LocateSidebar, LocateControls } from './LocatePanels';
+
+const locateMapView = (game: LocateGame): MapView => {
+  const located = new Set(game.results.filter(r => r.found).map(r => r.country));
+  const missed = new Set(game.results.filter(r => !r.found).map(r => r.country));
+  return {
+    styleCountry: country => ({
+      fill: !isQuizCountry(country) ? 'notInQuiz'
+        : missed.has(country) ? 'missed'
+        : located.has(country) ? 'found'
+        : 'land',
+      flash: country === game.flashCountry,
+      label: located.has(country) ? 'normal' : missed.has(country) ? 'missed' : null,
+    }),
+    onCountryClick: game.handleCountryClick,
+  };
+};
+
+const locateAnnouncement = (game: LocateGame): string => {
+  if (game.gameStatus === 'finished') return `Round complete: ${game.score} points`;
+  if (!game.currentPrompt) return '';
+  if (game.gameStatus === 'revealing') {
+    const result = game.results[game.results.length - 1];
+    return result?.found ? `Found ${result.country}, ${result.points} points` : `Missed ${game.currentPrompt}`;
+  }
+  const { lastClick } = game;
+  return [
+    lastClick && lastClick.distanceKm > 0 && `That's ${lastClick.country}, ${Math.round(lastClick.distanceKm).toLocaleString()} km away`,
+    `Find ${game.currentPrompt}`,
+    `Prompt ${game.promptIndex + 1} of ${game.prompts.length}, attempt ${Math.min(game.attempts + 1, MAX_LOCATE_ATTEMPTS)} of ${MAX_LOCATE_ATTEMPTS}`,
+  ].filter(Boolean).join('. ');
+};
+
+const locateResult = (game: LocateGame): FinishedGame | null => {
+  if (game.gameStatus !== 'finished') return null;
+  const missed = game.results.filter(r => !r.found).map(r => r.country);
+  return {
+    target: null, guessCount: game.results.length - missed.length, wrongGuesses: missed.length,
+    revealedCountries: missed, missedGuesses: [],
+    won: missed.length === 0, score: game.score,
+  };
+};
+
+export const locateMode: GameMode<LocateGame> = {
+  id: 'locate',
+  label: 'Locate',
+  heading: ['Locate the', 'Countries'],
+  hasDaily: true,
+  typedAnswers: false,
+  Sidebar: LocateSidebar,
+  Controls: LocateControls,
+  mapView: locateMapView,
+  mapViewInputs: game => [game.results, game.flashCountry, game.handleCountryClick],
+  announce: locateAnnouncement,
+  checkGuess: () => null, // Answers are clicks on the map
+  start: (game, random) => game.startNewRound(random),
+  finished: locateResult,
+};
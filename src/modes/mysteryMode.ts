@@ -0,0 +1,70 @@
+import { isQuizCountry } from '../countryRegistry';
+import { compassPoint, type CompassPoint } from '../mapHelpers';
+import type { MysteryGame } from '../useMysteryGame';
+import type { MapView } from '../mapView';
+import type { FinishedGame, GameMode } from './types';
+import { MysterySidebar, MysteryControls } from './MysteryPanels';
+
+const COMPASS_WORDS: Record<CompassPoint, string> = {
+  N: 'north', NE: 'north-east', E: 'east', SE: 'south-east',
+  S: 'south', SW: 'south-west', W: 'west', NW: 'north-west',
+};
+
+// Guesses are shaded cold to warm by how close they are; the target shows once the round is over
+const mysteryMapView = (game: MysteryGame): MapView => {
+  const guesses = new Map(game.guesses.map(guess => [guess.country, guess]));
+  const over = game.gameStatus === 'won' || game.gameStatus === 'lost';
+  return {
+    styleCountry: country => {
+      const guess = guesses.get(country);
+      if (over && country === game.target) {
+        return { fill: game.gameStatus === 'won' ? 'found' : 'missed', label: game.gameStatus === 'won' ? 'normal' : 'revealed' };
+      }
+      if (guess) return { fill: 'proximity', proximity: guess.proximity / 100, label: 'normal' };
+      return { fill: isQuizCountry(country) ? 'land' : 'notInQuiz' };
+    },
+    // The world stays in view while guessing; at the end, zoom to the guesses and the answer
+    frameCountries: over && game.target ? [...game.guesses.map(guess => guess.country), game.target] : null,
+  };
+};
+
+const mysteryAnnouncement = (game: MysteryGame): string => {
+  if (game.gameStatus === 'idle' || !game.target) return '';
+  if (game.gameStatus === 'won') return `Found it: ${game.target} in ${game.guesses.length}. ${game.score} points`;
+  if (game.gameStatus === 'lost') return `Round over. It was ${game.target}`;
+  const last = game.guesses[game.guesses.length - 1];
+  return [
+    last && `${last.country} is ${Math.round(last.distanceKm).toLocaleString()} km away, head ${COMPASS_WORDS[compassPoint(last.bearing)]}, ${last.proximity}% close`,
+    `${game.guessesLeft} ${game.guessesLeft === 1 ? 'guess' : 'guesses'} left`,
+  ].filter(Boolean).join('. ');
+};
+
+const mysteryResult = (game: MysteryGame): FinishedGame | null => {
+  const won = game.gameStatus === 'won';
+  if (!won && game.gameStatus !== 'lost') return null;
+  const guessed = game.guesses.map(g => g.country);
+  return {
+    target: game.target, guessCount: guessed.length,
+    wrongGuesses: won ? guessed.length - 1 : guessed.length,
+    revealedCountries: won || !game.target ? [] : [game.target],
+    missedGuesses: guessed.filter(c => c !== game.target),
+    won, score: game.score,
+  };
+};
+
+export const mysteryMode: GameMode<MysteryGame> = {
+  id: 'mystery',
+  label: 'Mystery',
+  heading: ['Find the', 'Mystery Country'],
+  hasDaily: true,
+  typedAnswers: true,
+  enterSubmitsLive: true,
+  Sidebar: MysterySidebar,
+  Controls: MysteryControls,
+  mapView: mysteryMapView,
+  mapViewInputs: game => [game.target, game.guesses, game.gameStatus],
+  announce: mysteryAnnouncement,
+  checkGuess: (game, input, submitted) => game.checkGuess(input, submitted),
+  start: (game, random) => game.startNewRound(random),
+  finished: mysteryResult,
+};
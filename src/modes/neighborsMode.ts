@@ -0,0 +1,96 @@
+import type { NeighborGame } from '../useNeighborGame';
+import type { MapView } from '../mapView';
+import { outlinedCountries, hintPenalty } from '../hints';
+import { computeScore } from '../scoring';
+import { createSeededRandom } from '../random';
+import { challengeUrl, hintStat, type ShareSummary } from '../share';
+import type { FinishedGame, GameMode } from './types';
+import { NeighborsSidebar, NeighborsControls } from './NeighborsPanels';
+
+// Only the target and the neighbors found (or given up, or outlined by a hint) are drawn
+const neighborsMapView = (game: NeighborGame): MapView => {
+  const found = new Set(game.foundNeighbors);
+  const revealed = new Set(game.revealedByGiveUp);
+  const outlined = outlinedCountries(game.hints);
+  return {
+    styleCountry: country => {
+      const isTarget = country === game.targetCountry;
+      const isNeighbor = found.has(country);
+      const isRevealed = revealed.has(country);
+      const isHinted = !isNeighbor && !isRevealed && outlined.has(country);
+      return {
+        fill: isTarget ? 'highlight'
+          : isNeighbor ? 'found'
+          : isRevealed ? 'missed'
+          : 'land',
+        hidden: !isTarget && !isNeighbor && !isRevealed && !isHinted,
+        flash: isHinted,
+        label: isTarget ? (game.isHardMode ? null : 'onHighlight') // Hide the target's name in Hard Mode
+          : isNeighbor ? 'normal'
+          : isRevealed ? 'revealed'
+          : null,
+      };
+    },
+    focusCountry: game.targetCountry,
+  };
+};
+
+const neighborsAnnouncement = (game: NeighborGame): string => {
+  if (!game.targetCountry) return '';
+  const target = game.isHardMode ? 'the target' : game.targetCountry;
+  const total = game.targetNeighbors.length;
+  if (game.gameStatus === 'won') return `All ${total} neighbors of ${game.targetCountry} found`;
+  const progress = `${game.foundNeighbors.length} of ${total} neighbors of ${target} found`;
+  return game.gaveUp ? `Given up. ${progress}` : progress;
+};
+
+const neighborsResult = (game: NeighborGame): FinishedGame | null => {
+  const won = game.gameStatus === 'won';
+  if (!won && !game.gaveUp) return null;
+  return {
+    target: game.targetCountry, guessCount: game.foundNeighbors.length,
+    wrongGuesses: game.wrongGuesses, revealedCountries: game.revealedByGiveUp,
+    missedGuesses: game.missedGuesses, won,
+    score: won ? computeScore(game.foundNeighbors.length, game.wrongGuesses, hintPenalty(game.hints)) : 0,
+    ...(game.hints.length > 0 && { hints: game.hints.length }),
+  };
+};
+
+// Only won rounds are shared; the link replays the same target
+const neighborsShare = (game: NeighborGame): ShareSummary | null => {
+  if (game.gameStatus !== 'won' || !game.targetCountry) return null;
+  const found = game.foundNeighbors.length;
+  return {
+    title: game.isHardMode ? 'Neighbors (Hard)' : 'Neighbors',
+    stats: [
+      `✅ ${found}/${found}`,
+      `❌ ${game.wrongGuesses} missed`,
+      hintStat(game.hints.length),
+    ].filter((stat): stat is string => !!stat),
+    squares: '🟩'.repeat(found) + '🟥'.repeat(game.wrongGuesses),
+    url: challengeUrl({ mode: 'neighbors', target: game.targetCountry, hardMode: game.isHardMode }),
+  };
+};
+
+export const neighborsMode: GameMode<NeighborGame> = {
+  id: 'neighbors',
+  label: 'Neighbors',
+  heading: ['Guess the', 'Neighbors'],
+  hasDaily: true,
+  typedAnswers: true,
+  enterSubmitsLive: true,
+  Sidebar: NeighborsSidebar,
+  Controls: NeighborsControls,
+  mapView: neighborsMapView,
+  mapViewInputs: game => [game.targetCountry, game.foundNeighbors, game.revealedByGiveUp, game.hints, game.isHardMode],
+  announce: neighborsAnnouncement,
+  checkGuess: (game, input, submitted) => game.checkGuess(input, submitted),
+  start: (game, random) => game.startNewRound(random),
+  startChallenge: (game, { target, seed, hardMode }) => {
+    game.setHardMode(!!hardMode);
+    if (target) game.startWithTarget(target);
+    else game.startNewRound(seed ? createSeededRandom(seed) : Math.random);
+  },
+  finished: neighborsResult,
+  share: neighborsShare,
+};
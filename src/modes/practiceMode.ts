@@ -0,0 +1,51 @@
+import { isQuizCountry } from '../countryRegistry';
+import type { PracticeGame } from '../usePracticeGame';
+import type { MapView } from '../mapView';
+import type { GameMode } from './types';
+import { PracticeSidebar, PracticeControls } from './PracticePanels';
+
+const practiceMapView = (game: PracticeGame): MapView => {
+  // 'name' cards highlight the country; 'locate' cards wait for a click
+  const prompt = game.kind === 'name' ? game.currentCountry : null;
+  return {
+    styleCountry: country => ({
+      fill: !isQuizCountry(country) ? 'notInQuiz'
+        : country === prompt ? 'highlight'
+        : 'land',
+      flash: country === game.flashCountry,
+      label: country === game.flashCountry ? 'normal' : null,
+    }),
+    focusCountry: prompt,
+    onCountryClick: game.kind === 'locate' ? game.handleCountryClick : undefined,
+  };
+};
+
+const practiceAnnouncement = (game: PracticeGame): string => {
+  if (game.gameStatus === 'finished') return 'Review done';
+  if (!game.currentCountry) return '';
+  const cardsLeft = `${game.queue.length} ${game.queue.length === 1 ? 'card' : 'cards'} left`;
+  // Typed answers are already read out by the guess feedback
+  if (game.gameStatus === 'revealing') {
+    if (game.kind === 'name') return '';
+    return game.lastAnswerCorrect ? 'Correct' : `That was ${game.currentCountry}`;
+  }
+  return game.kind === 'name'
+    ? `Name the highlighted country. ${cardsLeft}`
+    : `Click ${game.currentCountry}. ${cardsLeft}`;
+};
+
+export const practiceMode: GameMode<PracticeGame> = {
+  id: 'practice',
+  label: 'Practice',
+  heading: ['Practice your', 'Misses'],
+  hasDaily: false, // The deck is personal
+  typedAnswers: true,
+  Sidebar: PracticeSidebar,
+  Controls: PracticeControls,
+  mapView: practiceMapView,
+  mapViewInputs: game => [game.kind, game.currentCountry, game.flashCountry, game.handleCountryClick],
+  announce: practiceAnnouncement,
+  checkGuess: (game, input, submitted) => game.checkName(input, submitted),
+  start: game => game.startSession(), // Always the due cards, never seeded
+  finished: () => null, // Reviews update the practice deck instead of the history
+};
@@ -0,0 +1,87 @@
+import { GAME_MODE_IDS, type GameModeId } from '../gameModes';
+import type { MapView } from '../mapView';
+import { createSeededRandom, type RandomSource } from '../random';
+import type { GuessFeedback } from '../guessFeedback';
+import type { ChallengeConfig, ShareSummary } from '../share';
+import type { NeighborGame } from '../useNeighborGame';
+import type { LocateGame } from '../useLocateGame';
+import type { RouteGame } from '../useRouteGame';
+import type { ChainGame } from '../useChainGame';
+import type { PracticeGame } from '../usePracticeGame';
+import type { SilhouetteGame } from '../useSilhouetteGame';
+import type { MysteryGame } from '../useMysteryGame';
+import type { FinishedGame, GameMode } from './types';
+import { classicMode, capitalsMode, type ClassicModeGame } from './classicMode';
+import { neighborsMode } from './neighborsMode';
+import { locateMode } from './locateMode';
+import { routeMode } from './routeMode';
+import { chainMode } from './chainMode';
+import { silhouetteMode } from './silhouetteMode';
+import { mysteryMode } from './mysteryMode';
+import { practiceMode } from './practiceMode';
+
+// --- Every game mode, keyed by id ---
+// To add a quiz type: give it an id in gameModes.ts, a Game type here, a GameMode
+// (panels, map view, guess checking, round start and result) and call its state hook in App.
+
+export interface ModeGames {
+  classic: ClassicModeGame;
+  capitals: ClassicModeGame;
+  neighbors: NeighborGame;
+  locate: LocateGame;
+  route: RouteGame;
+  chain: ChainGame;
+  silhouette: SilhouetteGame;
+  mystery: MysteryGame;
+  practice: PracticeGame;
+}
+
+export const GAME_MODES: { [Id in GameModeId]: GameMode<ModeGames[Id]> } = {
+  classic: classicMode,
+  capitals: capitalsMode,
+  neighbors: neighborsMode,
+  locate: locateMode,
+  route: routeMode,
+  chain: chainMode,
+  silhouette: silhouetteMode,
+  mystery: mysteryMode,
+  practice: practiceMode,
+};
+
+// In mode picker order
+export const GAME_MODE_LIST = GAME_MODE_IDS.map(id => GAME_MODES[id]);
+
+// Generic so each mode is only ever handed its own game
+export const mapViewFor = <Id extends GameModeId>(id: Id, games: ModeGames): MapView => {
+  return GAME_MODES[id].mapView(games[id]);
+};
+
+export const mapViewInputsFor = <Id extends GameModeId>(id: Id, games: ModeGames): unknown[] => {
+  return GAME_MODES[id].mapViewInputs(games[id]);
+};
+
+export const checkGuessFor = <Id extends GameModeId>(id: Id, games: ModeGames, input: string, submitted: boolean): GuessFeedback | null => {
+  return GAME_MODES[id].checkGuess(games[id], input, submitted);
+};
+
+export const startRoundFor = <Id extends GameModeId>(id: Id, games: ModeGames, random: RandomSource, daily = false) => {
+  const mode = GAME_MODES[id];
+  const start = (daily && mode.startDaily) || mode.start;
+  start(games[id], random);
+};
+
+// Links with only a seed replay it as a normal round
+export const startChallengeFor = <Id extends GameModeId>(id: Id, games: ModeGames, config: ChallengeConfig) => {
+  const mode = GAME_MODES[id];
+  if (mode.startChallenge) mode.startChallenge(games[id], config);
+  else mode.start(games[id], config.seed ? createSeededRandom(config.seed) : Math.random);
+};
+
+export const finishedGameFor = <Id extends GameModeId>(id: Id, games: ModeGames): (FinishedGame & { mode: Id }) | null => {
+  const finished = GAME_MODES[id].finished(games[id]);
+  return finished && { ...finished, mode: id };
+};
+
+export const shareSummaryFor = <Id extends GameModeId>(id: Id, games: ModeGames): ShareSummary | null => {
+  return GAME_MODES[id].share?.(games[id]) ?? null;
+};
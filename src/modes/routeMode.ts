@@ -0,0 +1,69 @@
+import type { RouteGame } from '../useRouteGame';
+import { routeScore } from '../scoring';
+import type { MapView } from '../mapView';
+import type { FinishedGame, GameMode } from './types';
+import { RouteSidebar, RouteControls } from './RoutePanels';
+
+// Only the endpoints and what the player has named (or was shown) are drawn
+const routeMapView = (game: RouteGame): MapView => {
+  const guessed = new Set(game.guesses);
+  const onPath = new Set(game.onShortestPath);
+  const revealed = new Set(game.revealedPath);
+  return {
+    styleCountry: country => {
+      const isEndpoint = country === game.startCountry || country === game.endCountry;
+      const isGuessed = guessed.has(country);
+      const isRevealed = revealed.has(country);
+      return {
+        fill: isEndpoint ? 'highlight'
+          : isGuessed ? (onPath.has(country) ? 'found' : 'offRoute')
+          : isRevealed ? 'missed'
+          : 'land',
+        hidden: !isEndpoint && !isGuessed && !isRevealed,
+        label: isEndpoint ? 'onHighlight'
+          : isGuessed ? 'normal'
+          : isRevealed ? 'revealed'
+          : null,
+      };
+    },
+    frameCountries: game.startCountry && game.endCountry ? [game.startCountry, game.endCountry] : null,
+  };
+};
+
+const routeAnnouncement = (game: RouteGame): string => {
+  const { startCountry, endCountry, guesses } = game;
+  if (!startCountry || !endCountry) return '';
+  if (game.gameStatus === 'won') return `Route complete: ${startCountry} to ${endCountry} in ${guesses.length} guesses`;
+  if (game.gameStatus === 'gaveUp') return `A shortest route: ${[startCountry, ...game.revealedPath, endCountry].join(', ')}`;
+  return `Connect ${startCountry} to ${endCountry}. ${guesses.length} named, ${game.onShortestPath.length} on a shortest route`;
+};
+
+const routeResult = (game: RouteGame): FinishedGame | null => {
+  const won = game.gameStatus === 'won';
+  if (!won && game.gameStatus !== 'gaveUp') return null;
+  return {
+    target: `${game.startCountry} → ${game.endCountry}`,
+    guessCount: game.onShortestPath.length,
+    wrongGuesses: game.guesses.length - game.onShortestPath.length,
+    revealedCountries: game.revealedPath.filter(c => !game.guesses.includes(c)),
+    missedGuesses: game.guesses.filter(c => !game.onShortestPath.includes(c)),
+    won, score: won ? routeScore(game.guesses.length, game.optimalLength) : 0,
+  };
+};
+
+export const routeMode: GameMode<RouteGame> = {
+  id: 'route',
+  label: 'Route',
+  heading: ['Find the', 'Route'],
+  hasDaily: true,
+  typedAnswers: true,
+  enterSubmitsLive: true,
+  Sidebar: RouteSidebar,
+  Controls: RouteControls,
+  mapView: routeMapView,
+  mapViewInputs: game => [game.startCountry, game.endCountry, game.guesses, game.onShortestPath, game.revealedPath],
+  announce: routeAnnouncement,
+  checkGuess: (game, input, submitted) => game.checkGuess(input, submitted),
+  start: (game, random) => game.startNewRound(random),
+  finished: routeResult,
+};
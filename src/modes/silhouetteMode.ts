@@ -0,0 +1,59 @@
+import type { SilhouetteGame } from '../useSilhouetteGame';
+import type { MapView } from '../mapView';
+import type { FinishedGame, GameMode } from './types';
+import { SilhouetteSidebar, SilhouetteControls, SilhouetteStage } from './SilhouettePanels';
+
+// The map would give the shapes away, so it only fills in as they're answered
+const silhouetteMapView = (game: SilhouetteGame): MapView => {
+  const found = new Set(game.results.filter(r => r.found).map(r => r.country));
+  const missed = new Set(game.results.filter(r => !r.found).map(r => r.country));
+  return {
+    styleCountry: country => ({
+      fill: found.has(country) ? 'found' : missed.has(country) ? 'missed' : 'land',
+      hidden: !found.has(country) && !missed.has(country),
+      label: found.has(country) ? 'normal' : missed.has(country) ? 'missed' : null,
+    }),
+    focusCountry: game.revealedCountry,
+  };
+};
+
+const silhouetteAnnouncement = (game: SilhouetteGame): string => {
+  if (game.gameStatus === 'finished') return `Round complete: ${game.score} points`;
+  if (!game.currentShape) return '';
+  if (game.gameStatus === 'revealing') {
+    const result = game.results[game.results.length - 1];
+    return result?.found ? `${result.country}, ${result.points} points` : `It was ${game.currentShape.country}`;
+  }
+  return [
+    `Shape ${game.shapeIndex + 1} of ${game.shapes.length}: name the country`,
+    game.outlined && 'Surroundings shown',
+  ].filter(Boolean).join('. ');
+};
+
+const silhouetteResult = (game: SilhouetteGame): FinishedGame | null => {
+  if (game.gameStatus !== 'finished') return null;
+  const skipped = game.results.filter(r => !r.found).map(r => r.country);
+  return {
+    target: null, guessCount: game.results.length - skipped.length,
+    wrongGuesses: game.results.reduce((total, r) => total + r.wrongGuesses, 0),
+    revealedCountries: skipped, missedGuesses: [],
+    won: skipped.length === 0, score: game.score,
+  };
+};
+
+export const silhouetteMode: GameMode<SilhouetteGame> = {
+  id: 'silhouette',
+  label: 'Silhouette',
+  heading: ['Name the', 'Shapes'],
+  hasDaily: true,
+  typedAnswers: true,
+  Sidebar: SilhouetteSidebar,
+  Controls: SilhouetteControls,
+  Stage: SilhouetteStage,
+  mapView: silhouetteMapView,
+  mapViewInputs: game => [game.results, game.revealedCountry],
+  announce: silhouetteAnnouncement,
+  checkGuess: (game, input, submitted) => game.checkGuess(input, submitted),
+  start: (game, random) => game.startNewRound(random),
+  finished: silhouetteResult,
+};
@@ -0,0 +1,60 @@
+import type { FC, ReactNode } from 'react';
+import type { GameModeId } from '../gameModes';
+import type { MapView } from '../mapView';
+import type { RandomSource } from '../random';
+import type { GuessFeedback } from '../guessFeedback';
+import type { GameRecord } from '../gameHistory';
+import type { ChallengeConfig, ShareSummary } from '../share';
+
+// Everything App hands a mode's sidebar and controls besides its own game
+export interface PanelContext {
+  // The shared guess input (with its feedback), set up for the mode
+  renderInput: (options: { placeholder: string; disabled?: boolean }) => ReactNode;
+  clearInput: () => void;
+  focusInput: () => void;         // After a button click, so typing can carry on
+  submitOnEnter: boolean;         // For placeholders ("..., press Enter...")
+  onStart: () => void;            // Start / next round (App takes care of dailies and history)
+  onFocusCountry: (country: string) => void;
+  onHoverCountry: (country: string | null) => void;
+}
+
+export interface ModePanelProps<Game> extends PanelContext {
+  game: Game;
+}
+
+// A finished round as the history records it. App adds the mode, and the duration unless
+// the mode keeps its own clock (Classic's pauses don't count).
+export type FinishedGame = Omit<GameRecord, 'id' | 'finishedAt' | 'mode' | 'durationSeconds'> & {
+  durationSeconds?: number;
+};
+
+// One quiz type. The state hook that produces `Game` is called by App (hooks can't be
+// looked up at runtime); everything the player sees comes from here.
+export interface GameMode<Game> {
+  id: GameModeId;
+  label: string;                  // Mode picker button
+  heading: [string, string];      // Page heading; the second part is highlighted
+  hasDaily: boolean;              // Offers a seeded Daily challenge
+  typedAnswers: boolean;          // Answers are typed (shows the Submit on Enter toggle)
+  // Enter submits even while answers are accepted live, for modes whose wrong guesses only
+  // count once submitted but are part of playing (Neighbors, Mystery, Route, Chain)
+  enterSubmitsLive?: boolean;
+  Sidebar: FC<ModePanelProps<Game>>;
+  Controls: FC<ModePanelProps<Game>>;
+  Stage?: FC<ModePanelProps<Game>>;  // Drawn over the map (Silhouette's shape card)
+  mapView: (game: Game) => MapView;
+  // Everything mapView reads from the game. The view is only rebuilt (and the map only
+  // restyled) when one of these changes by identity, not on every render or clock tick.
+  mapViewInputs: (game: Game) => unknown[];
+  // Read out by screen readers whenever it changes: progress, results, timer milestones
+  announce: (game: Game) => string;
+  // Scores typed input; `submitted` is true when the player pressed Enter. Null when there's
+  // nothing to say yet (live typing that doesn't match anything).
+  checkGuess: (game: Game, input: string, submitted: boolean) => GuessFeedback | null;
+  start: (game: Game, random: RandomSource) => void;  // A seeded source makes the round reproducible
+  startDaily?: (game: Game, random: RandomSource) => void;          // When the daily isn't just a seeded round
+  startChallenge?: (game: Game, config: ChallengeConfig) => void;   // When a link carries more than a seed
+  // The result once the round is over, or null while it's still going
+  finished: (game: Game) => FinishedGame | null;
+  share?: (game: Game) => ShareSummary | null;  // Spoiler-free summary for the Share button
+}
@@ -0,0 +1,80 @@
+// --- Practice deck: Leitner boxes, kept in localStorage ---
+// A missed country enters box 1. Each correct answer moves it up a box (reviewed less
+// often); a miss sends it back to box 1. Slow correct answers stay in their box.
+
+export const DECK_VERSION = 1;
+const STORAGE_KEY = 'world-map-quiz:practice';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Days until the next review, by box (index 0 = box 1)
+const BOX_INTERVALS_DAYS = [0, 1, 3, 7, 21];
+export const MAX_BOX = BOX_INTERVALS_DAYS.length;
+// Answers slower than this count as shaky and don't promote the card
+export const SLOW_RESPONSE_MS = 8000;
+
+export interface PracticeCard {
+  country: string;
+  box: number;               // 1..MAX_BOX
+  due: number;               // Epoch ms of the next review
+  reviews: number;
+  lapses: number;            // Times missed (in games or reviews)
+  lastResponseMs: number | null;
+}
+
+interface StoredDeck {
+  version: number;
+  cards: PracticeCard[];
+}
+
+export const loadDeck = (): PracticeCard[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored = raw ? (JSON.parse(raw) as StoredDeck) : null;
+    // Version 1 is the only shape so far; anything else starts a fresh deck
+    return stored?.version === DECK_VERSION && Array.isArray(stored.cards) ? stored.cards : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveDeck = (cards: PracticeCard[]): void => {
+  try {
+    const stored: StoredDeck = { version: DECK_VERSION, cards };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage unavailable - the deck lives for this session only
+  }
+};
+
+// Puts missed countries (back) into box 1, due straight away
+export const addMissedCountries = (cards: PracticeCard[], countries: string[], now: number): PracticeCard[] => {
+  const missed = new Set(countries);
+  const updated = cards.map(card => missed.has(card.country)
+    ? { ...card, box: 1, due: now, lapses: card.lapses + 1 }
+    : card);
+  const known = new Set(cards.map(card => card.country));
+  missed.forEach(country => {
+    if (!known.has(country)) {
+      updated.push({ country, box: 1, due: now, reviews: 0, lapses: 1, lastResponseMs: null });
+    }
+  });
+  return updated;
+};
+
+export const reviewCard = (card: PracticeCard, correct: boolean, responseMs: number, now: number): PracticeCard => {
+  let box = 1;
+  if (correct) box = responseMs > SLOW_RESPONSE_MS ? card.box : Math.min(MAX_BOX, card.box + 1);
+  return {
+    ...card,
+    box,
+    due: now + BOX_INTERVALS_DAYS[box - 1] * DAY_MS,
+    reviews: card.reviews + 1,
+    lapses: correct ? card.lapses : card.lapses + 1,
+    lastResponseMs: responseMs,
+  };
+};
+
+// Cards due for review, lowest box (weakest) first
+export const dueCards = (cards: PracticeCard[], now: number): PracticeCard[] => {
+  return cards.filter(card => card.due <= now).sort((a, b) => a.box - b.box || a.due - b.due);
+};
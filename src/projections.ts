@@ -0,0 +1,61 @@
+import * as d3 from 'd3';
+
+// --- Map projections the player can switch between ---
+// The choice is remembered in localStorage.
+
+export const MAP_PROJECTIONS = ['equirectangular', 'naturalEarth', 'equalEarth', 'globe'] as const;
+export type MapProjectionId = typeof MAP_PROJECTIONS[number];
+
+const STORAGE_KEY = 'world-map-quiz:projection';
+
+export const PROJECTION_LABELS: Record<MapProjectionId, string> = {
+  equirectangular: 'Equirectangular',
+  naturalEarth: 'Natural Earth',
+  equalEarth: 'Equal Earth', // Robinson-like, but equal-area
+  globe: 'Globe',
+};
+
+// Where the globe faces before the player drags it: [-longitude, -latitude] of the centre
+export const GLOBE_HOME_ROTATION: [number, number] = [-10, -20];
+
+export const isMapProjection = (value: unknown): value is MapProjectionId => {
+  return MAP_PROJECTIONS.includes(value as MapProjectionId);
+};
+
+// The globe is turned rather than panned
+export const isGlobe = (id: MapProjectionId) => id === 'globe';
+
+// Unfitted projection; WorldMap fits it to the world or the selected region
+export const createProjection = (id: MapProjectionId): d3.GeoProjection => {
+  switch (id) {
+    case 'naturalEarth': return d3.geoNaturalEarth1();
+    case 'equalEarth': return d3.geoEqualEarth();
+    case 'globe': return d3.geoOrthographic().clipAngle(90).rotate(GLOBE_HOME_ROTATION);
+    default: return d3.geoEquirectangular();
+  }
+};
+
+// Whether a [lon, lat] point is on the drawn side of the projection (the globe hides its back)
+export const isPointVisible = (projection: d3.GeoProjection, point: [number, number]): boolean => {
+  const clipAngle = projection.clipAngle();
+  if (!clipAngle) return true;
+  const [lambda, phi] = projection.rotate();
+  return d3.geoDistance(point, [-lambda, -phi]) < (clipAngle * Math.PI) / 180;
+};
+
+export const loadProjection = (): MapProjectionId => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isMapProjection(stored) ? stored : 'equirectangular';
+  } catch {
+    return 'equirectangular';
+  }
+};
+
+export const saveProjection = (id: MapProjectionId): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch {
+    // Storage unavailable - the choice lasts for this session
+  }
+};
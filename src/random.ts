@@ -0,0 +1,32 @@
+// A random source: returns numbers in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+// 32-bit FNV-1a hash, turns a seed string into a PRNG state
+const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Mulberry32 PRNG seeded from a string. The same seed always yields the same
+ * sequence, so a daily puzzle can be rebuilt from its seed alone.
+ */
+export const createSeededRandom = (seed: string): RandomSource => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Picks one item, or undefined from an empty list
+export const pickRandom = <T>(items: T[], random: RandomSource = Math.random): T | undefined => {
+  return items[Math.floor(random() * items.length)];
+};
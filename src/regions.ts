@@ -0,0 +1,53 @@
+import { QUIZ_COUNTRY_RECORDS } from './data/countries';
+import { SUBREGIONS, type Continent } from './countryRegistry';
+
+// A selectable part of the world for Classic mode. Selections are lists of region ids
+// (e.g. ['europe', 'western-asia']); an empty selection means the whole world.
+export interface RegionOption {
+  id: string;
+  label: string;
+  countries: string[]; // Display names of the quiz countries in the region
+}
+
+const slug = (label: string): string => label.toLowerCase().replace(/[^a-z]+/g, '-');
+
+const continentRegion = (label: string, continents: Continent[]): RegionOption => ({
+  id: slug(label),
+  label,
+  countries: QUIZ_COUNTRY_RECORDS.filter(record => continents.includes(record.continent)).map(record => record.name),
+});
+
+export const CONTINENT_REGIONS: RegionOption[] = [
+  continentRegion('Africa', ['Africa']),
+  continentRegion('Americas', ['North America', 'South America']),
+  continentRegion('Asia', ['Asia']),
+  continentRegion('Europe', ['Europe']),
+  continentRegion('Oceania', ['Oceania']),
+];
+
+// Subregions without any quiz country (Antarctica) are left out
+export const SUBREGION_REGIONS: RegionOption[] = SUBREGIONS
+  .map(subregion => ({
+    id: slug(subregion),
+    label: subregion,
+    countries: QUIZ_COUNTRY_RECORDS.filter(record => record.subregion === subregion).map(record => record.name),
+  }))
+  .filter(region => region.countries.length > 0);
+
+const REGIONS_BY_ID = new Map([...CONTINENT_REGIONS, ...SUBREGION_REGIONS].map(region => [region.id, region]));
+
+export const isRegionId = (id: string): boolean => REGIONS_BY_ID.has(id);
+
+// Quiz countries in any of the selected regions, in registry order (null = whole world)
+export const countriesInRegions = (regionIds: string[]): string[] | null => {
+  const regions = regionIds.map(id => REGIONS_BY_ID.get(id)).filter((r): r is RegionOption => !!r);
+  if (regions.length === 0) return null;
+  const selected = new Set(regions.flatMap(region => region.countries));
+  return QUIZ_COUNTRY_RECORDS.map(record => record.name).filter(name => selected.has(name));
+};
+
+// "Europe + Western Asia"
+export const describeRegions = (regionIds: string[]): string => {
+  const labels = regionIds.map(id => REGIONS_BY_ID.get(id)?.label).filter(Boolean);
+  return labels.length ? labels.join(' + ') : 'World';
+};
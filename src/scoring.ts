@@ -0,0 +1,38 @@
+// Points for a correct answer and the penalty for each wrong guess
+export const POINTS_PER_CORRECT = 10;
+export const WRONG_GUESS_PENALTY = 3;
+
+// `hintPoints` is what the hints taken cost (hintPenalty() in hints.ts)
+export const computeScore = (correct: number, wrongGuesses: number, hintPoints = 0): number => {
+  return Math.max(0, correct * POINTS_PER_CORRECT - wrongGuesses * WRONG_GUESS_PENALTY - hintPoints);
+};
+
+// Locate mode: full points for a direct hit, dropping linearly to zero at LOCATE_ZERO_POINTS_KM
+export const LOCATE_MAX_POINTS = 100;
+export const LOCATE_ZERO_POINTS_KM = 5000;
+
+export const proximityScore = (distanceKm: number): number => {
+  return Math.round(LOCATE_MAX_POINTS * Math.max(0, 1 - distanceKm / LOCATE_ZERO_POINTS_KM));
+};
+
+// Silhouette mode: 100 for a shape named straight away, less for each wrong guess,
+// halved when the surrounding outline was shown
+export const SILHOUETTE_MAX_POINTS = 100;
+export const SILHOUETTE_WRONG_PENALTY = 25;
+
+export const silhouetteScore = (wrongGuesses: number, outlined: boolean): number => {
+  const points = Math.max(0, SILHOUETTE_MAX_POINTS - wrongGuesses * SILHOUETTE_WRONG_PENALTY);
+  return outlined ? Math.round(points / 2) : points;
+};
+
+// Mystery mode: 100 for a first-guess win, dropping evenly with each guess after it
+export const mysteryScore = (guessCount: number, maxGuesses: number): number => {
+  if (guessCount === 0 || guessCount > maxGuesses) return 0;
+  return Math.round(100 * (maxGuesses - guessCount + 1) / maxGuesses);
+};
+
+// Route mode: 100 for an optimal route, shrinking as extra countries are guessed
+export const routeScore = (guessCount: number, optimalLength: number): number => {
+  if (guessCount === 0) return 0;
+  return Math.round(100 * Math.min(1, optimalLength / guessCount));
+};
@@ -0,0 +1,90 @@
+import { getCountryByIso, getCountryByName } from './countryRegistry';
+import { isRegionId } from './regions';
+import { isGameModeId, type GameModeId } from './gameModes';
+import { isClassicVariant, type ClassicVariant } from './classicVariants';
+
+// Everything needed to replay the exact same puzzle
+export interface ChallengeConfig {
+  mode: GameModeId;
+  seed?: string;          // Seeded modes (Daily, Locate, Route)
+  target?: string;        // Neighbors target, as a display name
+  hardMode?: boolean;     // Neighbors Hard Mode
+  regions?: string[];     // Classic region filter (ids from regions.ts)
+  variant?: ClassicVariant; // Classic countdown/sprint ('open' is left out)
+}
+
+// --- URL encoding ---
+// The target goes in as its ISO alpha-3 code so the link doesn't spell out the answer.
+
+export const encodeChallenge = (config: ChallengeConfig): string => {
+  const params = new URLSearchParams({ mode: config.mode });
+  if (config.seed) params.set('seed', config.seed);
+  const targetCode = config.target ? getCountryByName(config.target)?.alpha3 : null;
+  if (targetCode) params.set('target', targetCode);
+  if (config.hardMode) params.set('hard', '1');
+  if (config.regions?.length) params.set('regions', config.regions.join(','));
+  if (config.variant && config.variant !== 'open') params.set('variant', config.variant);
+  return params.toString();
+};
+
+// Parses a query string (with or without the leading "?"). Unknown values are dropped;
+// returns null when there's no valid mode, i.e. the URL isn't a challenge link.
+export const decodeChallenge = (search: string): ChallengeConfig | null => {
+  const params = new URLSearchParams(search);
+  const mode = params.get('mode');
+  if (!mode || !isGameModeId(mode)) return null;
+
+  const config: ChallengeConfig = { mode };
+  const seed = params.get('seed');
+  if (seed) config.seed = seed;
+  const target = getCountryByIso(params.get('target') || '');
+  if (target) config.target = target.name;
+  if (params.get('hard') === '1') config.hardMode = true;
+  const regions = (params.get('regions') || '').split(',').filter(isRegionId);
+  if (regions.length) config.regions = regions;
+  const variant = params.get('variant');
+  if (variant && isClassicVariant(variant)) config.variant = variant;
+  return config;
+};
+
+export const challengeUrl = (config: ChallengeConfig): string => {
+  return `${window.location.origin}${window.location.pathname}?${encodeChallenge(config)}`;
+};
+
+// --- Emoji summaries ---
+
+export interface ShareSummary {
+  title: string;            // e.g. "Classic" or "Neighbors (Hard)"
+  stats: string[];          // Joined with " · " on one line
+  squares: string;          // The Wordle-style grid
+  url: string;
+}
+
+export const buildShareText = ({ title, stats, squares, url }: ShareSummary): string => {
+  return [`🌍 World Map Quiz: ${title}`, stats.join(' · '), squares, url].filter(Boolean).join('\n');
+};
+
+// "💡 2 hints", or null for a clean run
+export const hintStat = (count: number): string | null => {
+  return count > 0 ? `💡 ${count} ${count === 1 ? 'hint' : 'hints'}` : null;
+};
+
+// A fixed-width bar, e.g. 7 of 10 -> 🟩🟩🟩🟩🟩🟩🟩🟥🟥🟥
+export const progressBar = (part: number, total: number, width = 10): string => {
+  const filled = total > 0 ? Math.round((part / total) * width) : 0;
+  return '🟩'.repeat(filled) + '🟥'.repeat(width - filled);
+};
+
+// Uses the native share sheet where there is one, otherwise the clipboard
+export const shareText = async (text: string): Promise<'shared' | 'copied' | 'failed'> => {
+  try {
+    if (navigator.share) {
+      await navigator.share({ text });
+      return 'shared';
+    }
+    await navigator.clipboard.writeText(text);
+    return 'copied';
+  } catch {
+    return 'failed';
+  }
+};
@@ -0,0 +1,340 @@
+import type { LabelKind, LineKind, MapFill } from './mapView';
+
+// --- Colour themes for the map and the UI ---
+// Modes only name what a country is (found, missed, ...); the theme decides how that looks.
+// The map reads the palette directly, the stylesheets through the CSS variables applyTheme()
+// sets. The choice is remembered in localStorage.
+
+export const THEME_IDS = ['dark', 'light', 'highContrast', 'deuteranopia', 'protanopia'] as const;
+export type ThemeId = typeof THEME_IDS[number];
+
+const STORAGE_KEY = 'world-map-quiz:theme';
+
+export interface LabelStyle {
+  color: string;
+  halo: string;           // Text stroke
+}
+
+export interface MapPalette {
+  fills: Record<MapFill, string>;
+  labels: Record<LabelKind, LabelStyle>;
+  proximityRamp: string[]; // Cold to warm; fills.proximity is its warm end
+  ocean: string;
+  graticule: string;
+  border: string;         // Country outlines
+  hatch: string;          // Lines and dots of the state patterns
+  dot: string;            // "Still to find"
+  capital: string;
+  capitalStroke: string;
+  leader: string;         // Lines from called-out labels
+  lines: Record<LineKind, string>;
+  insetContext: string;   // Neighbouring land in the inset boxes
+}
+
+export interface UiPalette {
+  background: string;
+  surface: string;        // Panels and popovers
+  control: string;        // Buttons floating over the map
+  border: string;
+  accent: string;
+  accentSoft: string;     // Hover and secondary accent
+  onAccent: string;       // Text on accent backgrounds
+  text: string;
+  textStrong: string;
+  textMuted: string;
+  textFaint: string;
+  success: string;
+  successText: string;
+  warning: string;
+  warningText: string;
+  danger: string;
+  dangerStrong: string;
+  dangerText: string;
+}
+
+export interface Theme {
+  id: ThemeId;
+  label: string;
+  map: MapPalette;
+  ui: UiPalette;
+}
+
+const DARK: Theme = {
+  id: 'dark',
+  label: 'Dark',
+  map: {
+    fills: {
+      land: '#d3d3d3',
+      notInQuiz: '#808080',   // Territories, and countries outside the selected region
+      found: '#34D399',
+      missed: '#ef4444',
+      highlight: '#FBBF24',   // Targets, endpoints and prompts
+      offRoute: '#f97316',
+      proximity: '#dc2626',
+    },
+    labels: {
+      normal: { color: '#ffffff', halo: '#000000' },
+      missed: { color: '#ff4444', halo: '#660000' },
+      revealed: { color: '#ef4444', halo: 'rgba(0,0,0,0.3)' },          // Answers shown after giving up
+      onHighlight: { color: '#000000', halo: 'rgba(255,255,255,0.5)' }, // Dark text on gold
+    },
+    proximityRamp: ['#3b82f6', '#a5b4fc', '#fde68a', '#f97316', '#dc2626'],
+    ocean: '#202022',
+    graticule: '#3f3f46',
+    border: '#000000',
+    hatch: 'rgba(0, 0, 0, 0.35)',
+    dot: '#ef4444',
+    capital: '#ffffff',
+    capitalStroke: '#000000',
+    leader: '#ffffff',
+    lines: { chain: '#1d4ed8', best: '#c026d3' },
+    insetContext: '#52525b',
+  },
+  ui: {
+    background: '#18181b',
+    surface: 'rgba(24, 24, 28, 0.98)',
+    control: 'rgba(24, 24, 27, 0.9)',
+    border: '#3f3f46',
+    accent: '#60a5fa',
+    accentSoft: '#93c5fd',
+    onAccent: '#000000',
+    text: '#f4f4f5',
+    textStrong: '#e4e4e7',
+    textMuted: '#a1a1aa',
+    textFaint: '#71717a',
+    success: '#34D399',
+    successText: '#86efac',
+    warning: '#FBBF24',
+    warningText: '#fcd34d',
+    danger: '#ef4444',
+    dangerStrong: '#dc2626',
+    dangerText: '#fca5a5',
+  },
+};
+
+const LIGHT: Theme = {
+  id: 'light',
+  label: 'Light',
+  map: {
+    ...DARK.map,
+    fills: {
+      land: '#f4f4f5',
+      notInQuiz: '#a1a1aa',
+      found: '#10b981',
+      missed: '#dc2626',
+      highlight: '#f59e0b',
+      offRoute: '#ea580c',
+      proximity: '#dc2626',
+    },
+    labels: {
+      ...DARK.map.labels,
+      missed: { color: '#b91c1c', halo: '#ffffff' },
+      revealed: { color: '#b91c1c', halo: 'rgba(255,255,255,0.6)' },
+    },
+    ocean: '#dbeafe',
+    graticule: '#bfdbfe',
+    border: '#52525b',
+    hatch: 'rgba(0, 0, 0, 0.25)',
+    leader: '#18181b',
+    insetContext: '#d4d4d8',
+  },
+  ui: {
+    background: '#fafafa',
+    surface: 'rgba(255, 255, 255, 0.98)',
+    control: 'rgba(255, 255, 255, 0.9)',
+    border: '#d4d4d8',
+    accent: '#2563eb',
+    accentSoft: '#1d4ed8',
+    onAccent: '#ffffff',
+    text: '#18181b',
+    textStrong: '#27272a',
+    textMuted: '#52525b',
+    textFaint: '#71717a',
+    success: '#059669',
+    successText: '#047857',
+    warning: '#d97706',
+    warningText: '#b45309',
+    danger: '#dc2626',
+    dangerStrong: '#b91c1c',
+    dangerText: '#b91c1c',
+  },
+};
+
+const HIGH_CONTRAST: Theme = {
+  id: 'highContrast',
+  label: 'High contrast',
+  map: {
+    fills: {
+      land: '#ffffff',
+      notInQuiz: '#4d4d4d',
+      found: '#00e676',
+      missed: '#ff1744',
+      highlight: '#ffea00',
+      offRoute: '#ff9100',
+      proximity: '#ff1744',
+    },
+    labels: {
+      normal: { color: '#ffffff', halo: '#000000' },
+      missed: { color: '#ffffff', halo: '#b00020' },
+      revealed: { color: '#ffea00', halo: '#000000' },
+      onHighlight: { color: '#000000', halo: '#ffffff' },
+    },
+    proximityRamp: ['#2979ff', '#00e5ff', '#ffea00', '#ff9100', '#ff1744'],
+    ocean: '#000000',
+    graticule: '#333333',
+    border: '#000000',
+    hatch: 'rgba(0, 0, 0, 0.6)',
+    dot: '#ff1744',
+    capital: '#ffffff',
+    capitalStroke: '#000000',
+    leader: '#ffffff',
+    lines: { chain: '#2979ff', best: '#d500f9' },
+    insetContext: '#4d4d4d',
+  },
+  ui: {
+    background: '#000000',
+    surface: '#000000',
+    control: '#000000',
+    border: '#ffffff',
+    accent: '#ffea00',
+    accentSoft: '#fff59d',
+    onAccent: '#000000',
+    text: '#ffffff',
+    textStrong: '#ffffff',
+    textMuted: '#e0e0e0',
+    textFaint: '#bdbdbd',
+    success: '#00e676',
+    successText: '#69f0ae',
+    warning: '#ffea00',
+    warningText: '#ffff8d',
+    danger: '#ff1744',
+    dangerStrong: '#ff5252',
+    dangerText: '#ff8a80',
+  },
+};
+
+// Okabe-Ito colours: found and missed differ in lightness as well as hue
+const DEUTERANOPIA: Theme = {
+  id: 'deuteranopia',
+  label: 'Deuteranopia',
+  map: {
+    ...DARK.map,
+    fills: {
+      ...DARK.map.fills,
+      found: '#56B4E9',   // Sky blue
+      missed: '#D55E00',  // Vermillion
+      highlight: '#F0E442',
+      offRoute: '#CC79A7',
+      proximity: '#E69F00',
+    },
+    labels: {
+      ...DARK.map.labels,
+      missed: { color: '#ffb000', halo: '#000000' },
+      revealed: { color: '#ffb000', halo: 'rgba(0,0,0,0.5)' },
+    },
+    proximityRamp: ['#0072B2', '#56B4E9', '#F0E442', '#E69F00'], // Blue to orange, no red/green
+    lines: { chain: '#000000', best: '#CC79A7' },
+    dot: '#E69F00',
+  },
+  ui: {
+    ...DARK.ui,
+    success: '#56B4E9',
+    successText: '#9bd3f2',
+    warning: '#F0E442',
+    warningText: '#f6ee8a',
+    danger: '#E69F00',
+    dangerStrong: '#D55E00',
+    dangerText: '#f2c266',
+  },
+};
+
+// Protanopes see reds as dark, so missed is a bright orange against a deep blue
+const PROTANOPIA: Theme = {
+  id: 'protanopia',
+  label: 'Protanopia',
+  map: {
+    ...DEUTERANOPIA.map,
+    fills: {
+      ...DEUTERANOPIA.map.fills,
+      found: '#0072B2',   // Blue
+      missed: '#E69F00',  // Orange
+    },
+    labels: {
+      ...DEUTERANOPIA.map.labels,
+      missed: { color: '#ffd166', halo: '#000000' },
+      revealed: { color: '#ffd166', halo: 'rgba(0,0,0,0.5)' },
+    },
+    hatch: 'rgba(255, 255, 255, 0.45)',
+    dot: '#F0E442',
+  },
+  ui: {
+    ...DEUTERANOPIA.ui,
+    success: '#3b9bd6',
+    successText: '#8cc8ec',
+    danger: '#E69F00',
+    dangerStrong: '#f0b323',
+    dangerText: '#ffd166',
+  },
+};
+
+export const THEMES: Record<ThemeId, Theme> = {
+  dark: DARK,
+  light: LIGHT,
+  highContrast: HIGH_CONTRAST,
+  deuteranopia: DEUTERANOPIA,
+  protanopia: PROTANOPIA,
+};
+
+// CSS variable each UI colour is written to (App.css and WorldMap.css default to the dark theme)
+const CSS_VARIABLES: Record<keyof UiPalette, string> = {
+  background: '--bg-color',
+  surface: '--surface',
+  control: '--control-bg',
+  border: '--land-border',
+  accent: '--accent',
+  accentSoft: '--accent-soft',
+  onAccent: '--on-accent',
+  text: '--text-main',
+  textStrong: '--text-strong',
+  textMuted: '--text-muted',
+  textFaint: '--text-faint',
+  success: '--success',
+  successText: '--success-text',
+  warning: '--warning',
+  warningText: '--warning-text',
+  danger: '--danger',
+  dangerStrong: '--danger-strong',
+  dangerText: '--danger-text',
+};
+
+export const applyTheme = (theme: Theme): void => {
+  const { style } = document.documentElement;
+  (Object.keys(CSS_VARIABLES) as (keyof UiPalette)[]).forEach(key => {
+    style.setProperty(CSS_VARIABLES[key], theme.ui[key]);
+  });
+  // The map's own colours that the stylesheets need (flashes, the map edge)
+  style.setProperty('--map-ocean', theme.map.ocean);
+  style.setProperty('--map-highlight', theme.map.fills.highlight);
+  style.colorScheme = theme.id === 'light' ? 'light' : 'dark';
+};
+
+export const isThemeId = (value: unknown): value is ThemeId => {
+  return THEME_IDS.includes(value as ThemeId);
+};
+
+export const loadTheme = (): ThemeId => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isThemeId(stored) ? stored : 'dark';
+  } catch {
+    return 'dark';
+  }
+};
+
+export const saveTheme = (id: ThemeId): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch {
+    // Storage unavailable - the choice lasts for this session
+  }
+};
@@ -0,0 +1,126 @@
+import { useState, useCallback, useEffect } from 'react';
+import { matchCountry } from './countryMatcher';
+import { longestChain } from './mapHelpers';
+import type { GuessFeedback } from './guessFeedback';
+import { pickRandom, type RandomSource } from './random';
+
+// --- Chain mode ("snake") ---
+// From a random start, each guess must share a land border with the last country in the
+// chain and not be in it already. The round ends when the last country has no way on, or
+// on giving up; the score is the number of countries added.
+
+// The longest chain from a start, shown at the end of the round
+interface LongestChain {
+  start: string;
+  chain: string[];
+  complete: boolean; // The search checked every chain, so it really is the longest
+}
+
+interface ChainGameState {
+  chain: string[];          // Start first
+  wrongGuesses: number;
+  longest: LongestChain | null;
+  gameStatus: 'idle' | 'playing' | 'stuck' | 'gaveUp';
+}
+
+const NO_CHAIN: string[] = [];
+
+// Runs `callback` when the browser is idle (Safari has no requestIdleCallback); returns a cancel function
+const whenIdle = (callback: () => void): (() => void) => {
+  if (typeof requestIdleCallback === 'function') {
+    const handle = requestIdleCallback(callback, { timeout: 1000 });
+    return () => cancelIdleCallback(handle);
+  }
+  const timeout = setTimeout(callback, 0);
+  return () => clearTimeout(timeout);
+};
+
+export const useChainGame = (neighborMap: Map<string, string[]>, centroids: Map<string, [number, number]>) => {
+  const [gameState, setGameState] = useState<ChainGameState>({
+    chain: [],
+    wrongGuesses: 0,
+    longest: null,
+    gameStatus: 'idle',
+  });
+
+  // Pass a seeded random source to get a reproducible start (Daily challenge)
+  const startNewRound = useCallback((random: RandomSource = Math.random) => {
+    const start = pickRandom(Array.from(neighborMap.keys()).sort(), random);
+    if (!start) return;
+    setGameState(prev => ({
+      chain: [start],
+      wrongGuesses: 0,
+      longest: prev.longest?.start === start ? prev.longest : null,
+      gameStatus: 'playing',
+    }));
+  }, [neighborMap]);
+
+  // The search for the longest chain takes a while, so it runs once the round is showing
+  const start = gameState.chain[0] ?? null;
+  const longestStart = gameState.longest?.start ?? null;
+  useEffect(() => {
+    if (!start || longestStart === start) return;
+    return whenIdle(() => {
+      const { chain, complete } = longestChain(neighborMap, start);
+      setGameState(prev => (prev.chain[0] === start ? { ...prev, longest: { start, chain, complete } } : prev));
+    });
+  }, [start, longestStart, neighborMap]);
+
+  const last = gameState.chain[gameState.chain.length - 1] ?? null;
+
+  // A country that doesn't border the last one only counts as wrong once submitted:
+  // "Niger" may just be the start of "Nigeria".
+  const checkGuess = useCallback((input: string, submitted = false): GuessFeedback | null => {
+    const { chain, gameStatus } = gameState;
+    if (gameStatus !== 'playing' || !last) return null;
+
+    const guess = matchCountry(input);
+    if (!guess) return submitted ? { result: 'unknown', input, country: null } : null;
+    if (chain.includes(guess)) return { result: 'duplicate', input, country: guess, message: `${guess} is already in the chain` };
+
+    if (!(neighborMap.get(last) || []).includes(guess)) {
+      if (!submitted) return null;
+      setGameState(prev => ({ ...prev, wrongGuesses: prev.wrongGuesses + 1 }));
+      return { result: 'wrong', input, country: guess, message: `${guess} doesn't border ${last}` };
+    }
+
+    const nextChain = [...chain, guess];
+    const stuck = (neighborMap.get(guess) || []).every(n => nextChain.includes(n));
+    setGameState(prev => ({ ...prev, chain: nextChain, gameStatus: stuck ? 'stuck' : 'playing' }));
+    return {
+      result: 'correct',
+      input,
+      country: guess,
+      message: stuck ? `${guess}: no way on, the chain ends here` : `${guess} added`,
+    };
+  }, [gameState, last, neighborMap]);
+
+  const giveUp = useCallback(() => {
+    setGameState(prev => (prev.gameStatus === 'playing' ? { ...prev, gameStatus: 'gaveUp' } : prev));
+  }, []);
+
+  // Centroids of a chain, for drawing it as a line
+  const pointsOf = useCallback((countries: string[]) => {
+    return countries.flatMap(country => {
+      const centroid = centroids.get(country);
+      return centroid ? [centroid] : [];
+    });
+  }, [centroids]);
+
+  const longest = gameState.longest?.start === start ? gameState.longest : null;
+  return {
+    ...gameState,
+    lastCountry: last,
+    longest: longest?.chain ?? NO_CHAIN,
+    longestComplete: !!longest?.complete,
+    longestReady: !!longest, // Still searching until true
+    score: Math.max(gameState.chain.length - 1, 0),
+    bestScore: Math.max((longest?.chain.length ?? 0) - 1, 0),
+    startNewRound,
+    checkGuess,
+    giveUp,
+    pointsOf,
+  };
+};
+
+export type ChainGame = ReturnType<typeof useChainGame>;
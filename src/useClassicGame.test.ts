@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { classicGameReducer, initialClassicState, type ClassicAction, type ClassicGameState } from './useClassicGame';
+
+const COUNTRIES = ['France', 'Spain', 'Portugal'];
+
+const play = (...actions: ClassicAction[]): ClassicGameState => actions.reduce(classicGameReducer, initialClassicState);
+const start = (goal = COUNTRIES.length, timeLimitMs: number | null = null): ClassicAction => ({ type: 'start', countries: COUNTRIES, goal, timeLimitMs });
+const guess = (country: string, submitted = false): ClassicAction => ({ type: 'guess', country, submitted });
+
+describe('classicGameReducer', () => {
+  it('completes once every country is named', () => {
+    const state = play(start(), guess('France'), guess('Spain'), guess('Portugal'));
+    expect(state.status).toBe('complete');
+    expect(state.guessedOrder).toEqual(['France', 'Spain', 'Portugal']);
+    expect(state.revealedCountries).toEqual([]);
+    expect(state.events.map(e => e.type)).toEqual(['start', 'guess', 'guess', 'guess', 'complete']);
+  });
+
+  it('completes a sprint at its goal', () => {
+    const state = play(start(2), guess('France'), guess('Spain'));
+    expect(state.status).toBe('complete');
+    expect(classicGameReducer(state, guess('Portugal'))).toBe(state);
+  });
+
+  it('reveals the remaining countries on giving up', () => {
+    const state = play(start(), guess('Spain'), { type: 'giveUp' });
+    expect(state.status).toBe('gaveUp');
+    expect(state.revealedCountries).toEqual(['France', 'Portugal']);
+    expect(state.guessedOrder).toEqual(['Spain', 'France', 'Portugal']);
+    expect(Object.keys(state.guessedCountries).sort()).toEqual([...COUNTRIES].sort());
+    expect(classicGameReducer(state, { type: 'giveUp' })).toBe(state);
+  });
+
+  it('reveals the remaining countries when the time is up', () => {
+    const state = play(start(COUNTRIES.length, 60_000), guess('France'), { type: 'tick', elapsedMs: 59_000 });
+    expect(state.status).toBe('playing');
+
+    const timedOut = classicGameReducer(state, { type: 'tick', elapsedMs: 60_000 });
+    expect(timedOut.status).toBe('timeUp');
+    expect(timedOut.revealedCountries).toEqual(['Spain', 'Portugal']);
+    expect(timedOut.events[timedOut.events.length - 1]).toEqual({ type: 'timeUp', atMs: 60_000 });
+  });
+
+  it('counts submitted duplicates as wrong, but not ones typed live', () => {
+    const state = play(start(), guess('France'), guess('France'));
+    expect(state.wrongGuesses).toBe(0);
+
+    const submitted = classicGameReducer(state, guess('France', true));
+    expect(submitted.wrongGuesses).toBe(1);
+    expect(submitted.guessedOrder).toEqual(['France']);
+    expect(submitted.events[submitted.events.length - 1]).toMatchObject({ type: 'duplicate', country: 'France' });
+  });
+
+  it('counts submitted misses', () => {
+    const outside = play(start(), guess('Germany'));
+    expect(outside.wrongGuesses).toBe(0);
+    expect(classicGameReducer(outside, guess('Germany', true)).wrongGuesses).toBe(1);
+    expect(classicGameReducer(outside, { type: 'miss' }).wrongGuesses).toBe(1);
+  });
+
+  it('ignores guesses while paused', () => {
+    const paused = play(start(), { type: 'pause' });
+    expect(classicGameReducer(paused, guess('France'))).toBe(paused);
+    expect(classicGameReducer(paused, { type: 'miss' })).toBe(paused);
+  });
+});
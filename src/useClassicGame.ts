@@ -0,0 +1,207 @@
+import { useReducer, useCallback } from 'react';
+import { useGameClock } from './useGameClock';
+import { CLASSIC_HINT_TIERS, nextHint, type Hint } from './hints';
+
+// --- Classic / Capitals game engine ---
+// All state changes go through classicGameReducer, a pure function of (state, action),
+// so a game can be replayed or tested without React. The hook only adds the clock.
+
+export interface GuessedCountries {
+  [countryName: string]: boolean;
+}
+
+// 'complete' = the goal was reached; 'gaveUp' / 'timeUp' = the rest was revealed
+export type ClassicGameStatus = 'idle' | 'playing' | 'complete' | 'gaveUp' | 'timeUp';
+
+export interface ClassicEvent {
+  type: 'start' | 'guess' | 'duplicate' | 'miss' | 'hint' | 'pause' | 'resume' | 'complete' | 'giveUp' | 'timeUp';
+  country?: string;
+  atMs: number; // Game time (elapsedMs) when it happened
+}
+
+export interface ClassicGameState {
+  countries: string[];          // Everything that can be named this game (the region subset)
+  goal: number;                 // Correct guesses that finish the game (sprints stop early)
+  timeLimitMs: number | null;   // Countdown games
+  guessedCountries: GuessedCountries;
+  guessedOrder: string[];       // Named and revealed countries, in order
+  revealedCountries: string[];
+  wrongGuesses: number;         // Submitted guesses that weren't correct
+  hints: Hint[];
+  elapsedMs: number;
+  paused: boolean;
+  status: ClassicGameStatus;
+  events: ClassicEvent[];
+}
+
+export type ClassicAction =
+  | { type: 'start'; countries: string[]; goal: number; timeLimitMs: number | null }
+  | { type: 'guess'; country: string; submitted: boolean } // `country` is already resolved
+  | { type: 'miss' }                                        // A submitted guess that didn't resolve
+  | { type: 'hint'; hint: Hint }
+  | { type: 'giveUp' }
+  | { type: 'tick'; elapsedMs: number }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'reset' };
+
+// 'outside' = a real country, but not one of this game's countries
+export type ClassicGuessResult = 'correct' | 'duplicate' | 'outside';
+
+export const initialClassicState: ClassicGameState = {
+  countries: [],
+  goal: 0,
+  timeLimitMs: null,
+  guessedCountries: {},
+  guessedOrder: [],
+  revealedCountries: [],
+  wrongGuesses: 0,
+  hints: [],
+  elapsedMs: 0,
+  paused: false,
+  status: 'idle',
+  events: [],
+};
+
+export const classifyClassicGuess = (state: ClassicGameState, country: string): ClassicGuessResult => {
+  if (!state.countries.includes(country)) return 'outside';
+  return state.guessedCountries[country] ? 'duplicate' : 'correct';
+};
+
+const withEvent = (state: ClassicGameState, event: Omit<ClassicEvent, 'atMs'>): ClassicGameState => ({
+  ...state,
+  events: [...state.events, { ...event, atMs: state.elapsedMs }],
+});
+
+// Fills in every country that hasn't been named and ends the game
+const revealRemaining = (state: ClassicGameState, status: 'gaveUp' | 'timeUp'): ClassicGameState => {
+  const remaining = state.countries.filter(country => !state.guessedCountries[country]);
+  const guessedCountries = { ...state.guessedCountries };
+  remaining.forEach(country => {
+    guessedCountries[country] = true;
+  });
+  return withEvent({
+    ...state,
+    guessedCountries,
+    guessedOrder: [...state.guessedOrder, ...remaining],
+    revealedCountries: remaining,
+    paused: false,
+    status,
+  }, { type: status === 'gaveUp' ? 'giveUp' : 'timeUp' });
+};
+
+export const classicGameReducer = (state: ClassicGameState, action: ClassicAction): ClassicGameState => {
+  switch (action.type) {
+    case 'start':
+      return {
+        ...initialClassicState,
+        countries: action.countries,
+        goal: action.goal,
+        timeLimitMs: action.timeLimitMs,
+        status: 'playing',
+        events: [{ type: 'start', atMs: 0 }],
+      };
+
+    case 'guess': {
+      if (state.status !== 'playing' || state.paused) return state;
+      const result = classifyClassicGuess(state, action.country);
+      if (result !== 'correct') {
+        // While typing live, "Niger" may just be the start of "Nigeria" - only count submissions
+        if (!action.submitted) return state;
+        return withEvent(
+          { ...state, wrongGuesses: state.wrongGuesses + 1 },
+          { type: result === 'duplicate' ? 'duplicate' : 'miss', country: action.country }
+        );
+      }
+      const guessedOrder = [...state.guessedOrder, action.country];
+      const complete = guessedOrder.length >= state.goal;
+      const next = withEvent({
+        ...state,
+        guessedCountries: { ...state.guessedCountries, [action.country]: true },
+        guessedOrder,
+        status: complete ? 'complete' : 'playing',
+      }, { type: 'guess', country: action.country });
+      return complete ? withEvent(next, { type: 'complete' }) : next;
+    }
+
+    case 'miss':
+      if (state.status !== 'playing' || state.paused) return state;
+      return withEvent({ ...state, wrongGuesses: state.wrongGuesses + 1 }, { type: 'miss' });
+
+    case 'hint':
+      if (state.status !== 'playing' || state.paused) return state;
+      return withEvent({ ...state, hints: [...state.hints, action.hint] }, { type: 'hint', country: action.hint.country });
+
+    case 'giveUp':
+      return state.status === 'playing' ? revealRemaining(state, 'gaveUp') : state;
+
+    case 'tick': {
+      // The clock reports once more when it stops, so finished games still take the final time
+      if (state.status === 'idle') return state;
+      const next = { ...state, elapsedMs: action.elapsedMs };
+      const timeIsUp = state.status === 'playing' && state.timeLimitMs !== null && action.elapsedMs >= state.timeLimitMs;
+      return timeIsUp ? revealRemaining(next, 'timeUp') : next;
+    }
+
+    case 'pause':
+    case 'resume':
+      if (state.status !== 'playing' || state.paused === (action.type === 'pause')) return state;
+      return withEvent({ ...state, paused: action.type === 'pause' }, { type: action.type });
+
+    case 'reset':
+      return initialClassicState;
+  }
+};
+
+// `active` is false while another mode is showing, which stops the clock
+export const useClassicGame = (active: boolean) => {
+  const [gameState, dispatch] = useReducer(classicGameReducer, initialClassicState);
+
+  const tick = useCallback((elapsedMs: number) => dispatch({ type: 'tick', elapsedMs }), []);
+  const { reset: resetClock } = useGameClock(active && gameState.status === 'playing' && !gameState.paused, tick);
+
+  const start = useCallback((countries: string[], goal: number, timeLimitMs: number | null = null) => {
+    resetClock();
+    dispatch({ type: 'start', countries, goal, timeLimitMs });
+  }, [resetClock]);
+
+  const reset = useCallback(() => {
+    resetClock();
+    dispatch({ type: 'reset' });
+  }, [resetClock]);
+
+  // Scores an already resolved country. The result is worked out from the current
+  // render's state; the reducer applies the same rules to the latest state.
+  const guess = useCallback((country: string, submitted: boolean): ClassicGuessResult => {
+    dispatch({ type: 'guess', country, submitted });
+    return classifyClassicGuess(gameState, country);
+  }, [gameState]);
+
+  const miss = useCallback(() => dispatch({ type: 'miss' }), []);
+
+  // The next hint about a country that hasn't been named
+  const hint = useCallback(() => {
+    const remaining = gameState.countries.filter(country => !gameState.guessedCountries[country]);
+    const next = nextHint(CLASSIC_HINT_TIERS, gameState.hints, remaining);
+    if (next) dispatch({ type: 'hint', hint: next });
+  }, [gameState]);
+
+  const giveUp = useCallback(() => dispatch({ type: 'giveUp' }), []);
+  const pause = useCallback(() => dispatch({ type: 'pause' }), []);
+  const resume = useCallback(() => dispatch({ type: 'resume' }), []);
+
+  return {
+    ...gameState,
+    guessCount: gameState.guessedOrder.length,
+    start,
+    reset,
+    guess,
+    miss,
+    hint,
+    giveUp,
+    pause,
+    resume,
+  };
+};
+
+export type ClassicGame = ReturnType<typeof useClassicGame>;
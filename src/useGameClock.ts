@@ -0,0 +1,36 @@
+import { useEffect, useRef, useCallback } from 'react';
+
+const TICK_MS = 250;
+
+/**
+ * Measures the elapsed time of a game that can be paused and reports it through `onTick`
+ * (a few times a second, and once more whenever it stops). Time is measured with
+ * performance.now() (monotonic), so throttled timers in background tabs or a changed
+ * system clock can't make it drift. `onTick` should be stable.
+ */
+export const useGameClock = (running: boolean, onTick: (elapsedMs: number) => void) => {
+  const accumulatedRef = useRef(0);                     // Time from earlier running stretches
+  const segmentStartRef = useRef<number | null>(null);  // performance.now() when the current stretch began
+
+  useEffect(() => {
+    if (!running) return;
+    segmentStartRef.current = performance.now();
+    const read = () => accumulatedRef.current + performance.now() - (segmentStartRef.current ?? performance.now());
+    const interval = setInterval(() => onTick(read()), TICK_MS);
+
+    return () => {
+      clearInterval(interval);
+      accumulatedRef.current = read();
+      segmentStartRef.current = null;
+      onTick(accumulatedRef.current);
+    };
+  }, [running, onTick]);
+
+  // Back to zero; keeps running if it was
+  const reset = useCallback(() => {
+    accumulatedRef.current = 0;
+    if (segmentStartRef.current !== null) segmentStartRef.current = performance.now();
+  }, []);
+
+  return { reset };
+};
@@ -0,0 +1,127 @@
+import { useState, useCallback, useEffect } from 'react';
+import * as d3 from 'd3';
+import { distanceKm } from './mapHelpers';
+import { proximityScore } from './scoring';
+import type { RandomSource } from './random';
+
+export const LOCATE_ROUND_LENGTH = 10;
+export const MAX_LOCATE_ATTEMPTS = 3;
+const ADVANCE_DELAY_MS = 1500; // How long the answer flashes before the next prompt
+
+export interface LocateResult {
+  country: string;
+  attempts: number;
+  found: boolean;
+  distanceKm: number; // Distance of the first click from the target
+  points: number;
+}
+
+interface LocateGameState {
+  prompts: string[];
+  promptIndex: number;
+  attempts: number;
+  firstDistanceKm: number | null;
+  lastClick: { country: string; distanceKm: number } | null;
+  results: LocateResult[];
+  // 'revealing' = the current prompt is resolved and its country is flashing
+  gameStatus: 'idle' | 'playing' | 'revealing' | 'finished';
+  score: number;
+}
+
+export const useLocateGame = (centroids: Map<string, [number, number]>, validCountries: string[]) => {
+  const [gameState, setGameState] = useState<LocateGameState>({
+    prompts: [],
+    promptIndex: 0,
+    attempts: 0,
+    firstDistanceKm: null,
+    lastClick: null,
+    results: [],
+    gameStatus: 'idle',
+    score: 0,
+  });
+
+  // Pass a seeded random source to get a reproducible set of prompts (Daily challenge)
+  const startNewRound = useCallback((random: RandomSource = Math.random) => {
+    // Only ask for countries we can measure distances to
+    const pool = validCountries.filter(country => centroids.has(country));
+    const prompts = d3.shuffler(random)([...pool]).slice(0, LOCATE_ROUND_LENGTH);
+
+    setGameState({
+      prompts,
+      promptIndex: 0,
+      attempts: 0,
+      firstDistanceKm: null,
+      lastClick: null,
+      results: [],
+      gameStatus: 'playing',
+      score: 0,
+    });
+  }, [centroids, validCountries]);
+
+  const handleCountryClick = useCallback((country: string) => {
+    setGameState(prev => {
+      if (prev.gameStatus !== 'playing') return prev;
+
+      const target = prev.prompts[prev.promptIndex];
+      const clicked = centroids.get(country);
+      const goal = centroids.get(target);
+      if (!clicked || !goal) return prev;
+
+      const found = country === target;
+      const distance = found ? 0 : distanceKm(clicked, goal);
+      const firstDistanceKm = prev.firstDistanceKm ?? distance;
+      const attempts = prev.attempts + 1;
+      const lastClick = { country, distanceKm: distance };
+
+      if (!found && attempts < MAX_LOCATE_ATTEMPTS) {
+        return { ...prev, attempts, firstDistanceKm, lastClick };
+      }
+
+      // Scored on the first click, so a lucky third try doesn't beat a close first one
+      const points = proximityScore(firstDistanceKm);
+      return {
+        ...prev,
+        attempts,
+        firstDistanceKm,
+        lastClick,
+        results: [...prev.results, { country: target, attempts, found, distanceKm: firstDistanceKm, points }],
+        gameStatus: 'revealing',
+        score: prev.score + points,
+      };
+    });
+  }, [centroids]);
+
+  // After the answer has flashed, move on to the next prompt
+  useEffect(() => {
+    if (gameState.gameStatus !== 'revealing') return;
+    const timeout = setTimeout(() => {
+      setGameState(prev => {
+        const promptIndex = prev.promptIndex + 1;
+        return {
+          ...prev,
+          promptIndex,
+          attempts: 0,
+          firstDistanceKm: null,
+          lastClick: null,
+          gameStatus: promptIndex >= prev.prompts.length ? 'finished' : 'playing',
+        };
+      });
+    }, ADVANCE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [gameState.gameStatus]);
+
+  const currentPrompt = gameState.gameStatus === 'playing' || gameState.gameStatus === 'revealing'
+    ? gameState.prompts[gameState.promptIndex]
+    : null;
+
+  return {
+    ...gameState,
+    currentPrompt,
+    // The country flashing on the map after a hit or after the last allowed miss
+    flashCountry: gameState.gameStatus === 'revealing' ? currentPrompt : null,
+    startNewRound,
+    handleCountryClick,
+  };
+};
+
+export type LocateGame = ReturnType<typeof useLocateGame>;
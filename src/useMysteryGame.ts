@@ -0,0 +1,98 @@
+import { useState, useCallback } from 'react';
+import { matchCountry } from './countryMatcher';
+import { bearingDegrees, distanceKm, proximityPercent } from './mapHelpers';
+import { mysteryScore } from './scoring';
+import type { GuessFeedback } from './guessFeedback';
+import { pickRandom, type RandomSource } from './random';
+
+// --- Mystery mode (Worldle-style) ---
+// A hidden country; each guess says how far away it is, in which direction and how close
+// that is as a percentage. Distances are between the countries' centroids.
+
+export const MAX_MYSTERY_GUESSES = 6;
+
+export interface MysteryGuess {
+  country: string;
+  distanceKm: number;
+  bearing: number;     // Degrees clockwise from north, from the guess towards the target
+  proximity: number;   // 0-100
+}
+
+interface MysteryGameState {
+  target: string | null;
+  guesses: MysteryGuess[];
+  gameStatus: 'idle' | 'playing' | 'won' | 'lost';
+  score: number;
+}
+
+export const useMysteryGame = (centroids: Map<string, [number, number]>, validCountries: string[]) => {
+  const [gameState, setGameState] = useState<MysteryGameState>({
+    target: null,
+    guesses: [],
+    gameStatus: 'idle',
+    score: 0,
+  });
+
+  // Pass a seeded random source to get a reproducible target (Daily challenge)
+  const startNewRound = useCallback((random: RandomSource = Math.random) => {
+    // Only countries we can measure distances to
+    const pool = validCountries.filter(country => centroids.has(country)).sort();
+    const target = pickRandom(pool, random);
+    if (!target) return;
+    setGameState({ target, guesses: [], gameStatus: 'playing', score: 0 });
+  }, [centroids, validCountries]);
+
+  // The target counts as soon as it's typed; other countries only once submitted, since
+  // "Niger" may just be the start of "Nigeria". The feedback is worked out from the
+  // current render's state.
+  const checkGuess = useCallback((input: string, submitted = false): GuessFeedback | null => {
+    const { target, guesses, gameStatus } = gameState;
+    if (gameStatus !== 'playing' || !target) return null;
+
+    const country = matchCountry(input);
+    const from = country ? centroids.get(country) : undefined;
+    const to = centroids.get(target);
+    if (!country || !from || !to) return submitted ? { result: 'unknown', input, country: null } : null;
+    if (guesses.some(guess => guess.country === country)) return { result: 'duplicate', input, country };
+    if (country !== target && !submitted) return null;
+
+    const distance = country === target ? 0 : distanceKm(from, to);
+    const guess: MysteryGuess = {
+      country,
+      distanceKm: distance,
+      bearing: bearingDegrees(from, to),
+      proximity: proximityPercent(distance),
+    };
+    const nextGuesses = [...guesses, guess];
+    const won = country === target;
+    const lost = !won && nextGuesses.length >= MAX_MYSTERY_GUESSES;
+    setGameState(prev => ({
+      ...prev,
+      guesses: nextGuesses,
+      gameStatus: won ? 'won' : lost ? 'lost' : 'playing',
+      score: won ? mysteryScore(nextGuesses.length, MAX_MYSTERY_GUESSES) : 0,
+    }));
+
+    if (won) return { result: 'correct', input, country };
+    return {
+      result: 'wrong',
+      input,
+      country,
+      message: `${country}: ${Math.round(distance).toLocaleString()} km, ${guess.proximity}%${lost ? ` · It was ${target}` : ''}`,
+    };
+  }, [gameState, centroids]);
+
+  const giveUp = useCallback(() => {
+    setGameState(prev => (prev.gameStatus === 'playing' ? { ...prev, gameStatus: 'lost' } : prev));
+  }, []);
+
+  return {
+    ...gameState,
+    guessesLeft: MAX_MYSTERY_GUESSES - gameState.guesses.length,
+    startNewRound,
+    checkGuess,
+    giveUp,
+  };
+};
+
+export type MysteryGame = ReturnType<typeof useMysteryGame>;
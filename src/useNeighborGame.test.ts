@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { computeScore } from './scoring';
+import { initialNeighborState, neighborGameReducer, type NeighborAction, type NeighborGameState } from './useNeighborGame';
+
+const play = (...actions: NeighborAction[]): NeighborGameState => actions.reduce(neighborGameReducer, initialNeighborState);
+const start: NeighborAction = { type: 'start', target: 'Spain', neighbors: ['France', 'Portugal', 'Andorra'] };
+const guess = (input: string, submitted = false): NeighborAction => ({ type: 'guess', input, submitted });
+
+describe('neighborGameReducer', () => {
+  it('wins once every neighbor is found', () => {
+    const state = play(start, guess('France'), guess('Portugal'), guess('Andorra'));
+    expect(state.gameStatus).toBe('won');
+    expect(state.foundNeighbors).toEqual(['France', 'Portugal', 'Andorra']);
+    expect(state.score).toBe(computeScore(3, 0));
+  });
+
+  it('reveals the rest on giving up and takes no more guesses', () => {
+    const state = play(start, guess('France'), { type: 'giveUp' });
+    expect(state.gaveUp).toBe(true);
+    expect(state.revealedByGiveUp).toEqual(['Portugal', 'Andorra']);
+
+    const after = play(start, guess('France'), { type: 'giveUp' }, guess('Portugal'), guess('Andorra'));
+    expect(after.gameStatus).toBe('playing');
+    expect(after.foundNeighbors).toEqual(['France']);
+    expect(after.score).toBe(0);
+  });
+
+  it('counts submitted duplicates as wrong, but not ones typed live', () => {
+    const state = play(start, guess('France'), guess('France'));
+    expect(state.wrongGuesses).toBe(0);
+
+    const submitted = neighborGameReducer(state, guess('France', true));
+    expect(submitted.wrongGuesses).toBe(1);
+    expect(submitted.foundNeighbors).toEqual(['France']);
+  });
+
+  it('records countries that aren\'t neighbors as misses once submitted', () => {
+    const live = play(start, guess('Germany'));
+    expect(live.missedGuesses).toEqual([]);
+    expect(live.wrongGuesses).toBe(0);
+
+    const state = play(start, guess('Germany', true));
+    expect(state.missedGuesses).toEqual(['Germany']);
+    expect(state.wrongGuesses).toBe(1);
+    expect(neighborGameReducer(state, guess('Germany', true)).wrongGuesses).toBe(2);
+  });
+
+  it('only counts unrecognised input once submitted', () => {
+    const state = play(start, guess('Fran'));
+    expect(state.wrongGuesses).toBe(0);
+    expect(neighborGameReducer(state, guess('Fran', true)).wrongGuesses).toBe(1);
+  });
+});
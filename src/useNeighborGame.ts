@@ -1,75 +1,179 @@
-import { useState, useCallback } from 'react';
+import { useReducer, useCallback } from 'react';
+import { matchCountry } from './countryMatcher';
+import { computeScore } from './scoring';
+import type { GuessFeedback } from './guessFeedback';
+import { pickRandom, type RandomSource } from './random';
+import { NEIGHBOR_HINT_TIERS, hintPenalty, nextHint, type Hint } from './hints';
 
-interface NeighborGameState {
+export interface NeighborGameState {
   targetCountry: string | null;
+  targetNeighbors: string[];  // The answers for the current target
   foundNeighbors: string[];
   missedGuesses: string[];
+  wrongGuesses: number; // Misses plus unrecognised/duplicate submissions this round
+  hints: Hint[];        // Hints taken this round
+  revealedByGiveUp: string[];
+  gaveUp: boolean;      // The round is over and lost; the answers are showing, so no more guesses count
   isHardMode: boolean;
   gameStatus: 'idle' | 'playing' | 'won';
   score: number;
 }
 
+export type NeighborAction =
+  | { type: 'start'; target: string; neighbors: string[] }
+  | { type: 'guess'; input: string; submitted: boolean }
+  | { type: 'hint'; hint: Hint }
+  | { type: 'giveUp' }
+  | { type: 'setHardMode'; isHardMode: boolean };
+
+export const initialNeighborState: NeighborGameState = {
+  targetCountry: null,
+  targetNeighbors: [],
+  foundNeighbors: [],
+  missedGuesses: [],
+  wrongGuesses: 0,
+  hints: [],
+  revealedByGiveUp: [],
+  gaveUp: false,
+  isHardMode: false,
+  gameStatus: 'idle',
+  score: 0,
+};
+
+// Resolves the raw input and scores it. `submitted` is true when the player pressed
+// Enter; only then do unrecognised, duplicate and non-neighbor entries count as wrong.
+// Feedback is null when there is nothing to report (e.g. a half-typed name).
+export const judgeNeighborGuess = (
+  state: NeighborGameState,
+  input: string,
+  submitted: boolean
+): { state: NeighborGameState; feedback: GuessFeedback | null } => {
+  if (state.gameStatus !== 'playing' || state.gaveUp || !state.targetCountry) return { state, feedback: null };
+
+  const guess = matchCountry(input);
+  const countWrong = () => ({ ...state, wrongGuesses: state.wrongGuesses + 1 });
+
+  if (!guess) {
+    if (!submitted) return { state, feedback: null };
+    return { state: countWrong(), feedback: { result: 'unknown', input, country: null } };
+  }
+
+  if (state.foundNeighbors.includes(guess) || state.missedGuesses.includes(guess)) {
+    return { state: submitted ? countWrong() : state, feedback: { result: 'duplicate', input, country: guess } };
+  }
+
+  if (state.targetNeighbors.includes(guess)) {
+    const foundNeighbors = [...state.foundNeighbors, guess];
+    const isWin = foundNeighbors.length === state.targetNeighbors.length;
+    return {
+      state: {
+        ...state,
+        foundNeighbors,
+        gameStatus: isWin ? 'won' : 'playing',
+        score: isWin
+          ? state.score + computeScore(foundNeighbors.length, state.wrongGuesses, hintPenalty(state.hints))
+          : state.score,
+      },
+      feedback: { result: 'correct', input, country: guess },
+    };
+  }
+
+  // While typing live, "Niger" may just be the start of "Nigeria"
+  if (!submitted) return { state, feedback: null };
+  return {
+    state: { ...countWrong(), missedGuesses: [...state.missedGuesses, guess] },
+    feedback: { result: 'wrong', input, country: guess },
+  };
+};
+
+export const neighborGameReducer = (state: NeighborGameState, action: NeighborAction): NeighborGameState => {
+  switch (action.type) {
+    case 'start':
+      return {
+        ...state,
+        targetCountry: action.target,
+        targetNeighbors: action.neighbors,
+        foundNeighbors: [],
+        missedGuesses: [],
+        wrongGuesses: 0,
+        hints: [],
+        revealedByGiveUp: [],
+        gaveUp: false,
+        gameStatus: 'playing',
+      };
+    case 'guess':
+      return judgeNeighborGuess(state, action.input, action.submitted).state;
+    case 'hint':
+      if (state.gameStatus !== 'playing' || state.gaveUp) return state;
+      return { ...state, hints: [...state.hints, action.hint] };
+    case 'giveUp':
+      if (state.gameStatus !== 'playing' || state.gaveUp) return state;
+      return {
+        ...state,
+        revealedByGiveUp: state.targetNeighbors.filter(n => !state.foundNeighbors.includes(n)),
+        gaveUp: true,
+      };
+    case 'setHardMode':
+      return { ...state, isHardMode: action.isHardMode };
+  }
+};
+
 export const useNeighborGame = (neighborMap: Map<string, string[]>) => {
-  const [gameState, setGameState] = useState<NeighborGameState>({
-    targetCountry: null,
-    foundNeighbors: [],
-    missedGuesses: [],
-    isHardMode: false,
-    gameStatus: 'idle',
-    score: 0,
-  });
-
-  const startNewRound = useCallback(() => {
+  const [gameState, dispatch] = useReducer(neighborGameReducer, initialNeighborState);
+
+  // Starts a round on a specific target (challenge links)
+  const startWithTarget = useCallback((target: string) => {
+    const neighbors = neighborMap.get(target);
+    if (!neighbors) return;
+    dispatch({ type: 'start', target, neighbors });
+  }, [neighborMap]);
+
+  // Pass a seeded random source to get a reproducible target (Daily challenge)
+  const startNewRound = useCallback((random: RandomSource = Math.random) => {
     // Filter to only countries with more than 1 neighbor
     const validTargets = Array.from(neighborMap.keys()).filter(country => {
       const neighbors = neighborMap.get(country) || [];
       return neighbors.length > 1;
     });
-    
-    const randomTarget = validTargets[Math.floor(Math.random() * validTargets.length)];
-
-    setGameState(prev => ({
-      ...prev,
-      targetCountry: randomTarget,
-      foundNeighbors: [],
-      missedGuesses: [],
-      gameStatus: 'playing'
-    }));
-  }, [neighborMap]);
 
-  const checkGuess = useCallback((guess: string) => {
-    if (gameState.gameStatus !== 'playing' || !gameState.targetCountry) return;
+    const randomTarget = pickRandom(validTargets.sort(), random);
+    if (randomTarget) startWithTarget(randomTarget);
+  }, [neighborMap, startWithTarget]);
 
-    const correctNeighbors = neighborMap.get(gameState.targetCountry) || [];
-    
-    if (gameState.foundNeighbors.includes(guess) || gameState.missedGuesses.includes(guess)) return;
+  // The feedback is worked out from the current render's state; the reducer applies the
+  // same rules to the latest state, so quick successive guesses can't overwrite each other.
+  const checkGuess = useCallback((input: string, submitted = false): GuessFeedback | null => {
+    dispatch({ type: 'guess', input, submitted });
+    return judgeNeighborGuess(gameState, input, submitted).feedback;
+  }, [gameState]);
 
-    if (correctNeighbors.includes(guess)) {
-      const newFound = [...gameState.foundNeighbors, guess];
-      const isWin = newFound.length === correctNeighbors.length;
-      
-      setGameState(prev => ({
-        ...prev,
-        foundNeighbors: newFound,
-        gameStatus: isWin ? 'won' : 'playing',
-        score: isWin ? prev.score + 1 : prev.score
-      }));
-    } else {
-      setGameState(prev => ({
-        ...prev,
-        missedGuesses: [...prev.missedGuesses, guess]
-      }));
-    }
-  }, [gameState, neighborMap]);
+  // The next hint about a neighbor that hasn't been found
+  const hint = useCallback(() => {
+    const remaining = gameState.targetNeighbors.filter(n => !gameState.foundNeighbors.includes(n));
+    const next = nextHint(NEIGHBOR_HINT_TIERS, gameState.hints, remaining);
+    if (next) dispatch({ type: 'hint', hint: next });
+  }, [gameState]);
+
+  const giveUp = useCallback(() => dispatch({ type: 'giveUp' }), []);
 
   const toggleHardMode = () => {
-    setGameState(prev => ({ ...prev, isHardMode: !prev.isHardMode }));
+    dispatch({ type: 'setHardMode', isHardMode: !gameState.isHardMode });
+  };
+
+  const setHardMode = (isHardMode: boolean) => {
+    dispatch({ type: 'setHardMode', isHardMode });
   };
 
   return {
     ...gameState,
     startNewRound,
+    startWithTarget,
     checkGuess,
-    toggleHardMode
+    hint,
+    giveUp,
+    toggleHardMode,
+    setHardMode
   };
 };
+
+export type NeighborGame = ReturnType<typeof useNeighborGame>;
@@ -0,0 +1,160 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { matchCountry } from './countryMatcher';
+import { loadDeck, saveDeck, reviewCard, dueCards, type PracticeCard } from './practiceDeck';
+import type { GuessFeedback } from './guessFeedback';
+
+export const PRACTICE_SESSION_LENGTH = 20; // Roughly a 5-minute review
+const ADVANCE_DELAY_MS = 1500; // How long the answer flashes before the next card
+
+// 'name' = a highlighted country the player names; 'locate' = a name the player clicks
+export type PracticeCardKind = 'name' | 'locate';
+
+interface PracticeGameState {
+  deck: PracticeCard[];
+  dueCount: number;         // Cards due when the deck was last loaded or reviewed
+  queue: string[];          // Countries left this session, current card first
+  retried: string[];        // Missed this session and already queued again
+  kind: PracticeCardKind;
+  lastAnswerCorrect: boolean | null;
+  results: { country: string; correct: boolean }[];
+  // 'revealing' = the current card is answered and its country is flashing
+  gameStatus: 'idle' | 'playing' | 'revealing' | 'finished';
+}
+
+// Cards alternate between naming and locating each time they're reviewed
+const kindOf = (deck: PracticeCard[], country: string | undefined): PracticeCardKind => {
+  const card = deck.find(c => c.country === country);
+  return card && card.reviews % 2 === 1 ? 'locate' : 'name';
+};
+
+export const usePracticeGame = () => {
+  const [gameState, setGameState] = useState<PracticeGameState>(() => {
+    const deck = loadDeck();
+    return {
+      deck,
+      dueCount: dueCards(deck, Date.now()).length,
+      queue: [],
+      retried: [],
+      kind: 'name',
+      lastAnswerCorrect: null,
+      results: [],
+      gameStatus: 'idle',
+    };
+  });
+  const shownAtRef = useRef(0); // When the current card appeared, for response times
+
+  const currentCountry = gameState.gameStatus === 'playing' || gameState.gameStatus === 'revealing'
+    ? gameState.queue[0] ?? null
+    : null;
+
+  useEffect(() => {
+    if (gameState.gameStatus === 'playing') shownAtRef.current = Date.now();
+  }, [gameState.gameStatus, currentCountry]);
+
+  // Picks up misses recorded since the deck was loaded (games write straight to storage)
+  const refreshDeck = useCallback(() => {
+    const deck = loadDeck();
+    const dueCount = dueCards(deck, Date.now()).length;
+    setGameState(prev => prev.gameStatus === 'idle' || prev.gameStatus === 'finished'
+      ? { ...prev, deck, dueCount }
+      : prev);
+  }, []);
+
+  const startSession = useCallback(() => {
+    const deck = loadDeck();
+    const queue = dueCards(deck, Date.now()).slice(0, PRACTICE_SESSION_LENGTH).map(card => card.country);
+
+    setGameState({
+      deck,
+      dueCount: queue.length,
+      queue,
+      retried: [],
+      kind: kindOf(deck, queue[0]),
+      lastAnswerCorrect: null,
+      results: [],
+      gameStatus: queue.length > 0 ? 'playing' : 'finished',
+    });
+  }, []);
+
+  // Scores the current card, saves the deck and flashes the answer
+  const answer = useCallback((correct: boolean) => {
+    const { deck, queue, retried, gameStatus } = gameState;
+    if (gameStatus !== 'playing' || queue.length === 0) return;
+
+    const now = Date.now();
+    const country = queue[0];
+    const newDeck = deck.map(card => card.country === country
+      ? reviewCard(card, correct, now - shownAtRef.current, now)
+      : card);
+    saveDeck(newDeck);
+
+    // A miss comes back once at the end of the session
+    const retry = !correct && !retried.includes(country);
+    setGameState(prev => ({
+      ...prev,
+      deck: newDeck,
+      queue: retry ? [...prev.queue, country] : prev.queue,
+      retried: retry ? [...prev.retried, country] : prev.retried,
+      lastAnswerCorrect: correct,
+      results: [...prev.results, { country, correct }],
+      gameStatus: 'revealing',
+    }));
+  }, [gameState]);
+
+  // 'name' cards: typed answers. Wrong names only count once submitted, since a
+  // half-typed name may just be the start of the right one.
+  const checkName = useCallback((input: string, submitted: boolean): GuessFeedback | null => {
+    if (gameState.gameStatus !== 'playing' || gameState.kind !== 'name' || !currentCountry) return null;
+
+    const guess = matchCountry(input);
+    if (!guess) return submitted ? { result: 'unknown', input, country: null } : null;
+
+    if (guess === currentCountry) {
+      answer(true);
+      return { result: 'correct', input, country: guess };
+    }
+    if (!submitted) return null;
+    answer(false);
+    return { result: 'wrong', input, country: guess, message: `That was ${currentCountry}` };
+  }, [gameState, currentCountry, answer]);
+
+  // 'locate' cards: the player clicks the named country
+  const handleCountryClick = useCallback((country: string) => {
+    if (gameState.kind !== 'locate') return;
+    answer(country === currentCountry);
+  }, [gameState.kind, currentCountry, answer]);
+
+  // After the answer has flashed, move on to the next card
+  useEffect(() => {
+    if (gameState.gameStatus !== 'revealing') return;
+    const timeout = setTimeout(() => {
+      const now = Date.now();
+      setGameState(prev => {
+        const queue = prev.queue.slice(1);
+        return {
+          ...prev,
+          dueCount: dueCards(prev.deck, now).length,
+          queue,
+          kind: kindOf(prev.deck, queue[0]),
+          lastAnswerCorrect: null,
+          gameStatus: queue.length > 0 ? 'playing' : 'finished',
+        };
+      });
+    }, ADVANCE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [gameState.gameStatus]);
+
+  return {
+    ...gameState,
+    currentCountry,
+    // The answer flashing on the map after each card
+    flashCountry: gameState.gameStatus === 'revealing' ? currentCountry : null,
+    refreshDeck,
+    startSession,
+    checkName,
+    handleCountryClick,
+    answer,
+  };
+};
+
+export type PracticeGame = ReturnType<typeof usePracticeGame>;
@@ -0,0 +1,108 @@
+import { useState, useCallback } from 'react';
+import { matchCountry } from './countryMatcher';
+import { bfsDistances, findShortestPath, nodesOnShortestPaths } from './mapHelpers';
+import type { GuessFeedback } from './guessFeedback';
+import { pickRandom, type RandomSource } from './random';
+
+// Start and end are this many border crossings apart (so 2-5 countries in between)
+const MIN_ROUTE_DISTANCE = 3;
+const MAX_ROUTE_DISTANCE = 6;
+
+interface RouteGameState {
+  startCountry: string | null;
+  endCountry: string | null;
+  guesses: string[];
+  onShortestPath: string[];  // The guesses that lie on some shortest route
+  optimalLength: number;     // Countries needed in between on the shortest route
+  revealedPath: string[];    // Filled in when the player gives up
+  gameStatus: 'idle' | 'playing' | 'won' | 'gaveUp';
+}
+
+export const useRouteGame = (neighborMap: Map<string, string[]>) => {
+  const [gameState, setGameState] = useState<RouteGameState>({
+    startCountry: null,
+    endCountry: null,
+    guesses: [],
+    onShortestPath: [],
+    optimalLength: 0,
+    revealedPath: [],
+    gameStatus: 'idle',
+  });
+
+  // Pass a seeded random source to get a reproducible route (Daily challenge)
+  const startNewRound = useCallback((random: RandomSource = Math.random) => {
+    const countries = Array.from(neighborMap.keys()).sort();
+    if (countries.length === 0) return;
+
+    // Pick starts until one has a far-enough (but not too far) destination
+    for (let tries = 0; tries < 50; tries++) {
+      const start = pickRandom(countries, random)!;
+      const candidates = Array.from(bfsDistances(neighborMap, start))
+        .filter(([, distance]) => distance >= MIN_ROUTE_DISTANCE && distance <= MAX_ROUTE_DISTANCE);
+      if (candidates.length === 0) continue;
+
+      const [end, distance] = pickRandom(candidates, random)!;
+      setGameState({
+        startCountry: start,
+        endCountry: end,
+        guesses: [],
+        onShortestPath: [],
+        optimalLength: distance - 1,
+        revealedPath: [],
+        gameStatus: 'playing',
+      });
+      return;
+    }
+  }, [neighborMap]);
+
+  // Resolves the raw input and adds it to the route. Any country is accepted; it is
+  // reported as 'correct' when it lies on a shortest route and 'wrong' otherwise. Countries
+  // off the shortest routes are only added once submitted: while typing live, "Niger" may
+  // just be the start of "Nigeria".
+  const checkGuess = useCallback((input: string, submitted = false): GuessFeedback | null => {
+    const { startCountry, endCountry, guesses, gameStatus } = gameState;
+    if (gameStatus !== 'playing' || !startCountry || !endCountry) return null;
+
+    const guess = matchCountry(input);
+    if (!guess) return submitted ? { result: 'unknown', input, country: null } : null;
+
+    if (guess === startCountry || guess === endCountry || guesses.includes(guess)) {
+      return { result: 'duplicate', input, country: guess };
+    }
+
+    const onPath = nodesOnShortestPaths(neighborMap, startCountry, endCountry).has(guess);
+    if (!onPath && !submitted) return null;
+    const newGuesses = [...guesses, guess];
+    // Won once the guesses link start to end through shared land borders
+    const allowed = new Set([...newGuesses, endCountry]);
+    const isWin = bfsDistances(neighborMap, startCountry, allowed).has(endCountry);
+
+    setGameState(prev => ({
+      ...prev,
+      guesses: newGuesses,
+      onShortestPath: onPath ? [...prev.onShortestPath, guess] : prev.onShortestPath,
+      gameStatus: isWin ? 'won' : 'playing',
+    }));
+
+    return onPath
+      ? { result: 'correct', input, country: guess, message: `${guess} is on a shortest route` }
+      : { result: 'wrong', input, country: guess, message: `${guess} is off the shortest route` };
+  }, [gameState, neighborMap]);
+
+  const giveUp = useCallback(() => {
+    setGameState(prev => {
+      if (prev.gameStatus !== 'playing' || !prev.startCountry || !prev.endCountry) return prev;
+      const path = findShortestPath(neighborMap, prev.startCountry, prev.endCountry);
+      return { ...prev, revealedPath: path.slice(1, -1), gameStatus: 'gaveUp' };
+    });
+  }, [neighborMap]);
+
+  return {
+    ...gameState,
+    startNewRound,
+    checkGuess,
+    giveUp,
+  };
+};
+
+export type RouteGame = ReturnType<typeof useRouteGame>;
@@ -0,0 +1,157 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import * as d3 from 'd3';
+import { matchCountry } from './countryMatcher';
+import { silhouetteScore } from './scoring';
+import type { CountryFeature } from './mapHelpers';
+import type { GuessFeedback } from './guessFeedback';
+import type { RandomSource } from './random';
+
+export const SILHOUETTE_ROUND_LENGTH = 10;
+const ADVANCE_DELAY_MS = 1500; // How long the answer shows before the next shape
+
+// Every shape gets a random turn and flip up front, so a Daily deals the same shapes
+// whichever options are on; Rotate and Mirror decide whether they're applied.
+export interface SilhouetteShape {
+  country: string;
+  angle: number;      // Degrees
+  mirrored: boolean;
+}
+
+export interface SilhouetteResult {
+  country: string;
+  found: boolean;
+  wrongGuesses: number;
+  outlined: boolean;  // The surroundings were shown
+  points: number;
+}
+
+interface SilhouetteGameState {
+  shapes: SilhouetteShape[];
+  shapeIndex: number;
+  wrongGuesses: number;   // For the current shape
+  outlined: boolean;      // The current shape's surroundings are showing
+  results: SilhouetteResult[];
+  rotate: boolean;
+  mirror: boolean;
+  // 'revealing' = the current shape is answered (or skipped) and its name is showing
+  gameStatus: 'idle' | 'playing' | 'revealing' | 'finished';
+  score: number;
+}
+
+export const useSilhouetteGame = (countryShapes: Map<string, CountryFeature>) => {
+  const [gameState, setGameState] = useState<SilhouetteGameState>({
+    shapes: [],
+    shapeIndex: 0,
+    wrongGuesses: 0,
+    outlined: false,
+    results: [],
+    rotate: false,
+    mirror: false,
+    gameStatus: 'idle',
+    score: 0,
+  });
+
+  const pool = useMemo(() => Array.from(countryShapes.keys()).sort(), [countryShapes]);
+
+  // Pass a seeded random source to get a reproducible set of shapes (Daily challenge)
+  const startNewRound = useCallback((random: RandomSource = Math.random) => {
+    const shapes = d3.shuffler(random)([...pool]).slice(0, SILHOUETTE_ROUND_LENGTH).map(country => ({
+      country,
+      angle: Math.round(random() * 360),
+      mirrored: random() < 0.5,
+    }));
+
+    setGameState(prev => ({
+      ...prev,
+      shapes,
+      shapeIndex: 0,
+      wrongGuesses: 0,
+      outlined: false,
+      results: [],
+      gameStatus: 'playing',
+      score: 0,
+    }));
+  }, [pool]);
+
+  const currentShape = gameState.gameStatus === 'playing' || gameState.gameStatus === 'revealing'
+    ? gameState.shapes[gameState.shapeIndex] ?? null
+    : null;
+
+  // Scores the current shape and shows its name
+  const resolve = useCallback((found: boolean) => {
+    setGameState(prev => {
+      if (prev.gameStatus !== 'playing') return prev;
+      const points = found ? silhouetteScore(prev.wrongGuesses, prev.outlined) : 0;
+      const result: SilhouetteResult = {
+        country: prev.shapes[prev.shapeIndex].country,
+        found,
+        wrongGuesses: prev.wrongGuesses,
+        outlined: prev.outlined,
+        points,
+      };
+      return { ...prev, results: [...prev.results, result], gameStatus: 'revealing', score: prev.score + points };
+    });
+  }, []);
+
+  // Wrong names only count once submitted, since a half-typed name may just be the start of the right one
+  const checkGuess = useCallback((input: string, submitted: boolean): GuessFeedback | null => {
+    if (gameState.gameStatus !== 'playing' || !currentShape) return null;
+
+    const guess = matchCountry(input);
+    if (!guess) {
+      if (submitted) setGameState(prev => ({ ...prev, wrongGuesses: prev.wrongGuesses + 1 }));
+      return submitted ? { result: 'unknown', input, country: null } : null;
+    }
+    if (guess === currentShape.country) {
+      resolve(true);
+      return { result: 'correct', input, country: guess };
+    }
+    if (!submitted) return null;
+    setGameState(prev => ({ ...prev, wrongGuesses: prev.wrongGuesses + 1 }));
+    return { result: 'wrong', input, country: guess, message: `It's not ${guess}` };
+  }, [gameState.gameStatus, currentShape, resolve]);
+
+  const skip = useCallback(() => resolve(false), [resolve]);
+
+  // Hint: draws the neighbouring coastlines and borders around the shape, for half the points
+  const showOutline = useCallback(() => {
+    setGameState(prev => (prev.gameStatus === 'playing' ? { ...prev, outlined: true } : prev));
+  }, []);
+
+  const toggleRotate = useCallback(() => setGameState(prev => ({ ...prev, rotate: !prev.rotate })), []);
+  const toggleMirror = useCallback(() => setGameState(prev => ({ ...prev, mirror: !prev.mirror })), []);
+
+  // After the name has shown, move on to the next shape
+  useEffect(() => {
+    if (gameState.gameStatus !== 'revealing') return;
+    const timeout = setTimeout(() => {
+      setGameState(prev => {
+        const shapeIndex = prev.shapeIndex + 1;
+        return {
+          ...prev,
+          shapeIndex,
+          wrongGuesses: 0,
+          outlined: false,
+          gameStatus: shapeIndex >= prev.shapes.length ? 'finished' : 'playing',
+        };
+      });
+    }, ADVANCE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [gameState.gameStatus]);
+
+  return {
+    ...gameState,
+    countryShapes,
+    currentShape,
+    // The answer shown on the map after each shape
+    revealedCountry: gameState.gameStatus === 'revealing' ? currentShape?.country ?? null : null,
+    startNewRound,
+    checkGuess,
+    skip,
+    showOutline,
+    toggleRotate,
+    toggleMirror,
+  };
+};
+
+export type SilhouetteGame = ReturnType<typeof useSilhouetteGame>;